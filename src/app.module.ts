@@ -1,12 +1,25 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { DatabaseModule } from './database/database.module';
+import { StorageModule } from './storage/storage.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
 import { ProvidersModule } from './modules/providers/providers.module';
 import { ServicesModule } from './modules/services/services.module';
+import { BookingsModule } from './modules/bookings/bookings.module';
+import { SurgeModule } from './modules/surge/surge.module';
+import { InvoicesModule } from './modules/invoices/invoices.module';
+import { PaymentsModule } from './modules/payments/payments.module';
+import { LedgerModule } from './modules/ledger/ledger.module';
+import { PayoutsModule } from './modules/payouts/payouts.module';
+import { CommissionsModule } from './modules/commissions/commissions.module';
+import { DiscountsModule } from './modules/discounts/discounts.module';
+import { LoyaltyModule } from './modules/loyalty/loyalty.module';
+import { ReferralsModule } from './modules/referrals/referrals.module';
+import { ReviewsModule } from './modules/reviews/reviews.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -20,12 +33,37 @@ import configuration from './config/configuration';
     
     // Database
     DatabaseModule,
+
+    // File storage
+    StorageModule,
+
+    // Background jobs
+    BullModule.forRootAsync({
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get('redis.host'),
+          port: configService.get('redis.port'),
+        },
+      }),
+      inject: [ConfigService],
+    }),
     
     // Feature Modules
     AuthModule,
     UsersModule,
     ServicesModule,
     ProvidersModule,
+    BookingsModule,
+    SurgeModule,
+    InvoicesModule,
+    PaymentsModule,
+    LedgerModule,
+    PayoutsModule,
+    CommissionsModule,
+    DiscountsModule,
+    LoyaltyModule,
+    ReferralsModule,
+    ReviewsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -27,5 +27,163 @@ export default () => ({
     secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
     region: process.env.AWS_REGION || 'ap-south-1',
     s3Bucket: process.env.AWS_S3_BUCKET,
+    // Set for S3-compatible stores (MinIO, R2, ...)
+    s3Endpoint: process.env.AWS_S3_ENDPOINT,
+  },
+
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'local',
+    localPath: process.env.STORAGE_LOCAL_PATH || './uploads',
+    // Signs local download links; falls back to the JWT secret
+    signingSecret: process.env.STORAGE_SIGNING_SECRET,
+    publicBaseUrl: process.env.PUBLIC_BASE_URL || 'http://localhost:3000',
+    signedUrlTtlSeconds: parseInt(
+      process.env.STORAGE_SIGNED_URL_TTL_SECONDS || '300',
+      10,
+    ),
+    maxAttachmentsPerKind: 10,
+  },
+
+  dispatch: {
+    offerTimeoutSeconds: parseInt(
+      process.env.DISPATCH_OFFER_TIMEOUT_SECONDS || '30',
+      10,
+    ),
+    maxAttempts: parseInt(process.env.DISPATCH_MAX_ATTEMPTS || '5', 10),
+    searchRadiusMeters: parseInt(
+      process.env.DISPATCH_SEARCH_RADIUS_METERS || '5000',
+      10,
+    ),
+  },
+
+  scheduling: {
+    // Provider availability is entered in local time (IST by default)
+    utcOffsetMinutes: parseInt(
+      process.env.SCHEDULING_UTC_OFFSET_MINUTES || '330',
+      10,
+    ),
+    defaultDurationMinutes: 60,
+    maxRangeDays: 31,
+    rescheduleExpiryHours: parseInt(
+      process.env.RESCHEDULE_EXPIRY_HOURS || '24',
+      10,
+    ),
+    // How far ahead recurring series occurrences are generated
+    recurringWindowDays: parseInt(
+      process.env.RECURRING_WINDOW_DAYS || '28',
+      10,
+    ),
+  },
+
+  pricing: {
+    quoteValidityMinutes: 10,
+    taxPercent: parseFloat(process.env.PRICING_TAX_PERCENT || '18'),
+    commissionPercent: parseFloat(
+      process.env.PRICING_COMMISSION_PERCENT || '15',
+    ),
+    // Travel beyond the free radius is charged per km, up to the cap
+    freeTravelKm: 3,
+    travelRatePerKm: 10,
+    maxTravelSurcharge: 200,
+  },
+
+  surge: {
+    // Platform-wide kill switch; per-cell overrides live in the database
+    enabled: process.env.SURGE_ENABLED !== 'false',
+    geohashPrecision: 6,
+    enterRatio: 1.5,
+    exitRatio: 1,
+    sensitivity: 0.5,
+    maxMultiplier: parseFloat(process.env.SURGE_MAX_MULTIPLIER || '2'),
+    step: 0.1,
+    staleAfterMinutes: 15,
+  },
+
+  pins: {
+    maxWrongAttempts: 5,
+    lockoutMinutes: 15,
+    // Start is refused when the provider's last location is further away
+    maxStartDistanceMeters: parseInt(
+      process.env.PIN_MAX_START_DISTANCE_METERS || '500',
+      10,
+    ),
+    requireEndPin: process.env.REQUIRE_END_PIN === 'true',
+  },
+
+  invoice: {
+    // Numbers look like SG/26-27/000001 (GST allows at most 16 characters)
+    prefix: process.env.INVOICE_PREFIX || 'SG',
+    platformName: process.env.INVOICE_PLATFORM_NAME || 'ServiGroww',
+    platformAddress: process.env.INVOICE_PLATFORM_ADDRESS,
+    platformGstin: process.env.INVOICE_PLATFORM_GSTIN,
+    // Supplier state; jobs in another state are charged IGST
+    platformState: process.env.INVOICE_PLATFORM_STATE || 'Karnataka',
+    // Other home services
+    defaultSacCode: process.env.INVOICE_DEFAULT_SAC_CODE || '999799',
+  },
+
+  payments: {
+    // Only the local fake gateway ships for now
+    gateway: process.env.PAYMENT_GATEWAY || 'fake',
+    currency: 'INR',
+    keyId: process.env.PAYMENT_GATEWAY_KEY_ID || 'fake_key',
+    // Signs checkout confirmations
+    keySecret: process.env.PAYMENT_GATEWAY_KEY_SECRET || 'fake_key_secret',
+    // Signs webhook bodies
+    webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || 'fake_webhook_secret',
+    // Providers owing more than this on cash jobs cannot go online
+    cashDueLimit: parseFloat(process.env.PROVIDER_CASH_DUE_LIMIT || '1000'),
+    // Customers can tip for this long after a job completes
+    tipWindowHours: 48,
+  },
+
+  payouts: {
+    // Only the local fake payout gateway ships for now
+    gateway: process.env.PAYOUT_GATEWAY || 'fake',
+    // Weekly settlement, Monday 06:00 UTC by default
+    cron: process.env.PAYOUT_CRON || '0 6 * * 1',
+    // Earnings younger than this stay in the wallet for disputes
+    holdDays: parseInt(process.env.PAYOUT_HOLD_DAYS || '7', 10),
+    minAmount: parseFloat(process.env.PAYOUT_MIN_AMOUNT || '100'),
+    // Failed transfers are retried on later runs up to this many attempts
+    maxAttempts: 3,
+    // A payout claimed this long ago with no transfer id is sent again
+    staleMinutes: 30,
+  },
+
+  loyalty: {
+    // Share of a completed booking's final_price earned back as points;
+    // categories can set their own
+    earnPercent: parseFloat(process.env.LOYALTY_EARN_PERCENT || '2'),
+    // Rupees a point is worth when redeemed
+    pointValue: 1,
+    expiryMonths: parseInt(process.env.LOYALTY_EXPIRY_MONTHS || '12', 10),
+    // Most of an order that can be paid with points
+    maxRedeemPercent: 20,
+  },
+
+  referrals: {
+    // 'wallet' credits both sides; 'discount_code' gives each a one-time code
+    rewardType: process.env.REFERRAL_REWARD_TYPE || 'wallet',
+    referrerReward: parseFloat(process.env.REFERRAL_REFERRER_REWARD || '100'),
+    refereeReward: parseFloat(process.env.REFERRAL_REFEREE_REWARD || '100'),
+    discountPercent: 10,
+    discountValidDays: 30,
+    // Referrals a single user can make, rejected ones included
+    maxPerReferrer: parseInt(process.env.REFERRAL_MAX_PER_REFERRER || '25', 10),
+  },
+
+  reviews: {
+    // Either side can review a completed booking for this long
+    windowDays: 14,
+    // Comma-separated; reviews using any of these are held for moderation
+    blockedWords: (process.env.REVIEW_BLOCKED_WORDS || '')
+      .split(',')
+      .map((word) => word.trim())
+      .filter(Boolean),
+    // A rating this many stars from the reviewee's average is held, once
+    // they have outlierMinReviews visible reviews
+    outlierGap: 3,
+    outlierMinReviews: 5,
   },
 });
\ No newline at end of file
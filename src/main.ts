@@ -6,6 +6,7 @@ import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
     cors: true, // Enable CORS for frontend
+    rawBody: true, // Payment webhooks verify signatures over the raw body
   });
 
   // Global prefix for all routes
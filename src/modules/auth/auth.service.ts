@@ -1,8 +1,10 @@
 import { Injectable, UnauthorizedException, ConflictException, BadRequestException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
 import { DatabaseService } from '../../database/database.service';
 import { User, UserRole, UserStatus } from '../../types/database.types';
+import { ReferralsService } from '../referrals/referrals.service';
 import { RegisterDto } from './dto/register.dto';
 import { SendOtpDto } from './dto/send-otp.dto';
 import { VerifyOtpDto } from './dto/verify-otp.dto';
@@ -23,6 +25,7 @@ export class AuthService {
     private db: DatabaseService,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private referralsService: ReferralsService,
   ) {}
 
   /**
@@ -136,7 +139,7 @@ export class AuthService {
     message: string;
     user: User;
   }> {
-    const { phone, name, role, email } = registerDto;
+    const { phone, name, role, email, referral_code, device_id } = registerDto;
 
     // Check if user already exists
     const existingUser = await this.db.queryOne(
@@ -149,16 +152,26 @@ export class AuthService {
     }
 
     // Start transaction - FIXED: Remove type parameter
-    const result = await this.db.transaction(async (client) => {
+    const result = await this.db.transaction(async (client: PoolClient) => {
       // Create user
-      const userResult = await client.query(
-        `INSERT INTO users (phone, name, role, email, status) 
-         VALUES ($1, $2, $3, $4, $5) 
+      const userResult = await client.query<User>(
+        `INSERT INTO users (phone, name, role, email, status, registration_device_id) 
+         VALUES ($1, $2, $3, $4, $5, $6) 
          RETURNING *`,
-        [phone, name, role, email, UserStatus.ACTIVE]
+        [phone, name, role, email, UserStatus.ACTIVE, device_id],
       );
       const user = userResult.rows[0];
 
+      // Rewarded once the new user completes their first booking
+      if (referral_code) {
+        await this.referralsService.recordReferral(
+          user,
+          referral_code,
+          device_id,
+          client,
+        );
+      }
+
       // Create role-specific profile
       if (role === UserRole.CUSTOMER) {
         await client.query(
@@ -1,4 +1,11 @@
-import { IsString, IsPhoneNumber, IsEnum, IsOptional, MinLength } from 'class-validator';
+import {
+  IsString,
+  IsPhoneNumber,
+  IsEnum,
+  IsOptional,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
 import { UserRole } from '../../../types/database.types';
 
 export class RegisterDto {
@@ -15,4 +22,16 @@ export class RegisterDto {
   @IsOptional()
   @IsString()
   email?: string;
+
+  // Referral code of the user who invited them
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  referral_code?: string;
+
+  // App install identifier, used to spot self-referrals
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  device_id?: string;
 }
@@ -0,0 +1,296 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { addDays, addMinutes, differenceInCalendarDays } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  ProviderAvailability,
+} from '../../types/database.types';
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface ProviderSlots {
+  provider_id: string;
+  service_id: string;
+  duration_minutes: number;
+  slots: TimeSlot[];
+}
+
+/**
+ * Bookings in these statuses hold their slot
+ * Pending bookings are included so two customers cannot request the same slot.
+ */
+export const SLOT_BLOCKING_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.ACCEPTED,
+  BookingStatus.ONGOING,
+];
+
+@Injectable()
+export class AvailabilityService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Get free slots for a provider and service over a date range
+   */
+  async getAvailableSlots(
+    providerId: string,
+    serviceId: string,
+    from: Date,
+    to: Date,
+  ): Promise<ProviderSlots> {
+    if (to <= from) {
+      throw new BadRequestException('"to" must be after "from"');
+    }
+
+    const maxRangeDays = this.configService.get<number>(
+      'scheduling.maxRangeDays',
+      31,
+    );
+    if (differenceInCalendarDays(to, from) > maxRangeDays) {
+      throw new BadRequestException(
+        `Date range cannot exceed ${maxRangeDays} days`,
+      );
+    }
+
+    const duration = await this.getServiceDuration(providerId, serviceId);
+    const availability = await this.getWeeklyAvailability(providerId);
+    const busy = await this.getBusyPeriods(providerId, from, to);
+    const now = new Date();
+
+    const slots = this.buildWindows(availability, from, to)
+      .flatMap((window) => this.splitWindow(window, duration))
+      .filter(
+        (slot) =>
+          slot.start >= from &&
+          slot.end <= to &&
+          slot.start > now &&
+          !busy.some((period) => this.overlaps(slot, period)),
+      );
+
+    return {
+      provider_id: providerId,
+      service_id: serviceId,
+      duration_minutes: duration,
+      slots,
+    };
+  }
+
+  /**
+   * Ensure a slot is inside working hours and not already taken
+   * Locks the provider row, so run it in the transaction that writes the
+   * booking: concurrent requests for the same provider are serialised.
+   */
+  async assertSlotBookable(
+    providerId: string,
+    serviceId: string,
+    scheduledAt: Date,
+    client: PoolClient,
+    excludeBookingId?: string,
+  ): Promise<TimeSlot> {
+    if (scheduledAt <= new Date()) {
+      throw new BadRequestException('Scheduled time must be in the future');
+    }
+
+    await client.query(`SELECT id FROM providers WHERE id = $1 FOR UPDATE`, [
+      providerId,
+    ]);
+
+    const duration = await this.getServiceDuration(providerId, serviceId);
+    const slot = { start: scheduledAt, end: addMinutes(scheduledAt, duration) };
+
+    const availability = await this.getWeeklyAvailability(providerId);
+    const withinHours = this.buildWindows(
+      availability,
+      addDays(slot.start, -1),
+      addDays(slot.end, 1),
+    ).some((window) => slot.start >= window.start && slot.end <= window.end);
+
+    if (!withinHours) {
+      throw new BadRequestException(
+        'Requested time is outside the provider working hours',
+      );
+    }
+
+    const clash = await client.query(
+      `SELECT b.id
+       FROM bookings b
+       JOIN services s ON b.service_id = s.id
+       WHERE b.provider_id = $1
+         AND b.status = ANY($2)
+         AND b.scheduled_at IS NOT NULL
+         AND b.scheduled_at < $4
+         AND b.scheduled_at + make_interval(mins => COALESCE(s.estimated_duration_minutes, $5)) > $3
+         AND ($6::uuid IS NULL OR b.id <> $6)
+       LIMIT 1`,
+      [
+        providerId,
+        SLOT_BLOCKING_STATUSES,
+        slot.start,
+        slot.end,
+        this.defaultDuration(),
+        excludeBookingId ?? null,
+      ],
+    );
+
+    if ((clash.rowCount ?? 0) > 0) {
+      throw new ConflictException('This time slot is no longer available');
+    }
+
+    return slot;
+  }
+
+  /**
+   * Slot length for a service offered by a provider
+   */
+  private async getServiceDuration(
+    providerId: string,
+    serviceId: string,
+  ): Promise<number> {
+    const service = await this.db.queryOne<{
+      estimated_duration_minutes?: number;
+    }>(
+      `SELECT s.estimated_duration_minutes
+       FROM provider_services ps
+       JOIN services s ON ps.service_id = s.id
+       WHERE ps.provider_id = $1
+         AND ps.service_id = $2
+         AND ps.is_active = true
+         AND s.is_active = true`,
+      [providerId, serviceId],
+    );
+
+    if (!service) {
+      throw new NotFoundException('Provider does not offer this service');
+    }
+
+    return service.estimated_duration_minutes || this.defaultDuration();
+  }
+
+  private async getWeeklyAvailability(
+    providerId: string,
+  ): Promise<ProviderAvailability[]> {
+    return await this.db.queryMany<ProviderAvailability>(
+      `SELECT * FROM provider_availability
+       WHERE provider_id = $1
+       ORDER BY day_of_week, start_time`,
+      [providerId],
+    );
+  }
+
+  /**
+   * Scheduled bookings of the provider that overlap the range
+   */
+  private async getBusyPeriods(
+    providerId: string,
+    from: Date,
+    to: Date,
+  ): Promise<TimeSlot[]> {
+    const rows = await this.db.queryMany<{ start: Date; end: Date }>(
+      `SELECT
+        b.scheduled_at as start,
+        b.scheduled_at + make_interval(mins => COALESCE(s.estimated_duration_minutes, $4)) as end
+       FROM bookings b
+       JOIN services s ON b.service_id = s.id
+       WHERE b.provider_id = $1
+         AND b.status = ANY($2)
+         AND b.scheduled_at IS NOT NULL
+         AND b.scheduled_at < $5
+         AND b.scheduled_at + make_interval(mins => COALESCE(s.estimated_duration_minutes, $4)) > $3`,
+      [providerId, SLOT_BLOCKING_STATUSES, from, this.defaultDuration(), to],
+    );
+
+    return rows.map((row) => ({
+      start: new Date(row.start),
+      end: new Date(row.end),
+    }));
+  }
+
+  /**
+   * Expand weekly availability into concrete UTC windows for a range
+   */
+  private buildWindows(
+    availability: ProviderAvailability[],
+    from: Date,
+    to: Date,
+  ): TimeSlot[] {
+    const offset = this.configService.get<number>(
+      'scheduling.utcOffsetMinutes',
+      330,
+    );
+    const windows: TimeSlot[] = [];
+
+    // Walk local calendar days; a shifted Date's UTC fields are local fields
+    const localFrom = addMinutes(from, offset);
+    const localTo = addMinutes(to, offset);
+    let day = Date.UTC(
+      localFrom.getUTCFullYear(),
+      localFrom.getUTCMonth(),
+      localFrom.getUTCDate(),
+    );
+
+    while (day <= localTo.getTime()) {
+      const dayOfWeek = new Date(day).getUTCDay();
+
+      availability
+        .filter((entry) => entry.day_of_week === dayOfWeek)
+        .forEach((entry) => {
+          const start = day + this.toMinutes(entry.start_time) * 60_000;
+          const end = day + this.toMinutes(entry.end_time) * 60_000;
+
+          windows.push({
+            start: addMinutes(new Date(start), -offset),
+            end: addMinutes(new Date(end), -offset),
+          });
+        });
+
+      day += 24 * 60 * 60_000;
+    }
+
+    return windows;
+  }
+
+  private splitWindow(window: TimeSlot, duration: number): TimeSlot[] {
+    const slots: TimeSlot[] = [];
+    let start = window.start;
+
+    while (addMinutes(start, duration) <= window.end) {
+      const end = addMinutes(start, duration);
+      slots.push({ start, end });
+      start = end;
+    }
+
+    return slots;
+  }
+
+  private overlaps(a: TimeSlot, b: TimeSlot): boolean {
+    return a.start < b.end && b.start < a.end;
+  }
+
+  /**
+   * "HH:MM" (or "HH:MM:SS") to minutes since midnight
+   */
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+    return hours * 60 + minutes;
+  }
+
+  private defaultDuration(): number {
+    return this.configService.get<number>(
+      'scheduling.defaultDurationMinutes',
+      60,
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  BookingAttachmentsService,
+  MAX_ATTACHMENT_BYTES,
+} from './booking-attachments.service';
+import { UploadAttachmentDto } from './dto/upload-attachment.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import type { IncomingFile } from '../../storage/storage-driver.interface';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('bookings/:bookingId/attachments')
+@UseGuards(JwtAuthGuard)
+export class BookingAttachmentsController {
+  constructor(private bookingAttachmentsService: BookingAttachmentsService) {}
+
+  /**
+   * POST /api/v1/bookings/:bookingId/attachments
+   * Upload a before/after photo (multipart field "file") (Provider only)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ATTACHMENT_BYTES } }),
+  )
+  async uploadAttachment(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+    @Body() uploadDto: UploadAttachmentDto,
+    @UploadedFile() file: IncomingFile,
+  ) {
+    const attachment = await this.bookingAttachmentsService.uploadAttachment(
+      user,
+      bookingId,
+      uploadDto.kind,
+      file,
+    );
+    return ResponseUtil.success(attachment, 'Photo uploaded');
+  }
+
+  /**
+   * GET /api/v1/bookings/:bookingId/attachments
+   * List photos with signed download links
+   */
+  @Get()
+  async getAttachments(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+  ) {
+    const attachments = await this.bookingAttachmentsService.getAttachments(
+      user,
+      bookingId,
+    );
+    return ResponseUtil.success(attachments);
+  }
+
+  /**
+   * GET /api/v1/bookings/:bookingId/attachments/:attachmentId
+   * Get one photo with a fresh signed download link
+   */
+  @Get(':attachmentId')
+  async getAttachment(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+    @Param('attachmentId') attachmentId: string,
+  ) {
+    const attachment = await this.bookingAttachmentsService.getAttachment(
+      user,
+      bookingId,
+      attachmentId,
+    );
+    return ResponseUtil.success(attachment);
+  }
+}
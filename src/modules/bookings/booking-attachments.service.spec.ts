@@ -0,0 +1,143 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { MockDatabase } from '../../../test/mock-database';
+import { DatabaseService } from '../../database/database.service';
+import { StorageService } from '../../storage/storage.service';
+import { IncomingFile } from '../../storage/storage-driver.interface';
+import { BookingStatus, User } from '../../types/database.types';
+import {
+  BookingAttachmentsService,
+  MAX_ATTACHMENT_BYTES,
+} from './booking-attachments.service';
+import { BookingsService } from './bookings.service';
+
+describe('BookingAttachmentsService', () => {
+  let mock: MockDatabase;
+  let service: BookingAttachmentsService;
+  const bookings = { getBookingById: jest.fn() };
+  const storage = {
+    put: jest.fn(),
+    delete: jest.fn(),
+    getSignedUrl: jest.fn(),
+  };
+  const provider = { id: 'provider-user-1' } as User;
+
+  const png = Buffer.concat([
+    Buffer.from('89504e470d0a1a0a', 'hex'),
+    Buffer.alloc(16),
+  ]);
+
+  const file = (overrides: Partial<IncomingFile> = {}): IncomingFile => ({
+    originalname: 'sink leak.png',
+    mimetype: 'image/png',
+    size: png.length,
+    buffer: png,
+    ...overrides,
+  });
+
+  const upload = (incoming: IncomingFile | undefined) =>
+    service.uploadAttachment(provider, 'booking-1', 'before', incoming);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mock = new MockDatabase();
+    bookings.getBookingById.mockResolvedValue({
+      id: 'booking-1',
+      status: BookingStatus.ACCEPTED,
+      provider_user_id: provider.id,
+    });
+    mock.when(/INSERT INTO booking_attachments/, (params) => [
+      { id: 'attachment-1', storage_key: params[3], file_name: params[4] },
+    ]);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        BookingAttachmentsService,
+        { provide: DatabaseService, useValue: mock.db },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+        { provide: StorageService, useValue: storage },
+        { provide: BookingsService, useValue: bookings },
+      ],
+    }).compile();
+
+    service = module.get(BookingAttachmentsService);
+  });
+
+  it('stores a valid photo under the booking with a safe file name', async () => {
+    const attachment = await upload(file());
+
+    expect(attachment.storage_key).toMatch(
+      /^bookings\/booking-1\/before\/[\w-]+\.png$/,
+    );
+    expect(attachment.file_name).toBe('sink_leak.png');
+    expect(storage.put).toHaveBeenCalledWith(
+      attachment.storage_key,
+      png,
+      'image/png',
+    );
+  });
+
+  it.each([
+    ['a missing file', undefined, 'file is required'],
+    [
+      'an oversized file',
+      file({ size: MAX_ATTACHMENT_BYTES + 1 }),
+      'File must be between 1 byte and 10MB',
+    ],
+    [
+      'a type that is not an image',
+      file({ mimetype: 'application/pdf', originalname: 'a.pdf' }),
+      'Only JPEG, PNG and WebP images are allowed',
+    ],
+    [
+      'an extension that does not match the type',
+      file({ originalname: 'photo.jpg' }),
+      'File extension does not match image/png',
+    ],
+    [
+      'content that does not match the type',
+      file({ buffer: Buffer.from('<svg onload="x"/>') }),
+      'File content does not match its type',
+    ],
+  ])('rejects %s', async (_case, incoming, message) => {
+    await expect(upload(incoming)).rejects.toThrow(
+      new BadRequestException(message),
+    );
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('rejects uploads once the per-kind limit is reached', async () => {
+    mock.when(/COUNT\(\*\) as count FROM booking_attachments/, [
+      { count: '10' },
+    ]);
+
+    await expect(upload(file())).rejects.toThrow(
+      'A booking can have at most 10 before photos',
+    );
+  });
+
+  it('rejects before photos once the job is completed', async () => {
+    bookings.getBookingById.mockResolvedValue({
+      id: 'booking-1',
+      status: BookingStatus.COMPLETED,
+      provider_user_id: provider.id,
+    });
+
+    await expect(upload(file())).rejects.toThrow(ConflictException);
+  });
+
+  it('removes the stored file when it cannot be recorded', async () => {
+    mock.when(/INSERT INTO booking_attachments/, () => {
+      throw new Error('connection lost');
+    });
+
+    await expect(upload(file())).rejects.toThrow('connection lost');
+    expect(storage.delete).toHaveBeenCalledWith(
+      expect.stringMatching(/^bookings\/booking-1\/before\//),
+    );
+  });
+});
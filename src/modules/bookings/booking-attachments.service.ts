@@ -0,0 +1,256 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { DatabaseService } from '../../database/database.service';
+import { StorageService } from '../../storage/storage.service';
+import { IncomingFile } from '../../storage/storage-driver.interface';
+import { BookingStatus, User } from '../../types/database.types';
+import { BookingsService } from './bookings.service';
+
+export type AttachmentKind = 'before' | 'after';
+
+export interface BookingAttachment {
+  id: string;
+  booking_id: string;
+  uploaded_by: string;
+  kind: AttachmentKind;
+  storage_key: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: Date;
+}
+
+export interface BookingAttachmentWithUrl extends BookingAttachment {
+  url: string;
+  url_expires_at: Date;
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Accepted image types and their extensions
+ */
+const ALLOWED_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+};
+
+/**
+ * Before photos at the start of a job, after photos at the end
+ */
+const UPLOAD_STATUSES: Record<AttachmentKind, BookingStatus[]> = {
+  before: [BookingStatus.ACCEPTED, BookingStatus.ONGOING],
+  after: [BookingStatus.ONGOING, BookingStatus.COMPLETED],
+};
+
+@Injectable()
+export class BookingAttachmentsService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private storageService: StorageService,
+    private bookingsService: BookingsService,
+  ) {}
+
+  /**
+   * Upload a before/after photo (assigned Provider)
+   */
+  async uploadAttachment(
+    user: User,
+    bookingId: string,
+    kind: AttachmentKind,
+    file: IncomingFile | undefined,
+  ): Promise<BookingAttachmentWithUrl> {
+    const booking = await this.bookingsService.getBookingById(bookingId);
+
+    if (booking.provider_user_id !== user.id) {
+      throw new ForbiddenException('Booking is not assigned to you');
+    }
+
+    if (!UPLOAD_STATUSES[kind].includes(booking.status)) {
+      throw new ConflictException(
+        `Cannot upload ${kind} photos while the booking is ${booking.status}`,
+      );
+    }
+
+    const extension = this.validateFile(file);
+
+    const maxPerKind = this.configService.get<number>(
+      'storage.maxAttachmentsPerKind',
+      10,
+    );
+    const existing = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM booking_attachments
+       WHERE booking_id = $1 AND kind = $2`,
+      [bookingId, kind],
+    );
+
+    if (parseInt(existing?.count || '0', 10) >= maxPerKind) {
+      throw new BadRequestException(
+        `A booking can have at most ${maxPerKind} ${kind} photos`,
+      );
+    }
+
+    const key = `bookings/${bookingId}/${kind}/${randomUUID()}${extension}`;
+    await this.storageService.put(key, file!.buffer, file!.mimetype);
+
+    let attachment: BookingAttachment | null;
+    try {
+      attachment = await this.db.queryOne<BookingAttachment>(
+        `INSERT INTO booking_attachments (
+          booking_id, uploaded_by, kind, storage_key, file_name, mime_type, size_bytes
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          bookingId,
+          user.id,
+          kind,
+          key,
+          path.basename(file!.originalname).replace(/[^\w.-]/g, '_'),
+          file!.mimetype,
+          file!.size,
+        ],
+      );
+    } catch (error) {
+      // Do not leave an orphaned file behind
+      await this.storageService.delete(key);
+      throw error;
+    }
+
+    return await this.withUrl(attachment!);
+  }
+
+  /**
+   * List photos of a booking with fresh download links
+   */
+  async getAttachments(
+    user: User,
+    bookingId: string,
+  ): Promise<BookingAttachmentWithUrl[]> {
+    await this.bookingsService.getBookingForUser(bookingId, user);
+
+    const attachments = await this.db.queryMany<BookingAttachment>(
+      `SELECT * FROM booking_attachments
+       WHERE booking_id = $1
+       ORDER BY kind DESC, created_at`,
+      [bookingId],
+    );
+
+    return await Promise.all(
+      attachments.map((attachment) => this.withUrl(attachment)),
+    );
+  }
+
+  /**
+   * Get one photo with a fresh download link
+   */
+  async getAttachment(
+    user: User,
+    bookingId: string,
+    attachmentId: string,
+  ): Promise<BookingAttachmentWithUrl> {
+    await this.bookingsService.getBookingForUser(bookingId, user);
+
+    const attachment = await this.db.queryOne<BookingAttachment>(
+      `SELECT * FROM booking_attachments WHERE id = $1 AND booking_id = $2`,
+      [attachmentId, bookingId],
+    );
+
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return await this.withUrl(attachment);
+  }
+
+  /**
+   * Check presence, size, declared type, extension and file signature
+   * Returns the extension to store the file under.
+   */
+  private validateFile(file: IncomingFile | undefined): string {
+    if (!file) {
+      throw new BadRequestException('file is required');
+    }
+
+    if (file.size === 0 || file.size > MAX_ATTACHMENT_BYTES) {
+      throw new BadRequestException(
+        `File must be between 1 byte and ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB`,
+      );
+    }
+
+    const extensions = ALLOWED_TYPES[file.mimetype];
+    if (!extensions) {
+      throw new BadRequestException(
+        'Only JPEG, PNG and WebP images are allowed',
+      );
+    }
+
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (!extensions.includes(extension)) {
+      throw new BadRequestException(
+        `File extension does not match ${file.mimetype}`,
+      );
+    }
+
+    if (this.sniffImageType(file.buffer) !== file.mimetype) {
+      throw new BadRequestException('File content does not match its type');
+    }
+
+    return extension;
+  }
+
+  /**
+   * Detect the image type from its magic bytes
+   */
+  private sniffImageType(buffer: Buffer): string | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      return buffer[2] === 0xff ? 'image/jpeg' : null;
+    }
+
+    if (
+      buffer.length >= 8 &&
+      buffer.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex'))
+    ) {
+      return 'image/png';
+    }
+
+    if (
+      buffer.length >= 12 &&
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+      return 'image/webp';
+    }
+
+    return null;
+  }
+
+  private async withUrl(
+    attachment: BookingAttachment,
+  ): Promise<BookingAttachmentWithUrl> {
+    const ttl = this.configService.get<number>(
+      'storage.signedUrlTtlSeconds',
+      300,
+    );
+    const url = await this.storageService.getSignedUrl(attachment.storage_key, {
+      expiresInSeconds: ttl,
+      downloadName: attachment.file_name,
+    });
+
+    return {
+      ...attachment,
+      url,
+      url_expires_at: new Date(Date.now() + ttl * 1000),
+    };
+  }
+}
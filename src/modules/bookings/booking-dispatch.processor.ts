@@ -0,0 +1,30 @@
+import { Process, Processor } from '@nestjs/bull';
+import type { Job } from 'bull';
+import { BookingsService } from './bookings.service';
+import {
+  BookingDispatchService,
+  BOOKING_DISPATCH_QUEUE,
+  OFFER_TIMEOUT_JOB,
+  OfferTimeoutJob,
+} from './booking-dispatch.service';
+
+@Processor(BOOKING_DISPATCH_QUEUE)
+export class BookingDispatchProcessor {
+  constructor(
+    private bookingsService: BookingsService,
+    private bookingDispatchService: BookingDispatchService,
+  ) {}
+
+  /**
+   * Offer window elapsed: cascade to the next provider
+   */
+  @Process(OFFER_TIMEOUT_JOB)
+  async handleOfferTimeout(job: Job<OfferTimeoutJob>) {
+    const { attemptId, bookingId } = job.data;
+
+    const expired = await this.bookingDispatchService.expireOffer(attemptId);
+    if (expired) {
+      await this.bookingsService.dispatchNext(bookingId);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { MockDatabase } from '../../../test/mock-database';
+import { DatabaseService } from '../../database/database.service';
+import { ProvidersService } from '../providers/providers.service';
+import {
+  BOOKING_DISPATCH_QUEUE,
+  BookingDispatchService,
+  OFFER_TIMEOUT_JOB,
+} from './booking-dispatch.service';
+
+describe('BookingDispatchService', () => {
+  let mock: MockDatabase;
+  let service: BookingDispatchService;
+  const providers = { findNearbyProviders: jest.fn() };
+  const queue = { add: jest.fn() };
+
+  const stubBooking = (attempts: Record<string, unknown>[] = []) => {
+    mock
+      .when(/FROM bookings/, [
+        { service_id: 'service-1', latitude: 12.9, longitude: 77.6 },
+      ])
+      .when(/SELECT \* FROM booking_dispatch_attempts/, attempts)
+      .when(/INSERT INTO booking_dispatch_attempts/, (params) => [
+        {
+          id: 'attempt-new',
+          booking_id: params[0],
+          provider_id: params[1],
+          attempt_number: params[2],
+          status: 'offered',
+        },
+      ]);
+    providers.findNearbyProviders.mockResolvedValue([
+      { provider_id: 'provider-1', distance_meters: 400 },
+      { provider_id: 'provider-2', distance_meters: 900 },
+    ]);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mock = new MockDatabase();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        BookingDispatchService,
+        { provide: DatabaseService, useValue: mock.db },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+        { provide: ProvidersService, useValue: providers },
+        { provide: getQueueToken(BOOKING_DISPATCH_QUEUE), useValue: queue },
+      ],
+    }).compile();
+
+    service = module.get(BookingDispatchService);
+  });
+
+  it('offers the booking to the nearest provider not yet asked', async () => {
+    stubBooking([
+      { id: 'attempt-1', provider_id: 'provider-1', status: 'declined' },
+    ]);
+
+    const attempt = await service.offerNext('booking-1');
+
+    expect(mock.queries[0].sql).toMatch(/FOR UPDATE/);
+    expect(attempt).toMatchObject({
+      provider_id: 'provider-2',
+      attempt_number: 2,
+    });
+    expect(queue.add).toHaveBeenCalledWith(
+      OFFER_TIMEOUT_JOB,
+      { attemptId: 'attempt-new', bookingId: 'booking-1' },
+      expect.objectContaining({ jobId: 'attempt-new', delay: 30000 }),
+    );
+  });
+
+  it('keeps the open offer instead of making a second one', async () => {
+    stubBooking([
+      { id: 'attempt-1', provider_id: 'provider-1', status: 'offered' },
+    ]);
+
+    const attempt = await service.offerNext('booking-1');
+
+    expect(attempt).toMatchObject({ id: 'attempt-1' });
+    expect(
+      mock.committed(/INSERT INTO booking_dispatch_attempts/),
+    ).toHaveLength(0);
+    expect(queue.add).not.toHaveBeenCalled();
+  });
+
+  it('gives up once every attempt has been used', async () => {
+    stubBooking(
+      Array.from({ length: 5 }, (_, i) => ({
+        id: `attempt-${i}`,
+        provider_id: `provider-${i}`,
+        status: 'expired',
+      })),
+    );
+
+    await expect(service.offerNext('booking-1')).resolves.toBeNull();
+    expect(providers.findNearbyProviders).not.toHaveBeenCalled();
+  });
+
+  it('does not offer a booking that is no longer pending', async () => {
+    await expect(service.offerNext('booking-1')).resolves.toBeNull();
+    expect(mock.queries).toHaveLength(1);
+  });
+
+  it('keeps the offer when its timeout cannot be scheduled', async () => {
+    stubBooking();
+    queue.add.mockRejectedValue(new Error('Connection is closed.'));
+
+    const attempt = await service.offerNext('booking-1');
+
+    expect(attempt).toMatchObject({ id: 'attempt-new' });
+    expect(
+      mock.committed(/INSERT INTO booking_dispatch_attempts/),
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,249 @@
+import { Injectable, ForbiddenException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import { ProvidersService } from '../providers/providers.service';
+import { BookingStatus } from '../../types/database.types';
+
+export const BOOKING_DISPATCH_QUEUE = 'booking-dispatch';
+export const OFFER_TIMEOUT_JOB = 'offer-timeout';
+
+export type DispatchAttemptStatus =
+  | 'offered'
+  | 'accepted'
+  | 'declined'
+  | 'expired';
+
+export interface DispatchAttempt {
+  id: string;
+  booking_id: string;
+  provider_id: string;
+  attempt_number: number;
+  status: DispatchAttemptStatus;
+  distance_meters: number;
+  offered_at: Date;
+  expires_at: Date;
+  responded_at?: Date;
+}
+
+export interface OfferTimeoutJob {
+  attemptId: string;
+  bookingId: string;
+}
+
+@Injectable()
+export class BookingDispatchService {
+  private readonly logger = new Logger(BookingDispatchService.name);
+
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private providersService: ProvidersService,
+    @InjectQueue(BOOKING_DISPATCH_QUEUE) private dispatchQueue: Queue,
+  ) {}
+
+  /**
+   * Offer a booking to the next best-ranked provider
+   * The booking is locked while the next attempt is chosen, so a decline
+   * and a timeout arriving together cannot both make an offer; an offer
+   * that is still open is returned instead of making another. Returns
+   * null when attempts are exhausted or nobody is left to ask.
+   */
+  async offerNext(bookingId: string): Promise<DispatchAttempt | null> {
+    const timeoutSeconds = this.configService.get<number>(
+      'dispatch.offerTimeoutSeconds',
+      30,
+    );
+
+    const offer = await this.db.transaction(async (client: PoolClient) => {
+      const result = await client.query<{
+        service_id: string;
+        latitude: number;
+        longitude: number;
+      }>(
+        `SELECT
+          service_id,
+          ST_Y(service_location::geometry) as latitude,
+          ST_X(service_location::geometry) as longitude
+         FROM bookings
+         WHERE id = $1 AND status = $2 AND provider_id IS NULL
+         FOR UPDATE`,
+        [bookingId, BookingStatus.PENDING],
+      );
+      const booking = result.rows[0];
+
+      if (!booking) {
+        return null;
+      }
+
+      const previous = await client.query<DispatchAttempt>(
+        `SELECT * FROM booking_dispatch_attempts WHERE booking_id = $1`,
+        [bookingId],
+      );
+      const open = previous.rows.find((row) => row.status === 'offered');
+
+      if (open) {
+        return { attempt: open, created: false };
+      }
+
+      const maxAttempts = this.configService.get<number>(
+        'dispatch.maxAttempts',
+        5,
+      );
+
+      if (previous.rows.length >= maxAttempts) {
+        return null;
+      }
+
+      const alreadyAsked = new Set(previous.rows.map((row) => row.provider_id));
+      const candidates = await this.providersService.findNearbyProviders({
+        service_id: booking.service_id,
+        latitude: booking.latitude,
+        longitude: booking.longitude,
+        radius_meters: this.configService.get<number>(
+          'dispatch.searchRadiusMeters',
+          5000,
+        ),
+        limit: maxAttempts + previous.rows.length,
+      });
+
+      const next = candidates.find(
+        (candidate) => !alreadyAsked.has(candidate.provider_id),
+      );
+
+      if (!next) {
+        return null;
+      }
+
+      const inserted = await client.query<DispatchAttempt>(
+        `INSERT INTO booking_dispatch_attempts (
+          booking_id, provider_id, attempt_number, status, distance_meters,
+          offered_at, expires_at
+         )
+         VALUES (
+          $1, $2, $3, 'offered', $4, CURRENT_TIMESTAMP,
+          CURRENT_TIMESTAMP + make_interval(secs => $5)
+         )
+         RETURNING *`,
+        [
+          bookingId,
+          next.provider_id,
+          previous.rows.length + 1,
+          next.distance_meters,
+          timeoutSeconds,
+        ],
+      );
+
+      return { attempt: inserted.rows[0], created: true };
+    });
+
+    if (!offer?.created) {
+      return offer?.attempt ?? null;
+    }
+
+    // Timer lives in Redis so it survives a process restart. The offer
+    // stands without it; the provider can still answer until it expires
+    try {
+      await this.dispatchQueue.add(
+        OFFER_TIMEOUT_JOB,
+        { attemptId: offer.attempt.id, bookingId } satisfies OfferTimeoutJob,
+        {
+          jobId: offer.attempt.id,
+          delay: timeoutSeconds * 1000,
+          removeOnComplete: true,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Could not schedule the timeout of offer ${offer.attempt.id}: ${(error as Error).message}`,
+      );
+    }
+
+    return offer.attempt;
+  }
+
+  /**
+   * Mark an open offer as expired
+   * Returns false when the provider already responded.
+   */
+  async expireOffer(attemptId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE booking_dispatch_attempts
+       SET status = 'expired', responded_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'offered'`,
+      [attemptId],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Decline the open offer for a booking (Provider)
+   */
+  async declineOffer(bookingId: string, providerId: string): Promise<void> {
+    const result = await this.db.query(
+      `UPDATE booking_dispatch_attempts
+       SET status = 'declined', responded_at = CURRENT_TIMESTAMP
+       WHERE booking_id = $1 AND provider_id = $2 AND status = 'offered'`,
+      [bookingId, providerId],
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new ForbiddenException('No open offer for this booking');
+    }
+  }
+
+  /**
+   * Claim the open offer for a booking inside the accept transaction
+   */
+  async claimOffer(
+    bookingId: string,
+    providerId: string,
+    client: PoolClient,
+  ): Promise<void> {
+    const result = await client.query(
+      `UPDATE booking_dispatch_attempts
+       SET status = 'accepted', responded_at = CURRENT_TIMESTAMP
+       WHERE booking_id = $1
+         AND provider_id = $2
+         AND status = 'offered'
+         AND expires_at > CURRENT_TIMESTAMP`,
+      [bookingId, providerId],
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new ForbiddenException('Offer has expired or was not made to you');
+    }
+  }
+
+  /**
+   * Get open offers for the current provider
+   */
+  async getOpenOffers(userId: string): Promise<any[]> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+
+    return await this.db.queryMany(
+      `SELECT
+        a.id as offer_id,
+        a.expires_at,
+        a.distance_meters,
+        b.id as booking_id,
+        b.booking_number,
+        b.estimated_price,
+        b.description,
+        s.name as service_name,
+        ST_Y(b.service_location::geometry) as latitude,
+        ST_X(b.service_location::geometry) as longitude
+       FROM booking_dispatch_attempts a
+       JOIN bookings b ON a.booking_id = b.id
+       JOIN services s ON b.service_id = s.id
+       WHERE a.provider_id = $1
+         AND a.status = 'offered'
+         AND a.expires_at > CURRENT_TIMESTAMP
+       ORDER BY a.expires_at`,
+      [provider.id],
+    );
+  }
+}
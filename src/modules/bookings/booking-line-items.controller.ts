@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { BookingLineItemsService } from './booking-line-items.service';
+import { CreateLineItemDto } from './dto/create-line-item.dto';
+import { RespondLineItemDto } from './dto/respond-line-item.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('bookings/:bookingId')
+@UseGuards(JwtAuthGuard)
+export class BookingLineItemsController {
+  constructor(private bookingLineItemsService: BookingLineItemsService) {}
+
+  /**
+   * POST /api/v1/bookings/:bookingId/line-items
+   * Propose an add-on while the job is ongoing (Provider only)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Post('line-items')
+  async proposeItem(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+    @Body() createDto: CreateLineItemDto,
+  ) {
+    const item = await this.bookingLineItemsService.proposeItem(
+      user,
+      bookingId,
+      createDto,
+    );
+    return ResponseUtil.success(item, 'Add-on sent for approval');
+  }
+
+  /**
+   * GET /api/v1/bookings/:bookingId/line-items
+   * Get add-ons of a booking
+   */
+  @Get('line-items')
+  async getItems(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+  ) {
+    const items = await this.bookingLineItemsService.getItems(user, bookingId);
+    return ResponseUtil.success(items);
+  }
+
+  /**
+   * PUT /api/v1/bookings/:bookingId/line-items/:itemId/approve
+   * Approve an add-on (Customer only)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Put('line-items/:itemId/approve')
+  async approveItem(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+    @Param('itemId') itemId: string,
+    @Body() respondDto: RespondLineItemDto,
+  ) {
+    const item = await this.bookingLineItemsService.respondToItem(
+      user,
+      bookingId,
+      itemId,
+      'approved',
+      respondDto,
+    );
+    return ResponseUtil.success(item, 'Add-on approved');
+  }
+
+  /**
+   * PUT /api/v1/bookings/:bookingId/line-items/:itemId/reject
+   * Reject an add-on (Customer only)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Put('line-items/:itemId/reject')
+  async rejectItem(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+    @Param('itemId') itemId: string,
+    @Body() respondDto: RespondLineItemDto,
+  ) {
+    const item = await this.bookingLineItemsService.respondToItem(
+      user,
+      bookingId,
+      itemId,
+      'rejected',
+      respondDto,
+    );
+    return ResponseUtil.success(item, 'Add-on rejected');
+  }
+
+  /**
+   * GET /api/v1/bookings/:bookingId/price-breakdown
+   * How the booking price was reached
+   */
+  @Get('price-breakdown')
+  async getPriceBreakdown(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+  ) {
+    const breakdown = await this.bookingLineItemsService.getPriceBreakdown(
+      user,
+      bookingId,
+    );
+    return ResponseUtil.success(breakdown);
+  }
+}
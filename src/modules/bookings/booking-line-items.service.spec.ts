@@ -0,0 +1,99 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { MockDatabase } from '../../../test/mock-database';
+import { DatabaseService } from '../../database/database.service';
+import { BookingStatus, User } from '../../types/database.types';
+import { BookingLineItemsService } from './booking-line-items.service';
+import { BookingQuote, BookingQuotesService } from './booking-quotes.service';
+import { BookingsService } from './bookings.service';
+
+describe('BookingLineItemsService', () => {
+  let mock: MockDatabase;
+  let service: BookingLineItemsService;
+  const bookings = { getBookingById: jest.fn() };
+  const quotes = { getBookingQuote: jest.fn() };
+  const customer = { id: 'customer-user-1' } as User;
+
+  const quote = {
+    taxable_amount: 1000,
+    tax_percent: 18,
+    tax_amount: 180,
+    discount_amount: 0,
+    platform_fee: 150,
+  } as BookingQuote;
+
+  // The booking as read before the transaction, and as found under the lock
+  const stubBooking = (lockedStatus: BookingStatus) => {
+    bookings.getBookingById.mockResolvedValue({
+      id: 'booking-1',
+      status: BookingStatus.ONGOING,
+      customer_user_id: customer.id,
+    });
+    quotes.getBookingQuote.mockResolvedValue(quote);
+    mock
+      .when(/FROM bookings WHERE id = \$1 FOR UPDATE/, [
+        { status: lockedStatus },
+      ])
+      .when(/UPDATE booking_line_items/, (params) => [
+        { id: 'item-1', status: params[0] },
+      ])
+      .when(/SELECT \* FROM booking_line_items/, [
+        {
+          id: 'item-1',
+          quantity: '2',
+          unit_price: '100.00',
+          material_cost: '50.00',
+          status: 'approved',
+        },
+      ]);
+  };
+
+  const respond = (status: 'approved' | 'rejected') =>
+    service.respondToItem(customer, 'booking-1', 'item-1', status, {});
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mock = new MockDatabase();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        BookingLineItemsService,
+        { provide: DatabaseService, useValue: mock.db },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+        { provide: BookingsService, useValue: bookings },
+        { provide: BookingQuotesService, useValue: quotes },
+      ],
+    }).compile();
+
+    service = module.get(BookingLineItemsService);
+  });
+
+  it('reprices the booking when an add-on is approved', async () => {
+    stubBooking(BookingStatus.ONGOING);
+
+    await respond('approved');
+
+    // Labour 200 takes 15% commission; materials 50 pass through
+    const [repriced] = mock.committed(/UPDATE bookings/);
+    expect(repriced.params).toEqual([1475, 225, 0, 180, 1070, 'booking-1']);
+  });
+
+  it('leaves the price alone when an add-on is rejected', async () => {
+    stubBooking(BookingStatus.ONGOING);
+
+    await respond('rejected');
+
+    expect(mock.committed(/UPDATE bookings/)).toHaveLength(0);
+  });
+
+  it('refuses an approval once the job has been completed', async () => {
+    stubBooking(BookingStatus.COMPLETED);
+
+    await expect(respond('approved')).rejects.toThrow(ConflictException);
+    expect(mock.committed(/UPDATE/)).toHaveLength(0);
+  });
+});
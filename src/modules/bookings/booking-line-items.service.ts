@@ -0,0 +1,325 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import { BookingStatus, User } from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { BookingsService, BookingDetails } from './bookings.service';
+import { BookingQuote, BookingQuotesService } from './booking-quotes.service';
+import { commissionFor } from '../commissions/commission';
+import { CreateLineItemDto } from './dto/create-line-item.dto';
+import { RespondLineItemDto } from './dto/respond-line-item.dto';
+
+export type LineItemStatus = 'proposed' | 'approved' | 'rejected';
+
+export interface BookingLineItem {
+  id: string;
+  booking_id: string;
+  proposed_by: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  material_cost: number;
+  amount: number;
+  status: LineItemStatus;
+  responded_by?: string;
+  responded_at?: Date;
+  response_reason?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PriceTotals {
+  final_price: number;
+  tax_amount: number;
+  discount_amount: number;
+  platform_fee: number;
+  provider_earnings: number;
+}
+
+export interface BookingPriceBreakdown {
+  booking_id: string;
+  quote: BookingQuote;
+  line_items: BookingLineItem[];
+  add_ons: {
+    labour: number;
+    materials: number;
+    tax_amount: number;
+    platform_fee: number;
+  };
+  totals: PriceTotals;
+}
+
+@Injectable()
+export class BookingLineItemsService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private bookingsService: BookingsService,
+    private bookingQuotesService: BookingQuotesService,
+  ) {}
+
+  /**
+   * Propose extra work found on site (assigned Provider, ongoing only)
+   */
+  async proposeItem(
+    user: User,
+    bookingId: string,
+    createDto: CreateLineItemDto,
+  ): Promise<BookingLineItem> {
+    const booking = await this.bookingsService.getBookingById(bookingId);
+
+    if (booking.provider_user_id !== user.id) {
+      throw new ForbiddenException('Booking is not assigned to you');
+    }
+
+    this.assertOngoing(booking);
+
+    const materialCost = createDto.material_cost ?? 0;
+    const amount = MoneyUtil.round(
+      createDto.quantity * createDto.unit_price + materialCost,
+    );
+
+    const item = await this.db.queryOne<BookingLineItem>(
+      `INSERT INTO booking_line_items (
+        booking_id, proposed_by, description, quantity, unit_price,
+        material_cost, amount, status
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'proposed')
+       RETURNING *`,
+      [
+        bookingId,
+        user.id,
+        createDto.description,
+        createDto.quantity,
+        createDto.unit_price,
+        materialCost,
+        amount,
+      ],
+    );
+
+    return item!;
+  }
+
+  /**
+   * Get add-ons of a booking
+   */
+  async getItems(user: User, bookingId: string): Promise<BookingLineItem[]> {
+    await this.bookingsService.getBookingForUser(bookingId, user);
+    return await this.queryItems(bookingId);
+  }
+
+  /**
+   * Approve or reject a proposed add-on (Customer only)
+   * Approval reprices the booking in the same transaction.
+   */
+  async respondToItem(
+    user: User,
+    bookingId: string,
+    itemId: string,
+    status: 'approved' | 'rejected',
+    respondDto: RespondLineItemDto,
+  ): Promise<BookingLineItem> {
+    const booking = await this.bookingsService.getBookingById(bookingId);
+
+    if (booking.customer_user_id !== user.id) {
+      throw new ForbiddenException('Only the customer can respond to add-ons');
+    }
+
+    this.assertOngoing(booking);
+
+    return await this.db.transaction(async (client: PoolClient) => {
+      // The job may have been completed since it was read above
+      await this.lockOngoingBooking(bookingId, client);
+
+      const result = await client.query<BookingLineItem>(
+        `UPDATE booking_line_items
+         SET status = $1, responded_by = $2, response_reason = $3,
+             responded_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $4 AND booking_id = $5 AND status = 'proposed'
+         RETURNING *`,
+        [status, user.id, respondDto.reason, itemId, bookingId],
+      );
+
+      if (!result.rows[0]) {
+        const exists = await client.query(
+          `SELECT 1 FROM booking_line_items WHERE id = $1 AND booking_id = $2`,
+          [itemId, bookingId],
+        );
+        if ((exists.rowCount ?? 0) === 0) {
+          throw new NotFoundException('Add-on not found');
+        }
+        throw new ConflictException('Add-on has already been answered');
+      }
+
+      if (status === 'approved') {
+        await this.repriceBooking(bookingId, client);
+      }
+
+      return result.rows[0];
+    });
+  }
+
+  /**
+   * How the booking price was reached: the quote plus approved add-ons
+   */
+  async getPriceBreakdown(
+    user: User,
+    bookingId: string,
+  ): Promise<BookingPriceBreakdown> {
+    await this.bookingsService.getBookingForUser(bookingId, user);
+
+    const quote = await this.bookingQuotesService.getBookingQuote(bookingId);
+    const items = await this.queryItems(bookingId);
+    const approved = items.filter((item) => item.status === 'approved');
+
+    return {
+      booking_id: bookingId,
+      quote,
+      line_items: items,
+      ...this.computeTotals(quote, approved),
+    };
+  }
+
+  /**
+   * Recompute final_price, platform_fee and provider_earnings from the
+   * booking's quote and its approved add-ons
+   * Materials are passed through to the provider without commission.
+   */
+  async repriceBooking(
+    bookingId: string,
+    client: PoolClient,
+  ): Promise<PriceTotals> {
+    await this.lockOngoingBooking(bookingId, client);
+
+    const quote = await this.bookingQuotesService.getBookingQuote(
+      bookingId,
+      client,
+    );
+    const approved = (await this.queryItems(bookingId, client)).filter(
+      (item) => item.status === 'approved',
+    );
+    const { totals } = this.computeTotals(quote, approved);
+
+    await client.query(
+      `UPDATE bookings
+       SET final_price = $1, tax_amount = $2, discount_amount = $3,
+           platform_fee = $4, provider_earnings = $5,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6`,
+      [
+        totals.final_price,
+        totals.tax_amount,
+        totals.discount_amount,
+        totals.platform_fee,
+        totals.provider_earnings,
+        bookingId,
+      ],
+    );
+
+    return totals;
+  }
+
+  private computeTotals(
+    quote: BookingQuote,
+    approved: BookingLineItem[],
+  ): Pick<BookingPriceBreakdown, 'add_ons' | 'totals'> {
+    const labour = MoneyUtil.round(
+      approved.reduce(
+        (sum, item) =>
+          sum +
+          MoneyUtil.toNumber(item.quantity) *
+            MoneyUtil.toNumber(item.unit_price),
+        0,
+      ),
+    );
+    const materials = MoneyUtil.round(
+      approved.reduce(
+        (sum, item) => sum + MoneyUtil.toNumber(item.material_cost),
+        0,
+      ),
+    );
+    const addOnTax = MoneyUtil.percentage(
+      labour + materials,
+      quote.tax_percent,
+    );
+    // Labour is charged under the quote's terms, so flat and capped fees
+    // are not applied a second time
+    const addOnFee = quote.commission_terms
+      ? Math.max(
+          MoneyUtil.round(
+            commissionFor(
+              quote.taxable_amount + labour,
+              quote.commission_terms,
+            ) - quote.platform_fee,
+          ),
+          0,
+        )
+      : MoneyUtil.percentage(
+          labour,
+          this.configService.get<number>('pricing.commissionPercent', 15),
+        );
+
+    const taxable = MoneyUtil.round(quote.taxable_amount + labour + materials);
+    const taxAmount = MoneyUtil.round(quote.tax_amount + addOnTax);
+    const platformFee = MoneyUtil.round(quote.platform_fee + addOnFee);
+
+    return {
+      add_ons: {
+        labour,
+        materials,
+        tax_amount: addOnTax,
+        platform_fee: addOnFee,
+      },
+      totals: {
+        final_price: MoneyUtil.round(taxable + taxAmount),
+        tax_amount: taxAmount,
+        discount_amount: quote.discount_amount,
+        platform_fee: platformFee,
+        provider_earnings: MoneyUtil.round(taxable - platformFee),
+      },
+    };
+  }
+
+  private async queryItems(
+    bookingId: string,
+    client?: PoolClient,
+  ): Promise<BookingLineItem[]> {
+    const query = `SELECT * FROM booking_line_items
+       WHERE booking_id = $1
+       ORDER BY created_at`;
+
+    return client
+      ? (await client.query<BookingLineItem>(query, [bookingId])).rows
+      : await this.db.queryMany<BookingLineItem>(query, [bookingId]);
+  }
+
+  private async lockOngoingBooking(
+    bookingId: string,
+    client: PoolClient,
+  ): Promise<void> {
+    const result = await client.query<{ status: BookingStatus }>(
+      `SELECT status FROM bookings WHERE id = $1 FOR UPDATE`,
+      [bookingId],
+    );
+
+    if (!result.rows[0]) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    this.assertOngoing(result.rows[0]);
+  }
+
+  private assertOngoing(booking: Pick<BookingDetails, 'status'>): void {
+    if (booking.status !== BookingStatus.ONGOING) {
+      throw new ConflictException(
+        `Add-ons can only be changed while the job is ongoing (booking is ${booking.status})`,
+      );
+    }
+  }
+}
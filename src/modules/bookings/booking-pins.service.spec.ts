@@ -0,0 +1,75 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, HttpStatus } from '@nestjs/common';
+import { MockDatabase } from '../../../test/mock-database';
+import { DatabaseService } from '../../database/database.service';
+import { BookingPinsService } from './booking-pins.service';
+
+describe('BookingPinsService', () => {
+  let mock: MockDatabase;
+  let service: BookingPinsService;
+
+  const stubPins = (wrongAttempts: number) => {
+    mock
+      .when(/FROM booking_pins WHERE booking_id = \$1 FOR UPDATE/, [
+        { booking_id: 'booking-1', start_pin: '4821', end_pin: '0937' },
+      ])
+      .when(/COUNT\(\*\) as count FROM booking_pin_attempts/, [
+        { count: String(wrongAttempts) },
+      ]);
+  };
+
+  const verify = (pin: string) =>
+    service.verifyPin('booking-1', 'provider-1', 'start', pin);
+
+  beforeEach(async () => {
+    mock = new MockDatabase();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        BookingPinsService,
+        { provide: DatabaseService, useValue: mock.db },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BookingPinsService);
+  });
+
+  it('marks the PIN verified when it matches', async () => {
+    stubPins(0);
+
+    await verify('4821');
+
+    expect(mock.committed(/start_verified_at/)).toHaveLength(1);
+  });
+
+  it('keeps a wrong attempt counted after refusing it', async () => {
+    stubPins(2);
+
+    await expect(verify('0000')).rejects.toThrow(BadRequestException);
+
+    const [attempt] = mock.committed(/INSERT INTO booking_pin_attempts/);
+    expect(attempt.params).toEqual(['booking-1', 'provider-1', 'start', false]);
+    expect(mock.committed(/start_verified_at/)).toHaveLength(0);
+  });
+
+  it('locks the booking out after too many wrong attempts', async () => {
+    stubPins(5);
+
+    await expect(verify('4821')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(mock.queries[0].sql).toMatch(/FOR UPDATE/);
+    expect(mock.committed(/INSERT INTO booking_pin_attempts/)).toHaveLength(0);
+  });
+
+  it('refuses a PIN of the wrong length', async () => {
+    stubPins(0);
+
+    await expect(verify('48210')).rejects.toThrow('Incorrect PIN');
+  });
+});
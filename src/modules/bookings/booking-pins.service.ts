@@ -0,0 +1,172 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { randomInt, timingSafeEqual } from 'crypto';
+import { subMinutes } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+
+export type PinKind = 'start' | 'end';
+
+export interface BookingPins {
+  booking_id: string;
+  start_pin: string;
+  end_pin: string;
+  start_verified_at?: Date;
+  end_verified_at?: Date;
+  created_at: Date;
+}
+
+@Injectable()
+export class BookingPinsService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Issue start and end PINs when a provider accepts
+   * Kept out of the bookings row so provider-facing responses never carry them.
+   */
+  async issuePins(bookingId: string, client: PoolClient): Promise<void> {
+    await client.query(
+      `INSERT INTO booking_pins (booking_id, start_pin, end_pin)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (booking_id) DO NOTHING`,
+      [bookingId, this.generatePin(), this.generatePin()],
+    );
+  }
+
+  /**
+   * PINs of a booking (shown to the customer only)
+   */
+  async getPins(bookingId: string): Promise<BookingPins> {
+    const pins = await this.db.queryOne<BookingPins>(
+      `SELECT * FROM booking_pins WHERE booking_id = $1`,
+      [bookingId],
+    );
+
+    if (!pins) {
+      throw new NotFoundException('PINs are issued once a provider accepts');
+    }
+
+    return pins;
+  }
+
+  /**
+   * Check a PIN submitted by the provider
+   * Every attempt is logged; too many wrong ones lock the booking for a while.
+   */
+  async verifyPin(
+    bookingId: string,
+    providerId: string,
+    kind: PinKind,
+    pin: string,
+  ): Promise<void> {
+    const maxAttempts = this.configService.get<number>(
+      'pins.maxWrongAttempts',
+      5,
+    );
+    const windowMinutes = this.configService.get<number>(
+      'pins.lockoutMinutes',
+      15,
+    );
+
+    // The pins row is locked so parallel guesses are counted one at a time
+    const success = await this.db.transaction(async (client: PoolClient) => {
+      const locked = await client.query<BookingPins>(
+        `SELECT * FROM booking_pins WHERE booking_id = $1 FOR UPDATE`,
+        [bookingId],
+      );
+      const pins = locked.rows[0];
+
+      if (!pins) {
+        throw new NotFoundException('PINs are issued once a provider accepts');
+      }
+
+      const recent = await client.query<{ count: string }>(
+        `SELECT COUNT(*) as count FROM booking_pin_attempts
+         WHERE booking_id = $1 AND kind = $2 AND success = false
+           AND created_at > $3`,
+        [bookingId, kind, subMinutes(new Date(), windowMinutes)],
+      );
+
+      if (parseInt(recent.rows[0]?.count || '0', 10) >= maxAttempts) {
+        throw new HttpException(
+          `Too many wrong PIN attempts, try again in ${windowMinutes} minutes`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+
+      const expected = kind === 'start' ? pins.start_pin : pins.end_pin;
+      const matches =
+        pin.length === expected.length &&
+        timingSafeEqual(Buffer.from(pin), Buffer.from(expected));
+
+      await client.query(
+        `INSERT INTO booking_pin_attempts (booking_id, provider_id, kind, success)
+         VALUES ($1, $2, $3, $4)`,
+        [bookingId, providerId, kind, matches],
+      );
+
+      if (matches) {
+        await client.query(
+          `UPDATE booking_pins
+           SET ${kind === 'start' ? 'start_verified_at' : 'end_verified_at'} = CURRENT_TIMESTAMP
+           WHERE booking_id = $1`,
+          [bookingId],
+        );
+      }
+
+      return matches;
+    });
+
+    // Thrown after commit so the failed attempt stays counted
+    if (!success) {
+      throw new BadRequestException('Incorrect PIN');
+    }
+  }
+
+  /**
+   * Reject a start when the provider's last location is far from the job
+   */
+  async assertProviderOnSite(
+    bookingId: string,
+    providerId: string,
+  ): Promise<void> {
+    const maxDistance = this.configService.get<number>(
+      'pins.maxStartDistanceMeters',
+      500,
+    );
+
+    const result = await this.db.queryOne<{ distance: number | null }>(
+      `SELECT ST_Distance(p.current_location::geography, b.service_location::geography) as distance
+       FROM bookings b
+       JOIN providers p ON p.id = $2
+       WHERE b.id = $1`,
+      [bookingId, providerId],
+    );
+
+    if (result?.distance == null) {
+      throw new BadRequestException(
+        'Update your location before starting the job',
+      );
+    }
+
+    if (result.distance > maxDistance) {
+      throw new ForbiddenException(
+        `You must be within ${maxDistance}m of the service location to start`,
+      );
+    }
+  }
+
+  private generatePin(): string {
+    return randomInt(0, 10000).toString().padStart(4, '0');
+  }
+}
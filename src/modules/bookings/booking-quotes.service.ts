@@ -0,0 +1,608 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { addMinutes } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import { CommissionTerms } from '../../types/database.types';
+import { GeoUtil } from '../../utils/geo.util';
+import { MoneyUtil } from '../../utils/money.util';
+import { SurgeService } from '../surge/surge.service';
+import { CommissionsService } from '../commissions/commissions.service';
+import { commissionFor } from '../commissions/commission';
+import { DiscountsService } from '../discounts/discounts.service';
+import { LoyaltyService } from '../loyalty/loyalty.service';
+
+export interface QuoteInput {
+  service_id: string;
+  provider_id?: string | null;
+  latitude: number;
+  longitude: number;
+  // City-scoped commission rules match on the address's city
+  address_id?: string;
+  // Recurring occurrences are priced ahead of time, without live demand
+  apply_surge?: boolean;
+}
+
+/**
+ * Itemised price of a job
+ * total is what the customer pays; platform_fee and provider_earnings
+ * split the pre-tax amount.
+ */
+export interface PriceBreakdown {
+  base_price: number;
+  provider_premium: number;
+  surge_multiplier: number;
+  surge_amount: number;
+  surge_cell?: string;
+  distance_meters?: number;
+  travel_surcharge: number;
+  subtotal: number;
+  discount_amount: number;
+  taxable_amount: number;
+  tax_percent: number;
+  tax_amount: number;
+  total: number;
+  platform_fee: number;
+  provider_earnings: number;
+  commission_rule_id?: string;
+  // Unset on quotes priced before commission rules existed
+  commission_terms?: CommissionTerms;
+}
+
+export interface BookingQuote extends PriceBreakdown {
+  id: string;
+  customer_id: string;
+  service_id: string;
+  provider_id?: string;
+  latitude: number;
+  longitude: number;
+  // Redeemed when the quote is booked
+  discount_code_id?: string;
+  // Loyalty points spent when the quote is booked, and their value
+  points_redeemed: number;
+  points_discount: number;
+  expires_at: Date;
+  booking_id?: string;
+  used_at?: Date;
+  created_at: Date;
+}
+
+interface ProviderOffering {
+  custom_price?: string;
+  hourly_rate?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+const NUMERIC_FIELDS: Exclude<
+  keyof PriceBreakdown,
+  'surge_cell' | 'commission_rule_id' | 'commission_terms'
+>[] = [
+  'base_price',
+  'provider_premium',
+  'surge_multiplier',
+  'surge_amount',
+  'distance_meters',
+  'travel_surcharge',
+  'subtotal',
+  'discount_amount',
+  'taxable_amount',
+  'tax_percent',
+  'tax_amount',
+  'total',
+  'platform_fee',
+  'provider_earnings',
+];
+
+@Injectable()
+export class BookingQuotesService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private surgeService: SurgeService,
+    private commissionsService: CommissionsService,
+    private discountsService: DiscountsService,
+    private loyaltyService: LoyaltyService,
+  ) {}
+
+  /**
+   * Price a job without saving it
+   */
+  async calculate(input: QuoteInput): Promise<PriceBreakdown> {
+    const service = await this.db.queryOne<{
+      base_price: string;
+      category_id: string;
+      estimated_duration_minutes?: number;
+    }>(
+      `SELECT base_price, category_id, estimated_duration_minutes
+       FROM services
+       WHERE id = $1 AND is_active = true`,
+      [input.service_id],
+    );
+
+    if (!service) {
+      throw new NotFoundException('Service not found');
+    }
+
+    const basePrice = MoneyUtil.toNumber(service.base_price);
+    let providerPrice = basePrice;
+    let distanceMeters: number | undefined;
+    let travelSurcharge = 0;
+
+    if (input.provider_id) {
+      const offering = await this.getOffering(
+        input.provider_id,
+        input.service_id,
+      );
+
+      // Custom price wins; otherwise hourly rate for the expected duration
+      if (offering.custom_price != null) {
+        providerPrice = MoneyUtil.toNumber(offering.custom_price);
+      } else if (
+        offering.hourly_rate != null &&
+        service.estimated_duration_minutes
+      ) {
+        providerPrice =
+          (MoneyUtil.toNumber(offering.hourly_rate) *
+            service.estimated_duration_minutes) /
+          60;
+      }
+
+      if (offering.latitude != null && offering.longitude != null) {
+        distanceMeters = Math.round(
+          GeoUtil.calculateDistance(
+            offering.latitude,
+            offering.longitude,
+            input.latitude,
+            input.longitude,
+          ),
+        );
+        travelSurcharge = this.travelSurcharge(distanceMeters);
+      }
+    }
+
+    const providerPremium = MoneyUtil.round(providerPrice - basePrice);
+
+    // Surge scales the service price, not the travel charge
+    const surge =
+      input.apply_surge === false
+        ? undefined
+        : await this.surgeService.getMultiplier(
+            input.latitude,
+            input.longitude,
+            service.category_id,
+          );
+    const surgeMultiplier = surge?.multiplier ?? 1;
+    const surgeAmount = MoneyUtil.round(providerPrice * (surgeMultiplier - 1));
+
+    const subtotal = MoneyUtil.round(
+      basePrice + providerPremium + surgeAmount + travelSurcharge,
+    );
+    const discountAmount = 0;
+    const taxableAmount = MoneyUtil.round(subtotal - discountAmount);
+    const taxPercent = this.configService.get<number>('pricing.taxPercent', 18);
+    const taxAmount = MoneyUtil.percentage(taxableAmount, taxPercent);
+    const commission = await this.commissionsService.resolve({
+      service_id: input.service_id,
+      city: await this.getCity(input.address_id),
+      provider_id: input.provider_id,
+    });
+    const platformFee = commissionFor(taxableAmount, commission.terms);
+
+    return {
+      base_price: basePrice,
+      provider_premium: providerPremium,
+      surge_multiplier: surgeMultiplier,
+      surge_amount: surgeAmount,
+      surge_cell: surge?.geohash,
+      distance_meters: distanceMeters,
+      travel_surcharge: travelSurcharge,
+      subtotal,
+      discount_amount: discountAmount,
+      taxable_amount: taxableAmount,
+      tax_percent: taxPercent,
+      tax_amount: taxAmount,
+      total: MoneyUtil.round(taxableAmount + taxAmount),
+      platform_fee: platformFee,
+      provider_earnings: MoneyUtil.round(taxableAmount - platformFee),
+      commission_rule_id: commission.rule_id,
+      commission_terms: commission.terms,
+    };
+  }
+
+  /**
+   * Price a job and hold the price for a few minutes
+   */
+  async createQuote(
+    customerId: string,
+    input: QuoteInput,
+    client?: PoolClient,
+  ): Promise<BookingQuote> {
+    const breakdown = await this.calculate(input);
+    return await this.saveQuote(customerId, input, breakdown, client);
+  }
+
+  /**
+   * Store an already calculated price as a quote
+   */
+  async saveQuote(
+    customerId: string,
+    input: QuoteInput,
+    breakdown: PriceBreakdown,
+    client?: PoolClient,
+  ): Promise<BookingQuote> {
+    const expiresAt = addMinutes(
+      new Date(),
+      this.configService.get<number>('pricing.quoteValidityMinutes', 10),
+    );
+
+    const query = `INSERT INTO booking_quotes (
+        customer_id, service_id, provider_id, latitude, longitude,
+        base_price, provider_premium, surge_multiplier, surge_amount,
+        surge_cell, distance_meters, travel_surcharge, subtotal,
+        discount_amount, taxable_amount, tax_percent, tax_amount, total,
+        platform_fee, provider_earnings, commission_rule_id,
+        commission_terms, expires_at
+       )
+       VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+        $16, $17, $18, $19, $20, $21, $22, $23
+       )
+       RETURNING *`;
+    const values = [
+      customerId,
+      input.service_id,
+      input.provider_id,
+      input.latitude,
+      input.longitude,
+      breakdown.base_price,
+      breakdown.provider_premium,
+      breakdown.surge_multiplier,
+      breakdown.surge_amount,
+      breakdown.surge_cell,
+      breakdown.distance_meters,
+      breakdown.travel_surcharge,
+      breakdown.subtotal,
+      breakdown.discount_amount,
+      breakdown.taxable_amount,
+      breakdown.tax_percent,
+      breakdown.tax_amount,
+      breakdown.total,
+      breakdown.platform_fee,
+      breakdown.provider_earnings,
+      breakdown.commission_rule_id,
+      breakdown.commission_terms,
+      expiresAt,
+    ];
+
+    const quote = client
+      ? (await client.query<BookingQuote>(query, values)).rows[0]
+      : await this.db.queryOne<BookingQuote>(query, values);
+
+    return this.toQuote(quote!);
+  }
+
+  /**
+   * Lock an unused, unexpired quote of the customer for booking
+   */
+  async lockQuote(
+    quoteId: string,
+    customerId: string,
+    client: PoolClient,
+  ): Promise<BookingQuote> {
+    const result = await client.query<BookingQuote>(
+      `SELECT * FROM booking_quotes
+       WHERE id = $1 AND customer_id = $2
+       FOR UPDATE`,
+      [quoteId, customerId],
+    );
+    const quote = result.rows[0];
+
+    if (!quote) {
+      throw new NotFoundException('Quote not found');
+    }
+
+    if (quote.used_at) {
+      throw new ConflictException('Quote has already been used');
+    }
+
+    if (new Date(quote.expires_at) <= new Date()) {
+      throw new BadRequestException('Quote has expired, request a new one');
+    }
+
+    return this.toQuote(quote);
+  }
+
+  /**
+   * Apply a discount code to an open quote (Customer)
+   * A new code replaces the previous one; points already redeemed on the
+   * quote are kept.
+   */
+  async applyDiscount(
+    quoteId: string,
+    customerId: string,
+    code: string,
+  ): Promise<BookingQuote> {
+    return await this.db.transaction(async (client: PoolClient) => {
+      const quote = await this.lockQuote(quoteId, customerId, client);
+      const { discount_code, discount_amount } =
+        await this.discountsService.checkCode(code, {
+          customer_id: customerId,
+          service_id: quote.service_id,
+          amount: quote.subtotal,
+        });
+
+      return await this.applyDiscounts(
+        quote,
+        {
+          discount_code_id: discount_code.id,
+          code_discount: Math.min(
+            discount_amount,
+            quote.subtotal - quote.points_discount,
+          ),
+          points_redeemed: quote.points_redeemed,
+          points_discount: quote.points_discount,
+        },
+        client,
+      );
+    });
+  }
+
+  /**
+   * Pay part of an open quote with loyalty points (Customer)
+   * The points are spent when the quote is booked; zero removes them.
+   */
+  async redeemPoints(
+    quoteId: string,
+    customerId: string,
+    userId: string,
+    points: number,
+  ): Promise<BookingQuote> {
+    return await this.db.transaction(async (client: PoolClient) => {
+      const quote = await this.lockQuote(quoteId, customerId, client);
+      const codeDiscount = MoneyUtil.round(
+        quote.discount_amount - quote.points_discount,
+      );
+      const pointsDiscount =
+        points > 0
+          ? await this.loyaltyService.quoteRedemption(
+              userId,
+              points,
+              MoneyUtil.round(quote.subtotal - codeDiscount),
+            )
+          : 0;
+
+      return await this.applyDiscounts(
+        quote,
+        {
+          discount_code_id: quote.discount_code_id,
+          code_discount: codeDiscount,
+          points_redeemed: points,
+          points_discount: pointsDiscount,
+        },
+        client,
+      );
+    });
+  }
+
+  /**
+   * The quote a booking was priced from
+   */
+  async getBookingQuote(
+    bookingId: string,
+    client?: PoolClient,
+  ): Promise<BookingQuote> {
+    const query = `SELECT q.*
+       FROM bookings b
+       JOIN booking_quotes q ON b.quote_id = q.id
+       WHERE b.id = $1`;
+    const quote = client
+      ? (await client.query<BookingQuote>(query, [bookingId])).rows[0]
+      : await this.db.queryOne<BookingQuote>(query, [bookingId]);
+
+    if (!quote) {
+      throw new NotFoundException('Booking has no price quote');
+    }
+
+    return this.toQuote(quote);
+  }
+
+  /**
+   * Tie a quote to the booking created from it
+   */
+  async markUsed(
+    quoteId: string,
+    bookingId: string,
+    client: PoolClient,
+  ): Promise<void> {
+    await client.query(
+      `UPDATE booking_quotes
+       SET booking_id = $1, used_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [bookingId, quoteId],
+    );
+  }
+
+  /**
+   * Re-price the commission of a dispatched booking for the provider
+   * who accepted it
+   * Instant bookings are quoted before a provider is known, so
+   * tier-scoped rules can only apply once one accepts.
+   */
+  async applyProviderCommission(
+    bookingId: string,
+    providerId: string,
+    client: PoolClient,
+  ): Promise<void> {
+    const quote = await this.getBookingQuote(bookingId, client);
+    const booking = await client.query<{ address_id?: string }>(
+      `SELECT address_id FROM bookings WHERE id = $1`,
+      [bookingId],
+    );
+
+    const commission = await this.commissionsService.resolve(
+      {
+        service_id: quote.service_id,
+        city: await this.getCity(booking.rows[0]?.address_id),
+        provider_id: providerId,
+      },
+      new Date(quote.created_at),
+    );
+    const platformFee = commissionFor(quote.taxable_amount, commission.terms);
+    const values = [
+      platformFee,
+      MoneyUtil.round(quote.taxable_amount - platformFee),
+      commission.rule_id,
+      commission.terms,
+    ];
+
+    await client.query(
+      `UPDATE booking_quotes
+       SET platform_fee = $1, provider_earnings = $2,
+           commission_rule_id = $3, commission_terms = $4
+       WHERE id = $5`,
+      [...values, quote.id],
+    );
+    await client.query(
+      `UPDATE bookings
+       SET platform_fee = $1, provider_earnings = $2,
+           commission_rule_id = $3, commission_terms = $4,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5`,
+      [...values, bookingId],
+    );
+  }
+
+  /**
+   * City of a saved address, for city-scoped commission rules
+   */
+  private async getCity(addressId?: string): Promise<string | undefined> {
+    if (!addressId) {
+      return undefined;
+    }
+
+    const address = await this.db.queryOne<{ city: string }>(
+      `SELECT city FROM addresses WHERE id = $1`,
+      [addressId],
+    );
+
+    return address?.city;
+  }
+
+  /**
+   * Re-price a quote after its discounts change
+   * Discounts come off the subtotal, so tax and commission are charged on
+   * what the customer actually pays.
+   */
+  private async applyDiscounts(
+    quote: BookingQuote,
+    discounts: {
+      discount_code_id?: string;
+      code_discount: number;
+      points_redeemed: number;
+      points_discount: number;
+    },
+    client: PoolClient,
+  ): Promise<BookingQuote> {
+    const discountAmount = MoneyUtil.round(
+      discounts.code_discount + discounts.points_discount,
+    );
+    const taxableAmount = MoneyUtil.round(quote.subtotal - discountAmount);
+    const taxAmount = MoneyUtil.percentage(taxableAmount, quote.tax_percent);
+    const platformFee = commissionFor(taxableAmount, quote.commission_terms!);
+
+    const result = await client.query<BookingQuote>(
+      `UPDATE booking_quotes
+       SET discount_code_id = $1, points_redeemed = $2, points_discount = $3,
+           discount_amount = $4, taxable_amount = $5, tax_amount = $6,
+           total = $7, platform_fee = $8, provider_earnings = $9
+       WHERE id = $10
+       RETURNING *`,
+      [
+        discounts.discount_code_id,
+        discounts.points_redeemed,
+        discounts.points_discount,
+        discountAmount,
+        taxableAmount,
+        taxAmount,
+        MoneyUtil.round(taxableAmount + taxAmount),
+        platformFee,
+        MoneyUtil.round(taxableAmount - platformFee),
+        quote.id,
+      ],
+    );
+
+    return this.toQuote(result.rows[0]);
+  }
+
+  /**
+   * Provider's price inputs and last known location
+   */
+  private async getOffering(
+    providerId: string,
+    serviceId: string,
+  ): Promise<ProviderOffering> {
+    const offering = await this.db.queryOne<ProviderOffering>(
+      `SELECT
+        ps.custom_price,
+        p.hourly_rate,
+        ST_Y(p.current_location::geometry) as latitude,
+        ST_X(p.current_location::geometry) as longitude
+       FROM provider_services ps
+       JOIN providers p ON ps.provider_id = p.id
+       WHERE ps.provider_id = $1
+         AND ps.service_id = $2
+         AND ps.is_active = true
+         AND p.is_verified = true`,
+      [providerId, serviceId],
+    );
+
+    if (!offering) {
+      throw new BadRequestException('Provider does not offer this service');
+    }
+
+    return offering;
+  }
+
+  /**
+   * Per-km charge beyond the free radius, capped
+   */
+  private travelSurcharge(distanceMeters: number): number {
+    const freeKm = this.configService.get<number>('pricing.freeTravelKm', 3);
+    const ratePerKm = this.configService.get<number>(
+      'pricing.travelRatePerKm',
+      10,
+    );
+    const cap = this.configService.get<number>(
+      'pricing.maxTravelSurcharge',
+      200,
+    );
+
+    const chargeableKm = Math.max(distanceMeters / 1000 - freeKm, 0);
+    return MoneyUtil.round(Math.min(chargeableKm * ratePerKm, cap));
+  }
+
+  /**
+   * NUMERIC columns come back from pg as strings
+   */
+  private toQuote(row: BookingQuote): BookingQuote {
+    const quote = { ...row };
+
+    NUMERIC_FIELDS.forEach((field) => {
+      if (quote[field] != null) {
+        quote[field] = MoneyUtil.toNumber(quote[field]);
+      }
+    });
+
+    quote.latitude = MoneyUtil.toNumber(quote.latitude);
+    quote.longitude = MoneyUtil.toNumber(quote.longitude);
+    quote.points_discount = MoneyUtil.toNumber(quote.points_discount);
+
+    return quote;
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { BookingSeriesService } from './booking-series.service';
+import { CreateBookingSeriesDto } from './dto/create-booking-series.dto';
+import { UpdateBookingSeriesDto } from './dto/update-booking-series.dto';
+import { SkipOccurrenceDto } from './dto/skip-occurrence.dto';
+import { ReassignOccurrenceDto } from './dto/reassign-occurrence.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('bookings/series')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class BookingSeriesController {
+  constructor(private bookingSeriesService: BookingSeriesService) {}
+
+  /**
+   * POST /api/v1/bookings/series
+   * Create a recurring booking series (Customer only)
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post()
+  async createSeries(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreateBookingSeriesDto,
+  ) {
+    const series = await this.bookingSeriesService.createSeries(
+      user.id,
+      createDto,
+    );
+    return ResponseUtil.success(series, 'Booking series created');
+  }
+
+  /**
+   * GET /api/v1/bookings/series/me
+   * Get my booking series
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Get('me')
+  async getMySeries(@CurrentUser() user: databaseTypes.User) {
+    const series = await this.bookingSeriesService.getMySeries(user.id);
+    return ResponseUtil.success(series);
+  }
+
+  /**
+   * GET /api/v1/bookings/series/reassignments
+   * Occurrences waiting for a new provider (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get('reassignments')
+  async getReassignments() {
+    const bookings =
+      await this.bookingSeriesService.getOccurrencesNeedingReassignment();
+    return ResponseUtil.success(bookings);
+  }
+
+  /**
+   * GET /api/v1/bookings/series/:id
+   * Get a series with its upcoming occurrences
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.ADMIN)
+  @Get(':id')
+  async getSeries(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const series = await this.bookingSeriesService.getSeriesForUser(user, id);
+    return ResponseUtil.success(series);
+  }
+
+  /**
+   * PUT /api/v1/bookings/series/:id
+   * Change the series from now on
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.ADMIN)
+  @Put(':id')
+  async updateSeries(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateBookingSeriesDto,
+  ) {
+    const series = await this.bookingSeriesService.updateSeries(
+      user,
+      id,
+      updateDto,
+    );
+    return ResponseUtil.success(series, 'Booking series updated');
+  }
+
+  /**
+   * PUT /api/v1/bookings/series/:id/pause
+   * Pause the series
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.ADMIN)
+  @Put(':id/pause')
+  async pauseSeries(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const series = await this.bookingSeriesService.pauseSeries(user, id);
+    return ResponseUtil.success(series, 'Booking series paused');
+  }
+
+  /**
+   * PUT /api/v1/bookings/series/:id/resume
+   * Resume a paused series
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.ADMIN)
+  @Put(':id/resume')
+  async resumeSeries(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const series = await this.bookingSeriesService.resumeSeries(user, id);
+    return ResponseUtil.success(series, 'Booking series resumed');
+  }
+
+  /**
+   * PUT /api/v1/bookings/series/:id/cancel
+   * Cancel the series and its upcoming occurrences
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.ADMIN)
+  @Put(':id/cancel')
+  async cancelSeries(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const series = await this.bookingSeriesService.cancelSeries(user, id);
+    return ResponseUtil.success(series, 'Booking series cancelled');
+  }
+
+  /**
+   * POST /api/v1/bookings/series/:id/skip
+   * Skip one occurrence
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.ADMIN)
+  @Post(':id/skip')
+  async skipOccurrence(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() skipDto: SkipOccurrenceDto,
+  ) {
+    await this.bookingSeriesService.skipOccurrence(
+      user,
+      id,
+      new Date(skipDto.occurrence_at),
+    );
+    return ResponseUtil.success(null, 'Occurrence skipped');
+  }
+
+  /**
+   * PUT /api/v1/bookings/series/:id/occurrences/:bookingId/reassign
+   * Give a flagged occurrence a new provider
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.ADMIN)
+  @Put(':id/occurrences/:bookingId/reassign')
+  async reassignOccurrence(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Param('bookingId') bookingId: string,
+    @Body() reassignDto: ReassignOccurrenceDto,
+  ) {
+    const booking = await this.bookingSeriesService.reassignOccurrence(
+      user,
+      id,
+      bookingId,
+      reassignDto.provider_id,
+    );
+    return ResponseUtil.success(booking, 'Occurrence reassigned');
+  }
+}
@@ -0,0 +1,19 @@
+import { Process, Processor } from '@nestjs/bull';
+import {
+  BookingSeriesService,
+  BOOKING_SERIES_QUEUE,
+  GENERATE_OCCURRENCES_JOB,
+} from './booking-series.service';
+
+@Processor(BOOKING_SERIES_QUEUE)
+export class BookingSeriesProcessor {
+  constructor(private bookingSeriesService: BookingSeriesService) {}
+
+  /**
+   * Hourly top-up of the rolling occurrence window
+   */
+  @Process(GENERATE_OCCURRENCES_JOB)
+  async handleGenerate() {
+    await this.bookingSeriesService.generateAll();
+  }
+}
@@ -0,0 +1,713 @@
+import {
+  Injectable,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { PoolClient } from 'pg';
+import { addDays } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import {
+  Booking,
+  BookingStatus,
+  CancellationActor,
+  User,
+  UserRole,
+} from '../../types/database.types';
+import { BookingsService, BookingDetails } from './bookings.service';
+import { AvailabilityService } from './availability.service';
+import { BookingQuotesService, PriceBreakdown } from './booking-quotes.service';
+import { CancellationPoliciesService } from './cancellation-policies.service';
+import { occurrencesBetween } from './series-occurrences';
+import { CreateBookingSeriesDto } from './dto/create-booking-series.dto';
+import { UpdateBookingSeriesDto } from './dto/update-booking-series.dto';
+
+export const BOOKING_SERIES_QUEUE = 'booking-series';
+export const GENERATE_OCCURRENCES_JOB = 'generate-occurrences';
+
+// Occurrences cancelled for these reasons are regenerated when the
+// series becomes active again
+export const SERIES_PAUSED = 'series_paused';
+export const SERIES_UPDATED = 'series_updated';
+export const SERIES_CANCELLED = 'series_cancelled';
+export const OCCURRENCE_SKIPPED = 'occurrence_skipped';
+
+export type SeriesFrequency = 'weekly' | 'biweekly' | 'monthly';
+export type SeriesStatus = 'active' | 'paused' | 'cancelled';
+
+export interface BookingSeries {
+  id: string;
+  customer_id: string;
+  customer_user_id: string;
+  provider_id: string;
+  service_id: string;
+  address_id?: string;
+  latitude: number;
+  longitude: number;
+  frequency: SeriesFrequency;
+  starts_at: Date;
+  ends_at?: Date;
+  status: SeriesStatus;
+  estimated_price: number;
+  description?: string;
+  special_instructions?: string;
+  generated_until?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SERIES_SELECT = `
+  SELECT
+    bs.*,
+    c.user_id as customer_user_id,
+    ST_Y(bs.service_location::geometry) as latitude,
+    ST_X(bs.service_location::geometry) as longitude
+  FROM booking_series bs
+  JOIN customers c ON bs.customer_id = c.id
+`;
+
+const UPCOMING_STATUSES = [BookingStatus.PENDING, BookingStatus.ACCEPTED];
+
+@Injectable()
+export class BookingSeriesService implements OnModuleInit {
+  private readonly logger = new Logger(BookingSeriesService.name);
+
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private bookingsService: BookingsService,
+    private availabilityService: AvailabilityService,
+    private bookingQuotesService: BookingQuotesService,
+    private cancellationPoliciesService: CancellationPoliciesService,
+    @InjectQueue(BOOKING_SERIES_QUEUE) private seriesQueue: Queue,
+  ) {}
+
+  /**
+   * Keep the rolling window filled every hour
+   */
+  async onModuleInit() {
+    await this.seriesQueue.add(
+      GENERATE_OCCURRENCES_JOB,
+      {},
+      {
+        jobId: GENERATE_OCCURRENCES_JOB,
+        repeat: { cron: '0 * * * *' },
+        removeOnComplete: true,
+      },
+    );
+  }
+
+  /**
+   * Create a recurring series (Customer)
+   * The first occurrence must be bookable; later ones are generated
+   * ahead of time and flagged if the provider cannot take them.
+   */
+  async createSeries(
+    userId: string,
+    createDto: CreateBookingSeriesDto,
+  ): Promise<BookingSeries> {
+    const customer = await this.bookingsService.getCustomerByUserId(userId);
+    const location = await this.bookingsService.resolveServiceLocation(
+      userId,
+      createDto,
+    );
+    const { total: price } = await this.bookingQuotesService.calculate({
+      service_id: createDto.service_id,
+      provider_id: createDto.provider_id,
+      address_id: createDto.address_id,
+      ...location,
+      apply_surge: false,
+    });
+    const startsAt = new Date(createDto.starts_at);
+    const endsAt = createDto.ends_at ? new Date(createDto.ends_at) : undefined;
+
+    this.assertEndsAfterStart(startsAt, endsAt);
+
+    const seriesId = await this.db.transaction(async (client: PoolClient) => {
+      const result = await client.query<{ id: string }>(
+        `INSERT INTO booking_series (
+          customer_id, provider_id, service_id, address_id, service_location,
+          frequency, starts_at, ends_at, status, estimated_price, description,
+          special_instructions
+         )
+         VALUES (
+          $1, $2, $3, $4, ST_SetSRID(ST_MakePoint($5, $6), 4326),
+          $7, $8, $9, 'active', $10, $11, $12
+         )
+         RETURNING id`,
+        [
+          customer.id,
+          createDto.provider_id,
+          createDto.service_id,
+          createDto.address_id,
+          location.longitude,
+          location.latitude,
+          createDto.frequency,
+          startsAt,
+          endsAt,
+          price,
+          createDto.description,
+          createDto.special_instructions,
+        ],
+      );
+
+      const series = await this.getSeriesById(result.rows[0].id, client);
+      await this.createOccurrence(series, startsAt, client, true);
+
+      return series.id;
+    });
+
+    await this.generateOccurrences(seriesId);
+    return await this.getSeriesById(seriesId);
+  }
+
+  /**
+   * Get series of the current customer
+   */
+  async getMySeries(userId: string): Promise<BookingSeries[]> {
+    return await this.db.queryMany<BookingSeries>(
+      `${SERIES_SELECT}
+       WHERE c.user_id = $1
+       ORDER BY bs.created_at DESC`,
+      [userId],
+    );
+  }
+
+  /**
+   * Get a series with its upcoming occurrences
+   */
+  async getSeriesForUser(
+    user: User,
+    seriesId: string,
+  ): Promise<BookingSeries & { occurrences: Booking[] }> {
+    const series = await this.getOwnedSeries(user, seriesId);
+
+    const occurrences = await this.db.queryMany<Booking>(
+      `SELECT * FROM bookings
+       WHERE series_id = $1 AND scheduled_at > CURRENT_TIMESTAMP
+       ORDER BY scheduled_at`,
+      [seriesId],
+    );
+
+    return { ...series, occurrences };
+  }
+
+  /**
+   * Pause a series: upcoming occurrences are released
+   */
+  async pauseSeries(user: User, seriesId: string): Promise<BookingSeries> {
+    await this.getOwnedSeries(user, seriesId);
+    await this.setStatus(seriesId, 'paused', ['active']);
+    await this.cancelUpcomingOccurrences(user, seriesId, SERIES_PAUSED);
+    return await this.getSeriesById(seriesId);
+  }
+
+  /**
+   * Resume a paused series
+   */
+  async resumeSeries(user: User, seriesId: string): Promise<BookingSeries> {
+    await this.getOwnedSeries(user, seriesId);
+    await this.setStatus(seriesId, 'active', ['paused']);
+    await this.generateOccurrences(seriesId);
+    return await this.getSeriesById(seriesId);
+  }
+
+  /**
+   * Cancel the whole series
+   */
+  async cancelSeries(user: User, seriesId: string): Promise<BookingSeries> {
+    await this.getOwnedSeries(user, seriesId);
+    await this.setStatus(seriesId, 'cancelled', ['active', 'paused']);
+    await this.cancelUpcomingOccurrences(user, seriesId, SERIES_CANCELLED);
+    return await this.getSeriesById(seriesId);
+  }
+
+  /**
+   * Change the series from now on
+   * Upcoming occurrences are replaced; past ones are left as they were.
+   */
+  async updateSeries(
+    user: User,
+    seriesId: string,
+    updateDto: UpdateBookingSeriesDto,
+  ): Promise<BookingSeries> {
+    const series = await this.getOwnedSeries(user, seriesId);
+
+    if (series.status === 'cancelled') {
+      throw new ConflictException('Series is cancelled');
+    }
+
+    const endsAt = updateDto.ends_at ?? series.ends_at;
+    this.assertEndsAfterStart(
+      new Date(updateDto.starts_at ?? series.starts_at),
+      endsAt ? new Date(endsAt) : undefined,
+    );
+
+    const providerId = updateDto.provider_id ?? series.provider_id;
+    const { total: price } = await this.bookingQuotesService.calculate({
+      service_id: series.service_id,
+      provider_id: providerId,
+      address_id: series.address_id,
+      latitude: series.latitude,
+      longitude: series.longitude,
+      apply_surge: false,
+    });
+
+    const updates: string[] = [`estimated_price = $1`];
+    const values: unknown[] = [price];
+    let paramIndex = 2;
+
+    Object.keys(updateDto).forEach((key) => {
+      if (updateDto[key] !== undefined) {
+        updates.push(`${key} = $${paramIndex++}`);
+        values.push(updateDto[key]);
+      }
+    });
+
+    updates.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(seriesId);
+
+    await this.db.query(
+      `UPDATE booking_series SET ${updates.join(', ')} WHERE id = $${paramIndex}`,
+      values,
+    );
+
+    await this.cancelUpcomingOccurrences(user, seriesId, SERIES_UPDATED);
+    await this.generateOccurrences(seriesId);
+
+    return await this.getSeriesById(seriesId);
+  }
+
+  /**
+   * Skip a single occurrence
+   */
+  async skipOccurrence(
+    user: User,
+    seriesId: string,
+    occurrenceAt: Date,
+  ): Promise<void> {
+    const series = await this.getOwnedSeries(user, seriesId);
+
+    const isOccurrence = occurrencesBetween(
+      series,
+      addDays(occurrenceAt, -1),
+      addDays(occurrenceAt, 1),
+    ).some((at) => at.getTime() === occurrenceAt.getTime());
+
+    if (!isOccurrence) {
+      throw new BadRequestException('Not an occurrence of this series');
+    }
+
+    await this.db.query(
+      `INSERT INTO booking_series_skips (series_id, occurrence_at)
+       VALUES ($1, $2)
+       ON CONFLICT (series_id, occurrence_at) DO NOTHING`,
+      [seriesId, occurrenceAt],
+    );
+
+    const booking = await this.db.queryOne<{ id: string }>(
+      `SELECT id FROM bookings
+       WHERE series_id = $1 AND series_occurrence_at = $2 AND status = ANY($3)`,
+      [seriesId, occurrenceAt, UPCOMING_STATUSES],
+    );
+
+    if (booking) {
+      await this.cancelOccurrence(user, booking.id, OCCURRENCE_SKIPPED);
+    }
+  }
+
+  /**
+   * Assign a new provider to a flagged occurrence
+   */
+  async reassignOccurrence(
+    user: User,
+    seriesId: string,
+    bookingId: string,
+    providerId: string,
+  ): Promise<BookingDetails> {
+    await this.getOwnedSeries(user, seriesId);
+    const booking = await this.bookingsService.getBookingById(bookingId);
+
+    if (booking.series_id !== seriesId || !booking.needs_reassignment) {
+      throw new BadRequestException('Occurrence does not need reassignment');
+    }
+
+    const quoteInput = {
+      service_id: booking.service_id,
+      provider_id: providerId,
+      address_id: booking.address_id,
+      latitude: booking.latitude,
+      longitude: booking.longitude,
+      apply_surge: false,
+    };
+    const pricing = await this.bookingQuotesService.calculate(quoteInput);
+
+    await this.db.transaction(async (client: PoolClient) => {
+      await this.availabilityService.assertSlotBookable(
+        providerId,
+        booking.service_id,
+        new Date(booking.scheduled_at!),
+        client,
+        booking.id,
+      );
+
+      const quote = await this.bookingQuotesService.saveQuote(
+        booking.customer_id,
+        quoteInput,
+        pricing,
+        client,
+      );
+
+      const result = await client.query(
+        `UPDATE bookings
+         SET provider_id = $1, estimated_price = $2, tax_amount = $3,
+             discount_amount = $4, platform_fee = $5, provider_earnings = $6,
+             commission_rule_id = $7, commission_terms = $8, quote_id = $9,
+             needs_reassignment = false, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $10 AND status = $11`,
+        [
+          providerId,
+          quote.total,
+          quote.tax_amount,
+          quote.discount_amount,
+          quote.platform_fee,
+          quote.provider_earnings,
+          quote.commission_rule_id,
+          quote.commission_terms,
+          quote.id,
+          bookingId,
+          BookingStatus.PENDING,
+        ],
+      );
+
+      if ((result.rowCount ?? 0) === 0) {
+        throw new ConflictException('Occurrence can no longer be reassigned');
+      }
+
+      await this.bookingQuotesService.markUsed(quote.id, bookingId, client);
+    });
+
+    return await this.bookingsService.getBookingById(bookingId);
+  }
+
+  /**
+   * Occurrences waiting for a new provider (Admin only)
+   */
+  async getOccurrencesNeedingReassignment(): Promise<Booking[]> {
+    return await this.db.queryMany<Booking>(
+      `SELECT * FROM bookings
+       WHERE needs_reassignment = true
+         AND status = $1
+         AND scheduled_at > CURRENT_TIMESTAMP
+       ORDER BY scheduled_at`,
+      [BookingStatus.PENDING],
+    );
+  }
+
+  /**
+   * Fill the rolling window of every active series
+   */
+  async generateAll(): Promise<void> {
+    await this.flagUnavailableOccurrences();
+
+    const series = await this.db.queryMany<{ id: string }>(
+      `SELECT id FROM booking_series WHERE status = 'active'`,
+    );
+
+    for (const { id } of series) {
+      await this.generateOccurrences(id);
+    }
+  }
+
+  /**
+   * Create missing occurrences inside the rolling window
+   */
+  async generateOccurrences(seriesId: string): Promise<number> {
+    const series = await this.getSeriesById(seriesId);
+    if (series.status !== 'active') {
+      return 0;
+    }
+
+    const windowEnd = addDays(
+      new Date(),
+      this.configService.get<number>('scheduling.recurringWindowDays', 28),
+    );
+    let created = 0;
+
+    for (const at of occurrencesBetween(series, new Date(), windowEnd)) {
+      const booking = await this.db.transaction(async (client: PoolClient) => {
+        // Serialise generators for the same series
+        const locked = await client.query(
+          `SELECT id FROM booking_series
+             WHERE id = $1 AND status = 'active'
+             FOR UPDATE`,
+          [seriesId],
+        );
+        if ((locked.rowCount ?? 0) === 0) {
+          return null;
+        }
+
+        const existing = await client.query(
+          `SELECT 1 FROM bookings
+             WHERE series_id = $1
+               AND series_occurrence_at = $2
+               AND NOT (status = $3 AND cancellation_reason = ANY($4))
+             UNION ALL
+             SELECT 1 FROM booking_series_skips
+             WHERE series_id = $1 AND occurrence_at = $2`,
+          [
+            seriesId,
+            at,
+            BookingStatus.CANCELLED,
+            [SERIES_PAUSED, SERIES_UPDATED],
+          ],
+        );
+        if ((existing.rowCount ?? 0) > 0) {
+          return null;
+        }
+
+        return await this.createOccurrence(series, at, client, false);
+      });
+
+      if (booking) {
+        created++;
+      }
+    }
+
+    await this.db.query(
+      `UPDATE booking_series SET generated_until = $1 WHERE id = $2`,
+      [windowEnd, seriesId],
+    );
+
+    return created;
+  }
+
+  /**
+   * Insert one occurrence, priced at generation time
+   * When the provider cannot take it (strict = false) the booking is
+   * created without a provider and flagged for reassignment.
+   */
+  private async createOccurrence(
+    series: BookingSeries,
+    at: Date,
+    client: PoolClient,
+    strict: boolean,
+  ): Promise<Booking> {
+    let providerId: string | null = series.provider_id;
+    const quoteInput = {
+      service_id: series.service_id,
+      address_id: series.address_id,
+      latitude: series.latitude,
+      longitude: series.longitude,
+      apply_surge: false,
+    };
+    let pricing: PriceBreakdown;
+
+    try {
+      await this.assertProviderActive(series.provider_id);
+      pricing = await this.bookingQuotesService.calculate({
+        ...quoteInput,
+        provider_id: series.provider_id,
+      });
+      await this.availabilityService.assertSlotBookable(
+        series.provider_id,
+        series.service_id,
+        at,
+        client,
+      );
+    } catch (error) {
+      if (strict || !(error instanceof HttpException)) {
+        throw error;
+      }
+      providerId = null;
+      pricing = await this.bookingQuotesService.calculate(quoteInput);
+    }
+
+    const quote = await this.bookingQuotesService.saveQuote(
+      series.customer_id,
+      { ...quoteInput, provider_id: providerId },
+      pricing,
+      client,
+    );
+
+    const booking = await this.bookingsService.insertBooking(
+      {
+        customer_id: series.customer_id,
+        provider_id: providerId,
+        service_id: series.service_id,
+        address_id: series.address_id,
+        latitude: series.latitude,
+        longitude: series.longitude,
+        scheduled_at: at,
+        pricing,
+        quote_id: quote.id,
+        description: series.description,
+        special_instructions: series.special_instructions,
+        series_id: series.id,
+        series_occurrence_at: at,
+        needs_reassignment: providerId === null,
+      },
+      client,
+    );
+
+    await this.bookingQuotesService.markUsed(quote.id, booking.id, client);
+    return booking;
+  }
+
+  /**
+   * Flag generated occurrences whose provider can no longer work
+   */
+  private async flagUnavailableOccurrences(): Promise<void> {
+    await this.db.query(
+      `UPDATE bookings b
+       SET needs_reassignment = true, updated_at = CURRENT_TIMESTAMP
+       FROM providers p
+       JOIN users u ON p.user_id = u.id
+       WHERE b.provider_id = p.id
+         AND b.series_id IS NOT NULL
+         AND b.needs_reassignment = false
+         AND b.status = ANY($1)
+         AND b.scheduled_at > CURRENT_TIMESTAMP
+         AND (
+           p.is_verified = false
+           OR u.status <> 'active'
+           OR NOT EXISTS (
+             SELECT 1 FROM provider_services ps
+             WHERE ps.provider_id = p.id
+               AND ps.service_id = b.service_id
+               AND ps.is_active = true
+           )
+         )`,
+      [UPCOMING_STATUSES],
+    );
+  }
+
+  private async assertProviderActive(providerId: string): Promise<void> {
+    const provider = await this.db.queryOne<{ id: string }>(
+      `SELECT p.id
+       FROM providers p
+       JOIN users u ON p.user_id = u.id
+       WHERE p.id = $1 AND p.is_verified = true AND u.status = 'active'`,
+      [providerId],
+    );
+
+    if (!provider) {
+      throw new ConflictException('Provider is not available');
+    }
+  }
+
+  private async cancelUpcomingOccurrences(
+    user: User,
+    seriesId: string,
+    reason: string,
+  ): Promise<void> {
+    const bookings = await this.db.queryMany<{ id: string }>(
+      `SELECT id FROM bookings
+       WHERE series_id = $1
+         AND status = ANY($2)
+         AND scheduled_at > CURRENT_TIMESTAMP`,
+      [seriesId, UPCOMING_STATUSES],
+    );
+
+    // The series has already changed status, so one occurrence failing to
+    // cancel must not leave the rest of them live
+    for (const booking of bookings) {
+      try {
+        await this.cancelOccurrence(user, booking.id, reason);
+      } catch (error) {
+        this.logger.error(
+          `Could not cancel occurrence ${booking.id} of series ${seriesId}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Cancel an occurrence, refunding anything prepaid
+   * The cancellation policy applies as it does to one-off bookings, so an
+   * occurrence dropped inside its free window is charged the late fee.
+   */
+  private async cancelOccurrence(
+    user: User,
+    bookingId: string,
+    reason: string,
+  ): Promise<void> {
+    const actor =
+      user.role === UserRole.ADMIN
+        ? CancellationActor.ADMIN
+        : CancellationActor.CUSTOMER;
+    const { fee } = await this.cancellationPoliciesService.quoteCancellation(
+      await this.bookingsService.getBookingById(bookingId),
+      actor,
+    );
+
+    await this.bookingsService.cancelAndRefund(bookingId, {
+      actor,
+      fee,
+      reason,
+      requested_by: user.id,
+    });
+  }
+
+  private assertEndsAfterStart(startsAt: Date, endsAt?: Date): void {
+    if (endsAt && endsAt <= startsAt) {
+      throw new BadRequestException('Series must end after it starts');
+    }
+  }
+
+  private async setStatus(
+    seriesId: string,
+    status: SeriesStatus,
+    from: SeriesStatus[],
+  ): Promise<void> {
+    const result = await this.db.query(
+      `UPDATE booking_series
+       SET status = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND status = ANY($3)`,
+      [status, seriesId, from],
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new ConflictException(`Series cannot be set to ${status}`);
+    }
+  }
+
+  private async getSeriesById(
+    seriesId: string,
+    client?: PoolClient,
+  ): Promise<BookingSeries> {
+    const query = `${SERIES_SELECT} WHERE bs.id = $1`;
+    const series = client
+      ? (await client.query<BookingSeries>(query, [seriesId])).rows[0]
+      : await this.db.queryOne<BookingSeries>(query, [seriesId]);
+
+    if (!series) {
+      throw new NotFoundException('Booking series not found');
+    }
+
+    return series;
+  }
+
+  /**
+   * Series owned by the customer (admins see every series)
+   */
+  private async getOwnedSeries(
+    user: User,
+    seriesId: string,
+  ): Promise<BookingSeries> {
+    const series = await this.getSeriesById(seriesId);
+
+    if (user.role !== UserRole.ADMIN && series.customer_user_id !== user.id) {
+      throw new ForbiddenException('You do not have access to this series');
+    }
+
+    return series;
+  }
+}
@@ -0,0 +1,44 @@
+import { BookingStatus } from '../../types/database.types';
+import { canTransition, sourceStatusesFor } from './booking-transitions';
+
+describe('booking transitions', () => {
+  it('allows the happy path', () => {
+    expect(canTransition(BookingStatus.PENDING, BookingStatus.ACCEPTED)).toBe(
+      true,
+    );
+    expect(canTransition(BookingStatus.ACCEPTED, BookingStatus.ONGOING)).toBe(
+      true,
+    );
+    expect(canTransition(BookingStatus.ONGOING, BookingStatus.COMPLETED)).toBe(
+      true,
+    );
+  });
+
+  it('rejects skipping states', () => {
+    expect(canTransition(BookingStatus.PENDING, BookingStatus.COMPLETED)).toBe(
+      false,
+    );
+    expect(canTransition(BookingStatus.ACCEPTED, BookingStatus.REJECTED)).toBe(
+      false,
+    );
+  });
+
+  it('does not leave terminal statuses', () => {
+    expect(
+      canTransition(BookingStatus.COMPLETED, BookingStatus.CANCELLED),
+    ).toBe(false);
+    expect(canTransition(BookingStatus.CANCELLED, BookingStatus.PENDING)).toBe(
+      false,
+    );
+  });
+
+  it('allows cancelling any pre-completion status', () => {
+    expect(sourceStatusesFor(BookingStatus.CANCELLED).sort()).toEqual(
+      [
+        BookingStatus.ACCEPTED,
+        BookingStatus.ONGOING,
+        BookingStatus.PENDING,
+      ].sort(),
+    );
+  });
+});
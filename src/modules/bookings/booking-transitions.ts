@@ -0,0 +1,45 @@
+import { BookingStatus } from '../../types/database.types';
+
+/**
+ * Allowed booking status transitions.
+ * Terminal statuses (completed, rejected, cancelled) have no way out.
+ */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  [BookingStatus.PENDING]: [
+    BookingStatus.ACCEPTED,
+    BookingStatus.REJECTED,
+    BookingStatus.CANCELLED,
+  ],
+  [BookingStatus.ACCEPTED]: [BookingStatus.ONGOING, BookingStatus.CANCELLED],
+  [BookingStatus.ONGOING]: [BookingStatus.COMPLETED, BookingStatus.CANCELLED],
+  [BookingStatus.COMPLETED]: [],
+  [BookingStatus.REJECTED]: [],
+  [BookingStatus.CANCELLED]: [],
+};
+
+/**
+ * Timestamp column stamped when a booking enters a status
+ */
+export const BOOKING_STATUS_TIMESTAMPS: Partial<Record<BookingStatus, string>> =
+  {
+    [BookingStatus.ACCEPTED]: 'accepted_at',
+    [BookingStatus.ONGOING]: 'started_at',
+    [BookingStatus.COMPLETED]: 'completed_at',
+    [BookingStatus.CANCELLED]: 'cancelled_at',
+  };
+
+/**
+ * Check whether a booking may move from one status to another
+ */
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Statuses a booking may be in to move to the target status
+ */
+export function sourceStatusesFor(to: BookingStatus): BookingStatus[] {
+  return (Object.keys(BOOKING_TRANSITIONS) as BookingStatus[]).filter((from) =>
+    canTransition(from, to),
+  );
+}
@@ -0,0 +1,334 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+  ParseEnumPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import { BookingsService } from './bookings.service';
+import { BookingDispatchService } from './booking-dispatch.service';
+import { AvailabilityService } from './availability.service';
+import { CreateBookingDto } from './dto/create-booking.dto';
+import { CreateQuoteDto } from './dto/create-quote.dto';
+import { ApplyDiscountCodeDto } from './dto/apply-discount-code.dto';
+import { RedeemPointsDto } from './dto/redeem-points.dto';
+import { AvailableSlotsQueryDto } from './dto/available-slots-query.dto';
+import { CancelBookingDto } from './dto/cancel-booking.dto';
+import { StartBookingDto } from './dto/start-booking.dto';
+import { CompleteBookingDto } from './dto/complete-booking.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('bookings')
+@UseGuards(JwtAuthGuard)
+export class BookingsController {
+  constructor(
+    private bookingsService: BookingsService,
+    private bookingDispatchService: BookingDispatchService,
+    private availabilityService: AvailabilityService,
+  ) {}
+
+  // ==================== CUSTOMER ENDPOINTS ====================
+
+  /**
+   * POST /api/v1/bookings
+   * Create a booking
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post()
+  async createBooking(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createBookingDto: CreateBookingDto,
+  ) {
+    const booking = await this.bookingsService.createBooking(
+      user.id,
+      createBookingDto,
+    );
+    return ResponseUtil.success(booking, 'Booking created successfully');
+  }
+
+  /**
+   * POST /api/v1/bookings/quote
+   * Get an itemised price, valid for a few minutes
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post('quote')
+  async quoteBooking(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() quoteDto: CreateQuoteDto,
+  ) {
+    const quote = await this.bookingsService.quoteBooking(user.id, quoteDto);
+    return ResponseUtil.success(quote);
+  }
+
+  /**
+   * POST /api/v1/bookings/quote/:id/apply-code
+   * Apply a discount code to a quote
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post('quote/:id/apply-code')
+  async applyDiscountCode(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() applyDto: ApplyDiscountCodeDto,
+  ) {
+    const quote = await this.bookingsService.applyDiscountCode(
+      user.id,
+      id,
+      applyDto,
+    );
+    return ResponseUtil.success(quote, 'Discount code applied');
+  }
+
+  /**
+   * POST /api/v1/bookings/quote/:id/redeem-points
+   * Pay part of a quote with loyalty points
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post('quote/:id/redeem-points')
+  async redeemPoints(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() redeemDto: RedeemPointsDto,
+  ) {
+    const quote = await this.bookingsService.redeemPoints(
+      user.id,
+      id,
+      redeemDto,
+    );
+    return ResponseUtil.success(quote, 'Points applied');
+  }
+
+  // ==================== SHARED ENDPOINTS ====================
+
+  /**
+   * GET /api/v1/bookings/availability
+   * Get free time slots for a provider and service
+   * Query params: provider_id, service_id, from, to
+   */
+  @Get('availability')
+  async getAvailableSlots(@Query() query: AvailableSlotsQueryDto) {
+    const slots = await this.availabilityService.getAvailableSlots(
+      query.provider_id,
+      query.service_id,
+      new Date(query.from),
+      new Date(query.to),
+    );
+    return ResponseUtil.success(slots);
+  }
+
+  /**
+   * GET /api/v1/bookings/me
+   * Get my bookings (as customer or provider)
+   * Query params: status, page, limit (optional)
+   */
+  @Get('me')
+  async getMyBookings(
+    @CurrentUser() user: databaseTypes.User,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query(
+      'status',
+      new ParseEnumPipe(databaseTypes.BookingStatus, { optional: true }),
+    )
+    status?: databaseTypes.BookingStatus,
+  ) {
+    const result = await this.bookingsService.getUserBookings(
+      user,
+      page,
+      limit,
+      status,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  /**
+   * GET /api/v1/bookings/offers
+   * Get open dispatch offers for the current provider
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Get('offers')
+  async getMyOffers(@CurrentUser() user: databaseTypes.User) {
+    const offers = await this.bookingDispatchService.getOpenOffers(user.id);
+    return ResponseUtil.success(offers);
+  }
+
+  /**
+   * GET /api/v1/bookings/:id
+   * Get booking by ID
+   */
+  @Get(':id')
+  async getBookingById(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const booking = await this.bookingsService.getBookingForUser(id, user);
+    return ResponseUtil.success(booking);
+  }
+
+  /**
+   * GET /api/v1/bookings/:id/cancellation-fee
+   * Preview the fee for cancelling now
+   */
+  @Get(':id/cancellation-fee')
+  async getCancellationFee(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const quote = await this.bookingsService.getCancellationQuote(user, id);
+    return ResponseUtil.success(quote);
+  }
+
+  /**
+   * GET /api/v1/bookings/:id/pins
+   * Get the start/end PINs to share with the provider (Customer only)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Get(':id/pins')
+  async getBookingPins(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const pins = await this.bookingsService.getBookingPins(user, id);
+    return ResponseUtil.success(pins);
+  }
+
+  /**
+   * PUT /api/v1/bookings/:id/cancel
+   * Cancel a booking
+   * If a fee applies, the fee is returned and the call must be repeated
+   * with confirm: true
+   */
+  @Put(':id/cancel')
+  async cancelBooking(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() cancelBookingDto: CancelBookingDto,
+  ) {
+    const result = await this.bookingsService.cancelBooking(
+      user,
+      id,
+      cancelBookingDto,
+    );
+    return ResponseUtil.success(
+      result,
+      result.cancelled
+        ? 'Booking cancelled'
+        : 'A cancellation fee applies. Confirm to cancel.',
+    );
+  }
+
+  // ==================== PROVIDER ENDPOINTS ====================
+
+  /**
+   * PUT /api/v1/bookings/:id/accept
+   * Accept a booking
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Put(':id/accept')
+  async acceptBooking(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const booking = await this.bookingsService.acceptBooking(user.id, id);
+    return ResponseUtil.success(booking, 'Booking accepted');
+  }
+
+  /**
+   * PUT /api/v1/bookings/:id/reject
+   * Reject a booking
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Put(':id/reject')
+  async rejectBooking(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const booking = await this.bookingsService.rejectBooking(user.id, id);
+    return ResponseUtil.success(booking, 'Booking rejected');
+  }
+
+  /**
+   * PUT /api/v1/bookings/:id/start
+   * Start the job with the customer's start PIN
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Put(':id/start')
+  async startBooking(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() startDto: StartBookingDto,
+  ) {
+    const booking = await this.bookingsService.startBooking(
+      user.id,
+      id,
+      startDto,
+    );
+    return ResponseUtil.success(booking, 'Job started');
+  }
+
+  /**
+   * PUT /api/v1/bookings/:id/complete
+   * Complete the job
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Put(':id/complete')
+  async completeBooking(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() completeDto: CompleteBookingDto,
+  ) {
+    const booking = await this.bookingsService.completeBooking(
+      user.id,
+      id,
+      completeDto,
+    );
+    return ResponseUtil.success(booking, 'Job completed');
+  }
+
+  // ==================== ADMIN ENDPOINTS ====================
+
+  /**
+   * GET /api/v1/bookings
+   * Get all bookings (Admin only)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get()
+  async getAllBookings(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query(
+      'status',
+      new ParseEnumPipe(databaseTypes.BookingStatus, { optional: true }),
+    )
+    status?: databaseTypes.BookingStatus,
+  ) {
+    const result = await this.bookingsService.getAllBookings(
+      page,
+      limit,
+      status,
+    );
+    return ResponseUtil.success(result);
+  }
+}
@@ -0,0 +1,82 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { BookingsController } from './bookings.controller';
+import { BookingsService } from './bookings.service';
+import {
+  BookingDispatchService,
+  BOOKING_DISPATCH_QUEUE,
+} from './booking-dispatch.service';
+import { BookingDispatchProcessor } from './booking-dispatch.processor';
+import { AvailabilityService } from './availability.service';
+import { CancellationPoliciesController } from './cancellation-policies.controller';
+import { CancellationPoliciesService } from './cancellation-policies.service';
+import { RescheduleRequestsController } from './reschedule-requests.controller';
+import {
+  RescheduleRequestsService,
+  BOOKING_RESCHEDULE_QUEUE,
+} from './reschedule-requests.service';
+import { RescheduleRequestsProcessor } from './reschedule-requests.processor';
+import { BookingSeriesController } from './booking-series.controller';
+import {
+  BookingSeriesService,
+  BOOKING_SERIES_QUEUE,
+} from './booking-series.service';
+import { BookingSeriesProcessor } from './booking-series.processor';
+import { BookingQuotesService } from './booking-quotes.service';
+import { BookingPinsService } from './booking-pins.service';
+import { BookingAttachmentsController } from './booking-attachments.controller';
+import { BookingAttachmentsService } from './booking-attachments.service';
+import { BookingLineItemsController } from './booking-line-items.controller';
+import { BookingLineItemsService } from './booking-line-items.service';
+import { ProvidersModule } from '../providers/providers.module';
+import { SurgeModule } from '../surge/surge.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { CommissionsModule } from '../commissions/commissions.module';
+import { DiscountsModule } from '../discounts/discounts.module';
+import { LoyaltyModule } from '../loyalty/loyalty.module';
+import { ReferralsModule } from '../referrals/referrals.module';
+
+@Module({
+  imports: [
+    BullModule.registerQueue(
+      { name: BOOKING_DISPATCH_QUEUE },
+      { name: BOOKING_RESCHEDULE_QUEUE },
+      { name: BOOKING_SERIES_QUEUE },
+    ),
+    ProvidersModule,
+    SurgeModule,
+    InvoicesModule,
+    PaymentsModule,
+    CommissionsModule,
+    DiscountsModule,
+    LoyaltyModule,
+    ReferralsModule,
+  ],
+  // Sub-resource controllers first so their static paths win over /:id
+  controllers: [
+    CancellationPoliciesController,
+    RescheduleRequestsController,
+    BookingSeriesController,
+    BookingAttachmentsController,
+    BookingLineItemsController,
+    BookingsController,
+  ],
+  providers: [
+    BookingsService,
+    BookingDispatchService,
+    BookingDispatchProcessor,
+    AvailabilityService,
+    CancellationPoliciesService,
+    RescheduleRequestsService,
+    RescheduleRequestsProcessor,
+    BookingSeriesService,
+    BookingSeriesProcessor,
+    BookingQuotesService,
+    BookingPinsService,
+    BookingAttachmentsService,
+    BookingLineItemsService,
+  ],
+  exports: [BookingsService],
+})
+export class BookingsModule {}
@@ -0,0 +1,953 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { format } from 'date-fns';
+import { randomInt } from 'crypto';
+import { DatabaseService } from '../../database/database.service';
+import { ProvidersService } from '../providers/providers.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { RefundsService } from '../payments/refunds.service';
+import { CancellationFeesService } from '../payments/cancellation-fees.service';
+import { DiscountsService } from '../discounts/discounts.service';
+import { LoyaltyService } from '../loyalty/loyalty.service';
+import { ReferralsService } from '../referrals/referrals.service';
+import {
+  Booking,
+  BookingStatus,
+  CancellationActor,
+  Refund,
+  User,
+  UserRole,
+} from '../../types/database.types';
+import { CreateBookingDto } from './dto/create-booking.dto';
+import { CreateQuoteDto } from './dto/create-quote.dto';
+import { ApplyDiscountCodeDto } from './dto/apply-discount-code.dto';
+import { RedeemPointsDto } from './dto/redeem-points.dto';
+import { StartBookingDto } from './dto/start-booking.dto';
+import { CompleteBookingDto } from './dto/complete-booking.dto';
+import { CancelBookingDto } from './dto/cancel-booking.dto';
+import {
+  BOOKING_STATUS_TIMESTAMPS,
+  sourceStatusesFor,
+} from './booking-transitions';
+import { BookingDispatchService } from './booking-dispatch.service';
+import { AvailabilityService } from './availability.service';
+import {
+  CancellationPoliciesService,
+  CancellationQuote,
+} from './cancellation-policies.service';
+import {
+  BookingQuotesService,
+  BookingQuote,
+  PriceBreakdown,
+} from './booking-quotes.service';
+import { BookingPinsService, BookingPins } from './booking-pins.service';
+
+export const NO_PROVIDER_AVAILABLE = 'no_provider_available';
+
+export interface NewBooking {
+  customer_id: string;
+  provider_id?: string | null;
+  service_id: string;
+  address_id?: string;
+  latitude: number;
+  longitude: number;
+  scheduled_at?: Date | string;
+  pricing: PriceBreakdown;
+  quote_id: string;
+  description?: string;
+  special_instructions?: string;
+  series_id?: string;
+  series_occurrence_at?: Date;
+  needs_reassignment?: boolean;
+}
+
+export interface BookingDetails extends Booking {
+  service_name: string;
+  category_id: string;
+  customer_user_id: string;
+  customer_name: string;
+  provider_user_id?: string;
+  provider_name?: string;
+  latitude: number;
+  longitude: number;
+}
+
+const BOOKING_DETAILS_SELECT = `
+  SELECT
+    b.*,
+    ST_Y(b.service_location::geometry) as latitude,
+    ST_X(b.service_location::geometry) as longitude,
+    s.name as service_name,
+    s.category_id,
+    c.user_id as customer_user_id,
+    cu.name as customer_name,
+    p.user_id as provider_user_id,
+    pu.name as provider_name
+  FROM bookings b
+  JOIN services s ON b.service_id = s.id
+  JOIN customers c ON b.customer_id = c.id
+  JOIN users cu ON c.user_id = cu.id
+  LEFT JOIN providers p ON b.provider_id = p.id
+  LEFT JOIN users pu ON p.user_id = pu.id
+`;
+
+@Injectable()
+export class BookingsService {
+  constructor(
+    private db: DatabaseService,
+    private providersService: ProvidersService,
+    private bookingDispatchService: BookingDispatchService,
+    private availabilityService: AvailabilityService,
+    private cancellationPoliciesService: CancellationPoliciesService,
+    private bookingQuotesService: BookingQuotesService,
+    private bookingPinsService: BookingPinsService,
+    private invoicesService: InvoicesService,
+    private refundsService: RefundsService,
+    private cancellationFeesService: CancellationFeesService,
+    private discountsService: DiscountsService,
+    private loyaltyService: LoyaltyService,
+    private referralsService: ReferralsService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Get customer profile by user ID
+   */
+  async getCustomerByUserId(userId: string): Promise<{ id: string }> {
+    const customer = await this.db.queryOne<{ id: string }>(
+      `SELECT id FROM customers WHERE user_id = $1`,
+      [userId],
+    );
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    return customer;
+  }
+
+  /**
+   * Price a job before booking it (Customer)
+   */
+  async quoteBooking(
+    userId: string,
+    quoteDto: CreateQuoteDto,
+  ): Promise<BookingQuote> {
+    const customer = await this.getCustomerByUserId(userId);
+    const location = await this.resolveServiceLocation(userId, quoteDto);
+
+    return await this.bookingQuotesService.createQuote(customer.id, {
+      service_id: quoteDto.service_id,
+      provider_id: quoteDto.provider_id,
+      address_id: quoteDto.address_id,
+      latitude: location.latitude,
+      longitude: location.longitude,
+    });
+  }
+
+  /**
+   * Apply a discount code to a quote (Customer)
+   */
+  async applyDiscountCode(
+    userId: string,
+    quoteId: string,
+    applyDto: ApplyDiscountCodeDto,
+  ): Promise<BookingQuote> {
+    const customer = await this.getCustomerByUserId(userId);
+
+    return await this.bookingQuotesService.applyDiscount(
+      quoteId,
+      customer.id,
+      applyDto.code,
+    );
+  }
+
+  /**
+   * Pay part of a quote with loyalty points (Customer)
+   */
+  async redeemPoints(
+    userId: string,
+    quoteId: string,
+    redeemDto: RedeemPointsDto,
+  ): Promise<BookingQuote> {
+    const customer = await this.getCustomerByUserId(userId);
+
+    return await this.bookingQuotesService.redeemPoints(
+      quoteId,
+      customer.id,
+      userId,
+      redeemDto.points,
+    );
+  }
+
+  /**
+   * Create a new booking (Customer)
+   * With a quote_id the booking is charged exactly the quoted price;
+   * without one the job is priced now.
+   */
+  async createBooking(
+    userId: string,
+    createBookingDto: CreateBookingDto,
+  ): Promise<BookingDetails> {
+    const customer = await this.getCustomerByUserId(userId);
+    const {
+      quote_id,
+      service_id,
+      provider_id,
+      address_id,
+      scheduled_at,
+      description,
+      special_instructions,
+    } = createBookingDto;
+
+    if (scheduled_at && !provider_id) {
+      throw new BadRequestException('Scheduled bookings require a provider');
+    }
+
+    await this.cancellationFeesService.assertNoFeesDue(userId);
+
+    const location = quote_id
+      ? undefined
+      : await this.resolveServiceLocation(userId, createBookingDto);
+
+    const booking = await this.db.transaction(async (client: PoolClient) => {
+      const quote = quote_id
+        ? await this.bookingQuotesService.lockQuote(
+            quote_id,
+            customer.id,
+            client,
+          )
+        : await this.bookingQuotesService.createQuote(
+            customer.id,
+            { service_id, provider_id, address_id, ...location! },
+            client,
+          );
+
+      if (
+        quote.service_id !== service_id ||
+        (quote.provider_id ?? undefined) !== provider_id
+      ) {
+        throw new BadRequestException(
+          'Quote does not match the requested service and provider',
+        );
+      }
+
+      // Slot check and insert share the provider lock
+      if (provider_id && scheduled_at) {
+        await this.availabilityService.assertSlotBookable(
+          provider_id,
+          service_id,
+          new Date(scheduled_at),
+          client,
+        );
+      }
+
+      const inserted = await this.insertBooking(
+        {
+          customer_id: customer.id,
+          provider_id,
+          service_id,
+          address_id,
+          latitude: quote.latitude,
+          longitude: quote.longitude,
+          scheduled_at,
+          pricing: quote,
+          quote_id: quote.id,
+          description,
+          special_instructions,
+        },
+        client,
+      );
+
+      await this.bookingQuotesService.markUsed(quote.id, inserted.id, client);
+
+      if (quote.discount_code_id) {
+        await this.discountsService.redeem(
+          quote.discount_code_id,
+          inserted.id,
+          {
+            customer_id: customer.id,
+            service_id: quote.service_id,
+            amount: quote.subtotal,
+          },
+          client,
+        );
+      }
+
+      if (quote.points_redeemed > 0) {
+        await this.loyaltyService.redeemForBooking(
+          userId,
+          quote.points_redeemed,
+          inserted.id,
+          client,
+        );
+      }
+
+      return inserted;
+    });
+
+    // Instant booking: find a provider automatically
+    if (!provider_id) {
+      await this.dispatchNext(booking.id);
+    }
+
+    return await this.getBookingById(booking.id);
+  }
+
+  /**
+   * Insert a pending booking row inside the caller's transaction
+   */
+  async insertBooking(
+    newBooking: NewBooking,
+    client: PoolClient,
+  ): Promise<Booking> {
+    const result = await client.query<Booking>(
+      `INSERT INTO bookings (
+        booking_number, customer_id, provider_id, service_id, address_id,
+        service_location, scheduled_at, status, estimated_price, tax_amount,
+        discount_amount, platform_fee, provider_earnings, commission_rule_id,
+        commission_terms, quote_id, description, special_instructions,
+        series_id, series_occurrence_at, needs_reassignment
+       )
+       VALUES (
+        $1, $2, $3, $4, $5, ST_SetSRID(ST_MakePoint($6, $7), 4326),
+        $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21,
+        $22
+       )
+       RETURNING *`,
+      [
+        this.generateBookingNumber(),
+        newBooking.customer_id,
+        newBooking.provider_id,
+        newBooking.service_id,
+        newBooking.address_id,
+        newBooking.longitude,
+        newBooking.latitude,
+        newBooking.scheduled_at,
+        BookingStatus.PENDING,
+        newBooking.pricing.total,
+        newBooking.pricing.tax_amount,
+        newBooking.pricing.discount_amount,
+        newBooking.pricing.platform_fee,
+        newBooking.pricing.provider_earnings,
+        newBooking.pricing.commission_rule_id,
+        newBooking.pricing.commission_terms,
+        newBooking.quote_id,
+        newBooking.description,
+        newBooking.special_instructions,
+        newBooking.series_id,
+        newBooking.series_occurrence_at,
+        newBooking.needs_reassignment ?? false,
+      ],
+    );
+
+    await client.query(
+      `UPDATE customers
+       SET total_bookings = total_bookings + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [newBooking.customer_id],
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Offer an unassigned booking to the next provider
+   * Cancels the booking once nobody is left to ask.
+   */
+  async dispatchNext(bookingId: string): Promise<void> {
+    const booking = await this.getBookingById(bookingId);
+
+    if (booking.status !== BookingStatus.PENDING || booking.provider_id) {
+      return;
+    }
+
+    const attempt = await this.bookingDispatchService.offerNext(bookingId);
+
+    if (!attempt) {
+      await this.transition(bookingId, BookingStatus.CANCELLED, {
+        cancellation_reason: NO_PROVIDER_AVAILABLE,
+        cancelled_by: CancellationActor.SYSTEM,
+      });
+    }
+  }
+
+  /**
+   * Get booking by ID
+   */
+  async getBookingById(bookingId: string): Promise<BookingDetails> {
+    const booking = await this.db.queryOne<BookingDetails>(
+      `${BOOKING_DETAILS_SELECT} WHERE b.id = $1`,
+      [bookingId],
+    );
+
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    return booking;
+  }
+
+  /**
+   * Get booking visible to the given user
+   * Customers and providers only see their own bookings
+   */
+  async getBookingForUser(
+    bookingId: string,
+    user: User,
+  ): Promise<BookingDetails> {
+    const booking = await this.getBookingById(bookingId);
+    this.assertParticipant(booking, user);
+    return booking;
+  }
+
+  /**
+   * Get bookings of the current customer or provider
+   */
+  async getUserBookings(
+    user: User,
+    page = 1,
+    limit = 20,
+    status?: BookingStatus,
+  ): Promise<{
+    bookings: BookingDetails[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const ownerCondition =
+      user.role === UserRole.PROVIDER ? `p.user_id = $1` : `c.user_id = $1`;
+
+    return await this.paginateBookings(
+      [ownerCondition],
+      [user.id],
+      page,
+      limit,
+      status,
+    );
+  }
+
+  /**
+   * Get all bookings (Admin only)
+   */
+  async getAllBookings(
+    page = 1,
+    limit = 20,
+    status?: BookingStatus,
+  ): Promise<{
+    bookings: BookingDetails[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    return await this.paginateBookings([], [], page, limit, status);
+  }
+
+  /**
+   * Accept a pending booking (Provider)
+   * Unassigned bookings can only be accepted through an open offer.
+   */
+  async acceptBooking(
+    userId: string,
+    bookingId: string,
+  ): Promise<BookingDetails> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    const booking = await this.getBookingById(bookingId);
+
+    if (booking.provider_id && booking.provider_id !== provider.id) {
+      throw new ForbiddenException('Booking is not assigned to you');
+    }
+
+    await this.db.transaction(async (client: PoolClient) => {
+      if (!booking.provider_id) {
+        await this.bookingDispatchService.claimOffer(
+          bookingId,
+          provider.id,
+          client,
+        );
+        await this.bookingQuotesService.applyProviderCommission(
+          bookingId,
+          provider.id,
+          client,
+        );
+      }
+
+      await this.transition(
+        bookingId,
+        BookingStatus.ACCEPTED,
+        { provider_id: provider.id },
+        client,
+      );
+      await this.bookingPinsService.issuePins(bookingId, client);
+      await client.query(
+        `UPDATE providers
+         SET total_jobs = total_jobs + 1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [provider.id],
+      );
+    });
+
+    return await this.getBookingById(bookingId);
+  }
+
+  /**
+   * Reject a pending booking (Provider)
+   * Declining a dispatch offer passes the booking to the next provider.
+   */
+  async rejectBooking(
+    userId: string,
+    bookingId: string,
+  ): Promise<BookingDetails> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    const booking = await this.getBookingById(bookingId);
+
+    if (!booking.provider_id) {
+      await this.bookingDispatchService.declineOffer(bookingId, provider.id);
+      await this.dispatchNext(bookingId);
+      return await this.getBookingById(bookingId);
+    }
+
+    if (booking.provider_id !== provider.id) {
+      throw new ForbiddenException('Booking is not assigned to you');
+    }
+
+    await this.transition(bookingId, BookingStatus.REJECTED);
+    return await this.getBookingById(bookingId);
+  }
+
+  /**
+   * Start an accepted booking (Provider)
+   * Needs the customer's start PIN and the provider on site.
+   */
+  async startBooking(
+    userId: string,
+    bookingId: string,
+    startDto: StartBookingDto,
+  ): Promise<BookingDetails> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    await this.assertAssignedProvider(bookingId, provider.id);
+
+    const booking = await this.getBookingById(bookingId);
+    if (booking.status !== BookingStatus.ACCEPTED) {
+      throw new ConflictException(
+        `Cannot change booking status from ${booking.status} to ${BookingStatus.ONGOING}`,
+      );
+    }
+
+    await this.bookingPinsService.assertProviderOnSite(bookingId, provider.id);
+    await this.bookingPinsService.verifyPin(
+      bookingId,
+      provider.id,
+      'start',
+      startDto.pin,
+    );
+
+    await this.transition(bookingId, BookingStatus.ONGOING);
+    return await this.getBookingById(bookingId);
+  }
+
+  /**
+   * Start and end PINs of a booking (Customer only)
+   */
+  async getBookingPins(user: User, bookingId: string): Promise<BookingPins> {
+    const booking = await this.getBookingForUser(bookingId, user);
+
+    if (booking.customer_user_id !== user.id) {
+      throw new ForbiddenException('Only the customer can see booking PINs');
+    }
+
+    return await this.bookingPinsService.getPins(bookingId);
+  }
+
+  /**
+   * Complete an ongoing booking (Provider)
+   * The end PIN is optional unless pins.requireEndPin is set. The GST
+   * invoice is issued in the same transaction.
+   */
+  async completeBooking(
+    userId: string,
+    bookingId: string,
+    completeDto: CompleteBookingDto = {},
+  ): Promise<BookingDetails> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    await this.assertAssignedProvider(bookingId, provider.id);
+
+    if (completeDto.pin) {
+      await this.bookingPinsService.verifyPin(
+        bookingId,
+        provider.id,
+        'end',
+        completeDto.pin,
+      );
+    } else if (this.configService.get<boolean>('pins.requireEndPin', false)) {
+      throw new BadRequestException('End PIN is required');
+    }
+
+    await this.db.transaction(async (client: PoolClient) => {
+      // Holds off add-on approvals, which lock the booking before repricing
+      await client.query(`SELECT id FROM bookings WHERE id = $1 FOR UPDATE`, [
+        bookingId,
+      ]);
+
+      const openAddOn = await client.query(
+        `SELECT id FROM booking_line_items
+         WHERE booking_id = $1 AND status = 'proposed'
+         LIMIT 1`,
+        [bookingId],
+      );
+
+      if ((openAddOn.rowCount ?? 0) > 0) {
+        throw new ConflictException(
+          'Add-ons are still awaiting customer approval',
+        );
+      }
+
+      await this.transition(bookingId, BookingStatus.COMPLETED, {}, client);
+      await client.query(
+        `UPDATE bookings
+         SET final_price = COALESCE(final_price, estimated_price)
+         WHERE id = $1`,
+        [bookingId],
+      );
+      await this.loyaltyService.earnForBooking(bookingId, client);
+      await this.referralsService.rewardForBooking(bookingId, client);
+      await client.query(
+        `UPDATE providers
+         SET completed_jobs = completed_jobs + 1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [provider.id],
+      );
+      await this.invoicesService.issueInvoice(bookingId, client);
+    });
+
+    return await this.getBookingById(bookingId);
+  }
+
+  /**
+   * Preview the fee the current user would pay to cancel
+   */
+  async getCancellationQuote(
+    user: User,
+    bookingId: string,
+  ): Promise<CancellationQuote> {
+    const booking = await this.getBookingForUser(bookingId, user);
+
+    return await this.cancellationPoliciesService.quoteCancellation(
+      booking,
+      this.cancellationActorFor(booking, user),
+    );
+  }
+
+  /**
+   * Cancel a booking (Customer, assigned Provider or Admin)
+   * When a fee applies the booking is only cancelled once the caller
+   * confirms; otherwise the computed fee is returned for display.
+   */
+  async cancelBooking(
+    user: User,
+    bookingId: string,
+    cancelBookingDto: CancelBookingDto,
+  ): Promise<{
+    cancelled: boolean;
+    cancellation: CancellationQuote;
+    booking: BookingDetails;
+    refunds?: Refund[];
+  }> {
+    const booking = await this.getBookingForUser(bookingId, user);
+    const actor = this.cancellationActorFor(booking, user);
+    const cancellation =
+      await this.cancellationPoliciesService.quoteCancellation(booking, actor);
+
+    if (cancellation.fee > 0 && !cancelBookingDto.confirm) {
+      return { cancelled: false, cancellation, booking };
+    }
+
+    const refunds = await this.cancelAndRefund(bookingId, {
+      actor,
+      fee: cancellation.fee,
+      reason: cancelBookingDto.reason,
+      requested_by: user.id,
+      refund_to_wallet: cancelBookingDto.refund_to_wallet,
+    });
+
+    return {
+      cancelled: true,
+      cancellation,
+      booking: await this.getBookingById(bookingId),
+      refunds,
+    };
+  }
+
+  /**
+   * Cancel a booking, charge the fee and refund what was paid less any
+   * fee the customer owes
+   * The cancellation, the fee and the refund records commit together;
+   * gateway refunds are sent once they have.
+   */
+  async cancelAndRefund(
+    bookingId: string,
+    cancellation: {
+      actor: CancellationActor;
+      fee: number;
+      reason?: string;
+      requested_by?: string;
+      refund_to_wallet?: boolean;
+    },
+  ): Promise<Refund[]> {
+    const { actor, fee } = cancellation;
+
+    const refunds = await this.db.transaction(async (client: PoolClient) => {
+      const booking = await this.transition(
+        bookingId,
+        BookingStatus.CANCELLED,
+        {
+          cancellation_reason: cancellation.reason,
+          cancelled_by: actor,
+          cancellation_fee: fee,
+        },
+        client,
+      );
+
+      if (actor === CancellationActor.PROVIDER) {
+        await client.query(
+          `UPDATE providers
+           SET cancelled_jobs = cancelled_jobs + 1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [booking.provider_id],
+        );
+      }
+
+      await this.cancellationFeesService.chargeFee(
+        bookingId,
+        actor,
+        fee,
+        client,
+      );
+
+      return await this.refundsService.refundCancelledBooking(
+        bookingId,
+        actor === CancellationActor.CUSTOMER ? fee : 0,
+        cancellation.reason || 'Booking cancelled',
+        client,
+        cancellation.requested_by,
+        cancellation.refund_to_wallet ? 'wallet' : undefined,
+      );
+    });
+
+    return await this.refundsService.submitRefunds(refunds);
+  }
+
+  /**
+   * Move a booking to a new status
+   * The update only applies when the current status allows the transition,
+   * so concurrent requests cannot both win.
+   */
+  async transition(
+    bookingId: string,
+    to: BookingStatus,
+    fields: Record<string, any> = {},
+    client?: PoolClient,
+  ): Promise<Booking> {
+    const updates: string[] = [`status = $1`];
+    const values: any[] = [to];
+    let paramIndex = 2;
+
+    const timestampColumn = BOOKING_STATUS_TIMESTAMPS[to];
+    if (timestampColumn) {
+      updates.push(`${timestampColumn} = CURRENT_TIMESTAMP`);
+    }
+
+    Object.keys(fields).forEach((key) => {
+      if (fields[key] !== undefined) {
+        updates.push(`${key} = $${paramIndex++}`);
+        values.push(fields[key]);
+      }
+    });
+
+    updates.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(bookingId, sourceStatusesFor(to));
+
+    const query = `UPDATE bookings SET ${updates.join(', ')}
+       WHERE id = $${paramIndex++} AND status = ANY($${paramIndex})
+       RETURNING *`;
+
+    const result = client
+      ? await client.query<Booking>(query, values)
+      : await this.db.query(query, values);
+
+    if (result.rows.length === 0) {
+      const current = await this.getBookingById(bookingId);
+      throw new ConflictException(
+        `Cannot change booking status from ${current.status} to ${to}`,
+      );
+    }
+
+    // Bookings that never go ahead give their discount code and points back
+    if (to === BookingStatus.CANCELLED || to === BookingStatus.REJECTED) {
+      await this.discountsService.release(bookingId, client);
+      await this.loyaltyService.restoreForBooking(bookingId, client);
+    }
+
+    return result.rows[0] as Booking;
+  }
+
+  /**
+   * Ensure the user is the booking's customer, its provider or an admin
+   */
+  assertParticipant(booking: BookingDetails, user: User): void {
+    if (user.role === UserRole.ADMIN) {
+      return;
+    }
+
+    if (
+      booking.customer_user_id !== user.id &&
+      booking.provider_user_id !== user.id
+    ) {
+      throw new ForbiddenException('You do not have access to this booking');
+    }
+  }
+
+  /**
+   * Who is cancelling: admin, the booking's customer or its provider
+   */
+  private cancellationActorFor(
+    booking: BookingDetails,
+    user: User,
+  ): CancellationActor {
+    if (user.role === UserRole.ADMIN) {
+      return CancellationActor.ADMIN;
+    }
+
+    return booking.customer_user_id === user.id
+      ? CancellationActor.CUSTOMER
+      : CancellationActor.PROVIDER;
+  }
+
+  /**
+   * Ensure the provider is assigned to the booking
+   */
+  private async assertAssignedProvider(
+    bookingId: string,
+    providerId: string,
+  ): Promise<BookingDetails> {
+    const booking = await this.getBookingById(bookingId);
+
+    if (booking.provider_id !== providerId) {
+      throw new ForbiddenException('Booking is not assigned to you');
+    }
+
+    return booking;
+  }
+
+  /**
+   * Resolve service location from a saved address or coordinates
+   */
+  async resolveServiceLocation(
+    userId: string,
+    locationInput: {
+      address_id?: string;
+      latitude?: number;
+      longitude?: number;
+    },
+  ): Promise<{ latitude: number; longitude: number }> {
+    const { address_id, latitude, longitude } = locationInput;
+
+    if (latitude !== undefined && longitude !== undefined) {
+      return { latitude, longitude };
+    }
+
+    if (!address_id) {
+      throw new BadRequestException(
+        'Either address_id or latitude/longitude is required',
+      );
+    }
+
+    const address = await this.db.queryOne<{
+      latitude: number;
+      longitude: number;
+    }>(
+      `SELECT
+        ST_Y(location::geometry) as latitude,
+        ST_X(location::geometry) as longitude
+       FROM addresses
+       WHERE id = $1 AND user_id = $2`,
+      [address_id, userId],
+    );
+
+    if (!address) {
+      throw new NotFoundException('Address not found');
+    }
+
+    return address;
+  }
+
+  /**
+   * Paginated booking list with optional status filter
+   */
+  private async paginateBookings(
+    conditions: string[],
+    values: unknown[],
+    page: number,
+    limit: number,
+    status?: BookingStatus,
+  ): Promise<{
+    bookings: BookingDetails[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+    const whereConditions = [...conditions];
+    const params = [...values];
+
+    if (status) {
+      params.push(status);
+      whereConditions.push(`b.status = $${params.length}`);
+    }
+
+    const whereClause =
+      whereConditions.length > 0
+        ? `WHERE ${whereConditions.join(' AND ')}`
+        : '';
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count
+       FROM bookings b
+       JOIN customers c ON b.customer_id = c.id
+       LEFT JOIN providers p ON b.provider_id = p.id
+       ${whereClause}`,
+      params,
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const bookings = await this.db.queryMany<BookingDetails>(
+      `${BOOKING_DETAILS_SELECT}
+       ${whereClause}
+       ORDER BY b.created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset],
+    );
+
+    return {
+      bookings,
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Human-friendly booking reference, e.g. SG2406150123456
+   */
+  private generateBookingNumber(): string {
+    const suffix = randomInt(0, 10_000_000).toString().padStart(7, '0');
+    return `SG${format(new Date(), 'yyMMdd')}${suffix}`;
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { CancellationPoliciesService } from './cancellation-policies.service';
+import { CreateCancellationPolicyDto } from './dto/create-cancellation-policy.dto';
+import { UpdateCancellationPolicyDto } from './dto/update-cancellation-policy.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('bookings/cancellation-policies')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CancellationPoliciesController {
+  constructor(
+    private cancellationPoliciesService: CancellationPoliciesService,
+  ) {}
+
+  // ==================== ADMIN ENDPOINTS ====================
+
+  /**
+   * GET /api/v1/bookings/cancellation-policies
+   * Get all cancellation policies (Admin only)
+   */
+  @Roles(UserRole.ADMIN)
+  @Get()
+  async getAllPolicies() {
+    const policies = await this.cancellationPoliciesService.getAllPolicies();
+    return ResponseUtil.success(policies);
+  }
+
+  /**
+   * POST /api/v1/bookings/cancellation-policies
+   * Create cancellation policy (Admin only)
+   */
+  @Roles(UserRole.ADMIN)
+  @Post()
+  async createPolicy(@Body() createDto: CreateCancellationPolicyDto) {
+    const policy =
+      await this.cancellationPoliciesService.createPolicy(createDto);
+    return ResponseUtil.success(policy, 'Cancellation policy created');
+  }
+
+  /**
+   * PUT /api/v1/bookings/cancellation-policies/:id
+   * Update cancellation policy (Admin only)
+   */
+  @Roles(UserRole.ADMIN)
+  @Put(':id')
+  async updatePolicy(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateCancellationPolicyDto,
+  ) {
+    const policy = await this.cancellationPoliciesService.updatePolicy(
+      id,
+      updateDto,
+    );
+    return ResponseUtil.success(policy, 'Cancellation policy updated');
+  }
+
+  /**
+   * DELETE /api/v1/bookings/cancellation-policies/:id
+   * Delete cancellation policy (Admin only)
+   */
+  @Roles(UserRole.ADMIN)
+  @Delete(':id')
+  async deletePolicy(@Param('id') id: string) {
+    await this.cancellationPoliciesService.deletePolicy(id);
+    return ResponseUtil.success(null, 'Cancellation policy deleted');
+  }
+}
@@ -0,0 +1,209 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { subHours } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import { BookingStatus, CancellationActor } from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { CreateCancellationPolicyDto } from './dto/create-cancellation-policy.dto';
+import { UpdateCancellationPolicyDto } from './dto/update-cancellation-policy.dto';
+import { BookingDetails } from './bookings.service';
+
+export type CancellationFeeType = 'flat' | 'percentage';
+
+export interface CancellationPolicy {
+  id: string;
+  name: string;
+  category_id?: string;
+  actor: CancellationActor;
+  free_until_hours: number;
+  fee_type: CancellationFeeType;
+  fee_value: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CancellationQuote {
+  booking_id: string;
+  actor: CancellationActor;
+  fee: number;
+  free_until?: Date;
+  policy_id?: string;
+  policy_name?: string;
+}
+
+@Injectable()
+export class CancellationPoliciesService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Get all cancellation policies (Admin only)
+   */
+  async getAllPolicies(): Promise<CancellationPolicy[]> {
+    return await this.db.queryMany<CancellationPolicy>(
+      `SELECT * FROM cancellation_policies
+       ORDER BY category_id NULLS FIRST, actor, created_at DESC`,
+    );
+  }
+
+  /**
+   * Create cancellation policy (Admin only)
+   */
+  async createPolicy(
+    createDto: CreateCancellationPolicyDto,
+  ): Promise<CancellationPolicy> {
+    const {
+      name,
+      category_id,
+      actor,
+      free_until_hours,
+      fee_type,
+      fee_value,
+      is_active,
+    } = createDto;
+
+    const policy = await this.db.queryOne<CancellationPolicy>(
+      `INSERT INTO cancellation_policies (
+        name, category_id, actor, free_until_hours, fee_type, fee_value, is_active
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        name,
+        category_id,
+        actor,
+        free_until_hours,
+        fee_type,
+        fee_value,
+        is_active ?? true,
+      ],
+    );
+
+    return policy!;
+  }
+
+  /**
+   * Update cancellation policy (Admin only)
+   */
+  async updatePolicy(
+    id: string,
+    updateDto: UpdateCancellationPolicyDto,
+  ): Promise<CancellationPolicy> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramIndex = 1;
+
+    Object.keys(updateDto).forEach((key) => {
+      if (updateDto[key] !== undefined) {
+        updates.push(`${key} = $${paramIndex++}`);
+        values.push(updateDto[key]);
+      }
+    });
+
+    updates.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const policy = await this.db.queryOne<CancellationPolicy>(
+      `UPDATE cancellation_policies SET ${updates.join(', ')}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values,
+    );
+
+    if (!policy) {
+      throw new NotFoundException('Cancellation policy not found');
+    }
+
+    return policy;
+  }
+
+  /**
+   * Delete cancellation policy (Admin only)
+   */
+  async deletePolicy(id: string): Promise<void> {
+    const deleted = await this.db.queryOne<{ id: string }>(
+      `DELETE FROM cancellation_policies WHERE id = $1 RETURNING id`,
+      [id],
+    );
+
+    if (!deleted) {
+      throw new NotFoundException('Cancellation policy not found');
+    }
+  }
+
+  /**
+   * Compute the fee for cancelling a booking right now
+   * Admin and system cancellations are always free.
+   */
+  async quoteCancellation(
+    booking: BookingDetails,
+    actor: CancellationActor,
+  ): Promise<CancellationQuote> {
+    const quote: CancellationQuote = {
+      booking_id: booking.id,
+      actor,
+      fee: 0,
+    };
+
+    if (
+      actor !== CancellationActor.CUSTOMER &&
+      actor !== CancellationActor.PROVIDER
+    ) {
+      return quote;
+    }
+
+    const policy = await this.resolvePolicy(booking.category_id, actor);
+    if (!policy) {
+      return quote;
+    }
+
+    quote.policy_id = policy.id;
+    quote.policy_name = policy.name;
+
+    // Scheduled jobs are free until X hours before the slot;
+    // instant jobs are free until a provider accepts them
+    let freeUntil: Date | undefined;
+    if (booking.scheduled_at) {
+      freeUntil = subHours(
+        new Date(booking.scheduled_at),
+        MoneyUtil.toNumber(policy.free_until_hours),
+      );
+    } else if (booking.status !== BookingStatus.PENDING) {
+      freeUntil = booking.accepted_at
+        ? new Date(booking.accepted_at)
+        : new Date();
+    }
+
+    quote.free_until = freeUntil;
+
+    if (!freeUntil || new Date() <= freeUntil) {
+      return quote;
+    }
+
+    const price = MoneyUtil.toNumber(booking.estimated_price);
+    const fee =
+      policy.fee_type === 'percentage'
+        ? MoneyUtil.percentage(price, MoneyUtil.toNumber(policy.fee_value))
+        : MoneyUtil.toNumber(policy.fee_value);
+
+    quote.fee = MoneyUtil.round(Math.min(fee, price));
+    return quote;
+  }
+
+  /**
+   * Category-specific policy first, then the platform default
+   */
+  private async resolvePolicy(
+    categoryId: string,
+    actor: CancellationActor,
+  ): Promise<CancellationPolicy | null> {
+    return await this.db.queryOne<CancellationPolicy>(
+      `SELECT * FROM cancellation_policies
+       WHERE is_active = true
+         AND actor = $2
+         AND (category_id = $1 OR category_id IS NULL)
+       ORDER BY category_id NULLS LAST, updated_at DESC
+       LIMIT 1`,
+      [categoryId, actor],
+    );
+  }
+}
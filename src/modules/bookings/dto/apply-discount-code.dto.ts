@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ApplyDiscountCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(30)
+  code: string;
+}
@@ -0,0 +1,15 @@
+import { IsUUID, IsDateString } from 'class-validator';
+
+export class AvailableSlotsQueryDto {
+  @IsUUID()
+  provider_id: string;
+
+  @IsUUID()
+  service_id: string;
+
+  @IsDateString()
+  from: string;
+
+  @IsDateString()
+  to: string;
+}
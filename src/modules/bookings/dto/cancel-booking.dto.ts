@@ -0,0 +1,18 @@
+import { IsString, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+
+export class CancelBookingDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  // Required when a cancellation fee applies
+  @IsOptional()
+  @IsBoolean()
+  confirm?: boolean;
+
+  // Refund to the wallet instead of the original payment method
+  @IsOptional()
+  @IsBoolean()
+  refund_to_wallet?: boolean;
+}
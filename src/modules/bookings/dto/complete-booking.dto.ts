@@ -0,0 +1,7 @@
+import { IsOptional, Matches } from 'class-validator';
+
+export class CompleteBookingDto {
+  @IsOptional()
+  @Matches(/^\d{4}$/, { message: 'pin must be 4 digits' })
+  pin?: string;
+}
@@ -0,0 +1,63 @@
+import {
+  IsUUID,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import type { SeriesFrequency } from '../booking-series.service';
+
+export const SERIES_FREQUENCIES: SeriesFrequency[] = [
+  'weekly',
+  'biweekly',
+  'monthly',
+];
+
+export class CreateBookingSeriesDto {
+  @IsUUID()
+  service_id: string;
+
+  @IsUUID()
+  provider_id: string;
+
+  @IsIn(SERIES_FREQUENCIES)
+  frequency: SeriesFrequency;
+
+  // First occurrence; later ones keep its weekday and time
+  @IsDateString()
+  starts_at: string;
+
+  @IsOptional()
+  @IsDateString()
+  ends_at?: string;
+
+  @IsOptional()
+  @IsUUID()
+  address_id?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  special_instructions?: string;
+}
@@ -0,0 +1,56 @@
+import {
+  IsUUID,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateBookingDto {
+  // Quote from POST /bookings/quote; the booking is charged its total
+  @IsOptional()
+  @IsUUID()
+  quote_id?: string;
+
+  @IsUUID()
+  service_id: string;
+
+  // Omit to dispatch the booking to nearby providers automatically
+  @IsOptional()
+  @IsUUID()
+  provider_id?: string;
+
+  @IsOptional()
+  @IsUUID()
+  address_id?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  // Scheduled bookings need a provider; omit for "book now"
+  @IsOptional()
+  @IsDateString()
+  scheduled_at?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  special_instructions?: string;
+}
@@ -0,0 +1,38 @@
+import {
+  IsString,
+  IsUUID,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+  Min,
+} from 'class-validator';
+import { CancellationActor } from '../../../types/database.types';
+
+export class CreateCancellationPolicyDto {
+  @IsString()
+  name: string;
+
+  // Omit for the platform-wide default
+  @IsOptional()
+  @IsUUID()
+  category_id?: string;
+
+  @IsIn([CancellationActor.CUSTOMER, CancellationActor.PROVIDER])
+  actor: CancellationActor;
+
+  @IsNumber()
+  @Min(0)
+  free_until_hours: number;
+
+  @IsIn(['flat', 'percentage'])
+  fee_type: 'flat' | 'percentage';
+
+  @IsNumber()
+  @Min(0)
+  fee_value: number;
+
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
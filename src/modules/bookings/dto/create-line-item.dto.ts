@@ -0,0 +1,30 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+
+export class CreateLineItemDto {
+  @IsString()
+  @MaxLength(500)
+  description: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(1000)
+  quantity: number;
+
+  // Labour price per unit
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  unit_price: number;
+
+  // Parts bought for the job, passed through without commission
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  material_cost?: number;
+}
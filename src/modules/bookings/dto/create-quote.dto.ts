@@ -0,0 +1,27 @@
+import { IsUUID, IsNumber, IsOptional, Min, Max } from 'class-validator';
+
+export class CreateQuoteDto {
+  @IsUUID()
+  service_id: string;
+
+  // Omit to price an instant booking before a provider is found
+  @IsOptional()
+  @IsUUID()
+  provider_id?: string;
+
+  @IsOptional()
+  @IsUUID()
+  address_id?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+}
@@ -0,0 +1,11 @@
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateRescheduleRequestDto {
+  @IsDateString()
+  scheduled_at: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,8 @@
+import { IsInt, Min } from 'class-validator';
+
+export class RedeemPointsDto {
+  // Zero takes redeemed points off the quote
+  @IsInt()
+  @Min(0)
+  points: number;
+}
@@ -0,0 +1,6 @@
+import { Matches } from 'class-validator';
+
+export class StartBookingDto {
+  @Matches(/^\d{4}$/, { message: 'pin must be 4 digits' })
+  pin: string;
+}
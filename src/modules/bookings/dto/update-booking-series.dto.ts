@@ -0,0 +1,38 @@
+import {
+  IsUUID,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsDateString,
+  MaxLength,
+} from 'class-validator';
+import type { SeriesFrequency } from '../booking-series.service';
+import { SERIES_FREQUENCIES } from './create-booking-series.dto';
+
+export class UpdateBookingSeriesDto {
+  @IsOptional()
+  @IsUUID()
+  provider_id?: string;
+
+  @IsOptional()
+  @IsIn(SERIES_FREQUENCIES)
+  frequency?: SeriesFrequency;
+
+  @IsOptional()
+  @IsDateString()
+  starts_at?: string;
+
+  @IsOptional()
+  @IsDateString()
+  ends_at?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  special_instructions?: string;
+}
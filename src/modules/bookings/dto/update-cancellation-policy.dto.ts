@@ -0,0 +1,32 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+  Min,
+} from 'class-validator';
+
+export class UpdateCancellationPolicyDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  free_until_hours?: number;
+
+  @IsOptional()
+  @IsIn(['flat', 'percentage'])
+  fee_type?: 'flat' | 'percentage';
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fee_value?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
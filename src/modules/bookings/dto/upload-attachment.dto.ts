@@ -0,0 +1,7 @@
+import { IsIn } from 'class-validator';
+import type { AttachmentKind } from '../booking-attachments.service';
+
+export class UploadAttachmentDto {
+  @IsIn(['before', 'after'])
+  kind: AttachmentKind;
+}
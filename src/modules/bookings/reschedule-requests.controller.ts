@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { RescheduleRequestsService } from './reschedule-requests.service';
+import { CreateRescheduleRequestDto } from './dto/create-reschedule-request.dto';
+import { RespondRescheduleRequestDto } from './dto/respond-reschedule-request.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('bookings/:bookingId/reschedule-requests')
+@UseGuards(JwtAuthGuard)
+export class RescheduleRequestsController {
+  constructor(private rescheduleRequestsService: RescheduleRequestsService) {}
+
+  /**
+   * POST /api/v1/bookings/:bookingId/reschedule-requests
+   * Propose a new time (Customer or Provider)
+   */
+  @Post()
+  async createRequest(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+    @Body() createDto: CreateRescheduleRequestDto,
+  ) {
+    const request = await this.rescheduleRequestsService.createRequest(
+      user,
+      bookingId,
+      createDto,
+    );
+    return ResponseUtil.success(request, 'Reschedule request sent');
+  }
+
+  /**
+   * GET /api/v1/bookings/:bookingId/reschedule-requests
+   * Get reschedule history
+   */
+  @Get()
+  async getRequests(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+  ) {
+    const requests = await this.rescheduleRequestsService.getRequests(
+      user,
+      bookingId,
+    );
+    return ResponseUtil.success(requests);
+  }
+
+  /**
+   * PUT /api/v1/bookings/:bookingId/reschedule-requests/:requestId/accept
+   * Accept the proposed time (other party)
+   */
+  @Put(':requestId/accept')
+  async acceptRequest(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+    @Param('requestId') requestId: string,
+  ) {
+    const booking = await this.rescheduleRequestsService.acceptRequest(
+      user,
+      bookingId,
+      requestId,
+    );
+    return ResponseUtil.success(booking, 'Booking rescheduled');
+  }
+
+  /**
+   * PUT /api/v1/bookings/:bookingId/reschedule-requests/:requestId/decline
+   * Decline the proposed time (other party)
+   */
+  @Put(':requestId/decline')
+  async declineRequest(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+    @Param('requestId') requestId: string,
+    @Body() respondDto: RespondRescheduleRequestDto,
+  ) {
+    const request = await this.rescheduleRequestsService.declineRequest(
+      user,
+      bookingId,
+      requestId,
+      respondDto,
+    );
+    return ResponseUtil.success(request, 'Reschedule request declined');
+  }
+}
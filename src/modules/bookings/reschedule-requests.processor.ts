@@ -0,0 +1,21 @@
+import { Process, Processor } from '@nestjs/bull';
+import type { Job } from 'bull';
+import {
+  RescheduleRequestsService,
+  BOOKING_RESCHEDULE_QUEUE,
+  EXPIRE_RESCHEDULE_JOB,
+  ExpireRescheduleJob,
+} from './reschedule-requests.service';
+
+@Processor(BOOKING_RESCHEDULE_QUEUE)
+export class RescheduleRequestsProcessor {
+  constructor(private rescheduleRequestsService: RescheduleRequestsService) {}
+
+  /**
+   * Response deadline passed
+   */
+  @Process(EXPIRE_RESCHEDULE_JOB)
+  async handleExpiry(job: Job<ExpireRescheduleJob>) {
+    await this.rescheduleRequestsService.expireRequest(job.data.requestId);
+  }
+}
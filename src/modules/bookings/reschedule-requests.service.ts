@@ -0,0 +1,345 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { PoolClient } from 'pg';
+import { addHours, min } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import { BookingStatus, User } from '../../types/database.types';
+import { BookingsService, BookingDetails } from './bookings.service';
+import { AvailabilityService } from './availability.service';
+import { CreateRescheduleRequestDto } from './dto/create-reschedule-request.dto';
+import { RespondRescheduleRequestDto } from './dto/respond-reschedule-request.dto';
+
+export const BOOKING_RESCHEDULE_QUEUE = 'booking-reschedule';
+export const EXPIRE_RESCHEDULE_JOB = 'expire-reschedule-request';
+
+export type RescheduleRequestStatus =
+  | 'pending'
+  | 'accepted'
+  | 'declined'
+  | 'expired';
+
+export interface RescheduleRequest {
+  id: string;
+  booking_id: string;
+  requested_by: string;
+  requested_by_role: 'customer' | 'provider';
+  previous_scheduled_at: Date;
+  proposed_scheduled_at: Date;
+  reason?: string;
+  status: RescheduleRequestStatus;
+  expires_at: Date;
+  responded_by?: string;
+  responded_at?: Date;
+  response_reason?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ExpireRescheduleJob {
+  requestId: string;
+}
+
+/**
+ * Only bookings that have not started can move
+ */
+const RESCHEDULABLE_STATUSES = [BookingStatus.PENDING, BookingStatus.ACCEPTED];
+
+@Injectable()
+export class RescheduleRequestsService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private bookingsService: BookingsService,
+    private availabilityService: AvailabilityService,
+    @InjectQueue(BOOKING_RESCHEDULE_QUEUE) private rescheduleQueue: Queue,
+  ) {}
+
+  /**
+   * Propose a new time for a booking (Customer or Provider)
+   */
+  async createRequest(
+    user: User,
+    bookingId: string,
+    createDto: CreateRescheduleRequestDto,
+  ): Promise<RescheduleRequest> {
+    const booking = await this.bookingsService.getBookingForUser(
+      bookingId,
+      user,
+    );
+    const role = this.partyRole(booking, user);
+    this.assertReschedulable(booking);
+
+    const proposed = new Date(createDto.scheduled_at);
+    const current = new Date(booking.scheduled_at!);
+
+    if (proposed.getTime() === current.getTime()) {
+      throw new BadRequestException('Proposed time is the current time');
+    }
+
+    // Requests lapse after the configured window, or when the original
+    // slot arrives, whichever is sooner
+    const expiresAt = min([
+      addHours(
+        new Date(),
+        this.configService.get<number>('scheduling.rescheduleExpiryHours', 24),
+      ),
+      current,
+    ]);
+
+    const request = await this.db.transaction(async (client: PoolClient) => {
+      // Locking the booking serialises requests for it; locking the open
+      // requests alone would lock nothing when there are none
+      await client.query(`SELECT id FROM bookings WHERE id = $1 FOR UPDATE`, [
+        bookingId,
+      ]);
+
+      const open = await client.query(
+        `SELECT id FROM booking_reschedule_requests
+         WHERE booking_id = $1 AND status = 'pending' AND expires_at > CURRENT_TIMESTAMP`,
+        [bookingId],
+      );
+
+      if ((open.rowCount ?? 0) > 0) {
+        throw new ConflictException(
+          'A reschedule request is already awaiting a response',
+        );
+      }
+
+      await this.availabilityService.assertSlotBookable(
+        booking.provider_id!,
+        booking.service_id,
+        proposed,
+        client,
+        booking.id,
+      );
+
+      const result = await client.query<RescheduleRequest>(
+        `INSERT INTO booking_reschedule_requests (
+          booking_id, requested_by, requested_by_role, previous_scheduled_at,
+          proposed_scheduled_at, reason, status, expires_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, 'pending', $7)
+         RETURNING *`,
+        [
+          bookingId,
+          user.id,
+          role,
+          current,
+          proposed,
+          createDto.reason,
+          expiresAt,
+        ],
+      );
+
+      return result.rows[0];
+    });
+
+    await this.rescheduleQueue.add(
+      EXPIRE_RESCHEDULE_JOB,
+      { requestId: request.id } satisfies ExpireRescheduleJob,
+      {
+        jobId: request.id,
+        delay: Math.max(expiresAt.getTime() - Date.now(), 0),
+        removeOnComplete: true,
+      },
+    );
+
+    return request;
+  }
+
+  /**
+   * Get reschedule history of a booking
+   */
+  async getRequests(
+    user: User,
+    bookingId: string,
+  ): Promise<RescheduleRequest[]> {
+    await this.bookingsService.getBookingForUser(bookingId, user);
+
+    return await this.db.queryMany<RescheduleRequest>(
+      `SELECT * FROM booking_reschedule_requests
+       WHERE booking_id = $1
+       ORDER BY created_at DESC`,
+      [bookingId],
+    );
+  }
+
+  /**
+   * Accept a reschedule request (counter-party only)
+   * The slot is re-validated under the provider lock before the booking moves.
+   */
+  async acceptRequest(
+    user: User,
+    bookingId: string,
+    requestId: string,
+  ): Promise<BookingDetails> {
+    const booking = await this.bookingsService.getBookingForUser(
+      bookingId,
+      user,
+    );
+    const role = this.partyRole(booking, user);
+    this.assertReschedulable(booking);
+
+    await this.db.transaction(async (client: PoolClient) => {
+      const request = await this.lockPendingRequest(
+        bookingId,
+        requestId,
+        role,
+        client,
+      );
+
+      await this.availabilityService.assertSlotBookable(
+        booking.provider_id!,
+        booking.service_id,
+        new Date(request.proposed_scheduled_at),
+        client,
+        booking.id,
+      );
+
+      const moved = await client.query(
+        `UPDATE bookings
+         SET scheduled_at = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = ANY($3)`,
+        [request.proposed_scheduled_at, bookingId, RESCHEDULABLE_STATUSES],
+      );
+
+      if ((moved.rowCount ?? 0) === 0) {
+        throw new ConflictException('Booking can no longer be rescheduled');
+      }
+
+      await client.query(
+        `UPDATE booking_reschedule_requests
+         SET status = 'accepted', responded_by = $1,
+             responded_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [user.id, requestId],
+      );
+    });
+
+    return await this.bookingsService.getBookingById(bookingId);
+  }
+
+  /**
+   * Decline a reschedule request (counter-party only)
+   */
+  async declineRequest(
+    user: User,
+    bookingId: string,
+    requestId: string,
+    respondDto: RespondRescheduleRequestDto,
+  ): Promise<RescheduleRequest> {
+    const booking = await this.bookingsService.getBookingForUser(
+      bookingId,
+      user,
+    );
+    const role = this.partyRole(booking, user);
+
+    return await this.db.transaction(async (client: PoolClient) => {
+      await this.lockPendingRequest(bookingId, requestId, role, client);
+
+      const result = await client.query<RescheduleRequest>(
+        `UPDATE booking_reschedule_requests
+         SET status = 'declined', responded_by = $1, response_reason = $2,
+             responded_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3
+         RETURNING *`,
+        [user.id, respondDto.reason, requestId],
+      );
+
+      return result.rows[0];
+    });
+  }
+
+  /**
+   * Expire a request whose deadline has passed
+   */
+  async expireRequest(requestId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE booking_reschedule_requests
+       SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'pending' AND expires_at <= CURRENT_TIMESTAMP`,
+      [requestId],
+    );
+  }
+
+  /**
+   * Lock a pending request the caller is allowed to answer
+   */
+  private async lockPendingRequest(
+    bookingId: string,
+    requestId: string,
+    role: 'customer' | 'provider',
+    client: PoolClient,
+  ): Promise<RescheduleRequest> {
+    const result = await client.query<RescheduleRequest>(
+      `SELECT * FROM booking_reschedule_requests
+       WHERE id = $1 AND booking_id = $2
+       FOR UPDATE`,
+      [requestId, bookingId],
+    );
+    const request = result.rows[0];
+
+    if (!request) {
+      throw new NotFoundException('Reschedule request not found');
+    }
+
+    if (request.requested_by_role === role) {
+      throw new ForbiddenException(
+        'Only the other party can respond to this request',
+      );
+    }
+
+    if (
+      request.status !== 'pending' ||
+      new Date(request.expires_at) <= new Date()
+    ) {
+      throw new ConflictException(
+        `Reschedule request is no longer pending (${request.status === 'pending' ? 'expired' : request.status})`,
+      );
+    }
+
+    return request;
+  }
+
+  /**
+   * Which side of the booking the user is on
+   */
+  private partyRole(
+    booking: BookingDetails,
+    user: User,
+  ): 'customer' | 'provider' {
+    if (booking.customer_user_id === user.id) {
+      return 'customer';
+    }
+
+    if (booking.provider_user_id === user.id) {
+      return 'provider';
+    }
+
+    throw new ForbiddenException(
+      'Only the customer or provider can reschedule a booking',
+    );
+  }
+
+  private assertReschedulable(booking: BookingDetails): void {
+    if (!booking.scheduled_at || !booking.provider_id) {
+      throw new BadRequestException(
+        'Only scheduled bookings with a provider can be rescheduled',
+      );
+    }
+
+    if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+      throw new ConflictException(
+        `Cannot reschedule a booking that is ${booking.status}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { occurrencesBetween } from './series-occurrences';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('occurrencesBetween', () => {
+  const startsAt = new Date('2026-01-05T04:30:00Z');
+
+  it('repeats weekly from the start', () => {
+    expect(
+      iso(
+        occurrencesBetween(
+          { frequency: 'weekly', starts_at: startsAt },
+          new Date('2026-01-10T00:00:00Z'),
+          new Date('2026-01-26T04:30:00Z'),
+        ),
+      ),
+    ).toEqual([
+      '2026-01-12T04:30:00.000Z',
+      '2026-01-19T04:30:00.000Z',
+      '2026-01-26T04:30:00.000Z',
+    ]);
+  });
+
+  it('repeats every other week for biweekly series', () => {
+    expect(
+      iso(
+        occurrencesBetween(
+          { frequency: 'biweekly', starts_at: startsAt },
+          startsAt,
+          new Date('2026-02-01T00:00:00Z'),
+        ),
+      ),
+    ).toEqual(['2026-01-05T04:30:00.000Z', '2026-01-19T04:30:00.000Z']);
+  });
+
+  it('keeps a monthly series on the 31st where the month has one', () => {
+    const dates = occurrencesBetween(
+      { frequency: 'monthly', starts_at: new Date(2026, 0, 31, 10, 0) },
+      new Date(2026, 0, 1),
+      new Date(2026, 4, 31, 23, 59),
+    );
+
+    expect(dates.map((date) => date.getDate())).toEqual([31, 28, 31, 30, 31]);
+  });
+
+  it('stops at ends_at', () => {
+    expect(
+      iso(
+        occurrencesBetween(
+          {
+            frequency: 'weekly',
+            starts_at: startsAt,
+            ends_at: new Date('2026-01-19T00:00:00Z'),
+          },
+          startsAt,
+          new Date('2026-03-01T00:00:00Z'),
+        ),
+      ),
+    ).toEqual(['2026-01-05T04:30:00.000Z', '2026-01-12T04:30:00.000Z']);
+  });
+});
@@ -0,0 +1,35 @@
+import { addMonths, addWeeks } from 'date-fns';
+import type { BookingSeries } from './booking-series.service';
+
+/**
+ * Occurrence times of a series within [from, to]
+ * Each occurrence is counted from the start, so a monthly series started
+ * on the 31st falls on the last day of shorter months and returns to the
+ * 31st after them.
+ */
+export function occurrencesBetween(
+  series: Pick<BookingSeries, 'frequency' | 'starts_at' | 'ends_at'>,
+  from: Date,
+  to: Date,
+): Date[] {
+  const anchor = new Date(series.starts_at);
+  const endsAt = series.ends_at ? new Date(series.ends_at) : undefined;
+  const dates: Date[] = [];
+
+  for (let n = 0; ; n++) {
+    const at =
+      series.frequency === 'monthly'
+        ? addMonths(anchor, n)
+        : addWeeks(anchor, series.frequency === 'biweekly' ? 2 * n : n);
+
+    if (at > to || (endsAt && at > endsAt)) {
+      break;
+    }
+
+    if (at >= from) {
+      dates.push(at);
+    }
+  }
+
+  return dates;
+}
@@ -0,0 +1,28 @@
+import { CommissionType } from '../../types/database.types';
+import { commissionFor } from './commission';
+
+describe('commissionFor', () => {
+  it('charges a percentage of the amount', () => {
+    expect(
+      commissionFor(999, { type: CommissionType.PERCENTAGE, rate: 15 }),
+    ).toBe(149.85);
+  });
+
+  it('charges a flat fee but never more than the job', () => {
+    const terms = { type: CommissionType.FLAT, amount: 120 };
+    expect(commissionFor(1000, terms)).toBe(120);
+    expect(commissionFor(80, terms)).toBe(80);
+  });
+
+  it('keeps a capped percentage between its min and max', () => {
+    const terms = {
+      type: CommissionType.CAPPED_PERCENTAGE,
+      rate: 10,
+      min_amount: 50,
+      max_amount: 300,
+    };
+    expect(commissionFor(200, terms)).toBe(50);
+    expect(commissionFor(1500, terms)).toBe(150);
+    expect(commissionFor(10000, terms)).toBe(300);
+  });
+});
@@ -0,0 +1,29 @@
+import { CommissionTerms, CommissionType } from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+
+/**
+ * Platform fee on a commissionable amount
+ * The fee never exceeds the amount it is taken from.
+ */
+export function commissionFor(amount: number, terms: CommissionTerms): number {
+  let fee: number;
+
+  switch (terms.type) {
+    case CommissionType.FLAT:
+      fee = terms.amount ?? 0;
+      break;
+    case CommissionType.CAPPED_PERCENTAGE:
+      fee = Math.min(
+        Math.max(
+          MoneyUtil.percentage(amount, terms.rate ?? 0),
+          terms.min_amount ?? 0,
+        ),
+        terms.max_amount ?? Infinity,
+      );
+      break;
+    default:
+      fee = MoneyUtil.percentage(amount, terms.rate ?? 0);
+  }
+
+  return MoneyUtil.round(Math.min(Math.max(fee, 0), Math.max(amount, 0)));
+}
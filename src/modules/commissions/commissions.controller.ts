@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseBoolPipe,
+} from '@nestjs/common';
+import { CommissionsService } from './commissions.service';
+import { CreateCommissionRuleDto } from './dto/create-commission-rule.dto';
+import { UpdateCommissionRuleDto } from './dto/update-commission-rule.dto';
+import { PreviewCommissionDto } from './dto/preview-commission.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('commission-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CommissionsController {
+  constructor(private commissionsService: CommissionsService) {}
+
+  /**
+   * GET /api/v1/commission-rules
+   * Get commission rules (Admin only)
+   * Query params: active (optional, only rules in effect now)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get()
+  async getRules(
+    @Query('active', new DefaultValuePipe(false), ParseBoolPipe)
+    active: boolean,
+  ) {
+    const rules = await this.commissionsService.getRules(active);
+    return ResponseUtil.success(rules);
+  }
+
+  /**
+   * POST /api/v1/commission-rules
+   * Create a commission rule (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post()
+  async createRule(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreateCommissionRuleDto,
+  ) {
+    const rule = await this.commissionsService.createRule(user.id, createDto);
+    return ResponseUtil.success(rule, 'Commission rule created');
+  }
+
+  /**
+   * POST /api/v1/commission-rules/preview
+   * Show what a provider would earn on a job (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post('preview')
+  async preview(@Body() previewDto: PreviewCommissionDto) {
+    const preview = await this.commissionsService.preview(previewDto);
+    return ResponseUtil.success(preview);
+  }
+
+  /**
+   * GET /api/v1/commission-rules/:id
+   * Get a commission rule (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get(':id')
+  async getRule(@Param('id') id: string) {
+    const rule = await this.commissionsService.getRule(id);
+    return ResponseUtil.success(rule);
+  }
+
+  /**
+   * PUT /api/v1/commission-rules/:id
+   * Rename a rule or set when it ends (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Put(':id')
+  async updateRule(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateCommissionRuleDto,
+  ) {
+    const rule = await this.commissionsService.updateRule(id, updateDto);
+    return ResponseUtil.success(rule, 'Commission rule updated');
+  }
+}
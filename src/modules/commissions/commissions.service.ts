@@ -0,0 +1,319 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../../database/database.service';
+import {
+  CommissionRule,
+  CommissionTerms,
+  CommissionType,
+  ProviderTier,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { commissionFor } from './commission';
+import { CreateCommissionRuleDto } from './dto/create-commission-rule.dto';
+import { UpdateCommissionRuleDto } from './dto/update-commission-rule.dto';
+import { PreviewCommissionDto } from './dto/preview-commission.dto';
+
+export interface CommissionScope {
+  service_id: string;
+  city?: string;
+  provider_id?: string | null;
+}
+
+export interface AppliedCommission {
+  // Unset when no rule matched and the platform default applied
+  rule_id?: string;
+  terms: CommissionTerms;
+}
+
+export interface CommissionPreview extends AppliedCommission {
+  rule?: CommissionRule;
+  provider_tier?: ProviderTier;
+  job_amount: number;
+  platform_fee: number;
+  provider_earnings: number;
+}
+
+const NUMERIC_FIELDS: Exclude<keyof CommissionTerms, 'type'>[] = [
+  'rate',
+  'amount',
+  'min_amount',
+  'max_amount',
+];
+
+@Injectable()
+export class CommissionsService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a commission rule (Admin only)
+   */
+  async createRule(
+    userId: string,
+    createDto: CreateCommissionRuleDto,
+  ): Promise<CommissionRule> {
+    this.assertTerms(createDto);
+
+    const effectiveFrom = createDto.effective_from
+      ? new Date(createDto.effective_from)
+      : new Date();
+    if (
+      createDto.effective_until &&
+      new Date(createDto.effective_until) <= effectiveFrom
+    ) {
+      throw new BadRequestException(
+        'effective_until must be after effective_from',
+      );
+    }
+
+    const rule = await this.db.queryOne<CommissionRule>(
+      `INSERT INTO commission_rules (
+        name, category_id, service_id, city, provider_tier, type, rate,
+        amount, min_amount, max_amount, effective_from, effective_until,
+        created_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING *`,
+      [
+        createDto.name,
+        createDto.category_id,
+        createDto.service_id,
+        createDto.city?.trim(),
+        createDto.provider_tier,
+        createDto.type,
+        createDto.rate,
+        createDto.amount,
+        createDto.min_amount,
+        createDto.max_amount,
+        effectiveFrom,
+        createDto.effective_until,
+        userId,
+      ],
+    );
+
+    return this.toRule(rule!);
+  }
+
+  /**
+   * Commission rules, newest first (Admin only)
+   * With active=true, only rules in effect now.
+   */
+  async getRules(active = false): Promise<CommissionRule[]> {
+    const rules = await this.db.queryMany<CommissionRule>(
+      `SELECT * FROM commission_rules
+       ${
+         active
+           ? `WHERE effective_from <= CURRENT_TIMESTAMP
+              AND (effective_until IS NULL OR effective_until > CURRENT_TIMESTAMP)`
+           : ''
+       }
+       ORDER BY created_at DESC`,
+    );
+
+    return rules.map((rule) => this.toRule(rule));
+  }
+
+  /**
+   * Get a commission rule (Admin only)
+   */
+  async getRule(ruleId: string): Promise<CommissionRule> {
+    const rule = await this.db.queryOne<CommissionRule>(
+      `SELECT * FROM commission_rules WHERE id = $1`,
+      [ruleId],
+    );
+
+    if (!rule) {
+      throw new NotFoundException('Commission rule not found');
+    }
+
+    return this.toRule(rule);
+  }
+
+  /**
+   * Rename a rule or change when it ends (Admin only)
+   */
+  async updateRule(
+    ruleId: string,
+    updateDto: UpdateCommissionRuleDto,
+  ): Promise<CommissionRule> {
+    const current = await this.getRule(ruleId);
+
+    if (
+      updateDto.effective_until &&
+      new Date(updateDto.effective_until) <= new Date(current.effective_from)
+    ) {
+      throw new BadRequestException(
+        'effective_until must be after effective_from',
+      );
+    }
+
+    const rule = await this.db.queryOne<CommissionRule>(
+      `UPDATE commission_rules
+       SET name = COALESCE($1, name),
+           effective_until = COALESCE($2, effective_until),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3
+       RETURNING *`,
+      [updateDto.name, updateDto.effective_until, ruleId],
+    );
+
+    return this.toRule(rule!);
+  }
+
+  /**
+   * Rule that applies to a job at a point in time
+   * The most specific rule wins: service, then category, then provider
+   * tier, then city; among equals, the one that started last.
+   */
+  async resolve(
+    scope: CommissionScope,
+    at: Date = new Date(),
+  ): Promise<AppliedCommission> {
+    const rule = await this.findRule(scope, at);
+
+    if (!rule) {
+      return {
+        terms: {
+          type: CommissionType.PERCENTAGE,
+          rate: this.configService.get<number>('pricing.commissionPercent', 15),
+        },
+      };
+    }
+
+    return { rule_id: rule.id, terms: this.toTerms(rule) };
+  }
+
+  /**
+   * What a provider would earn on a job (Admin only)
+   */
+  async preview(previewDto: PreviewCommissionDto): Promise<CommissionPreview> {
+    const service = await this.db.queryOne<{ base_price: string }>(
+      `SELECT base_price FROM services WHERE id = $1`,
+      [previewDto.service_id],
+    );
+
+    if (!service) {
+      throw new NotFoundException('Service not found');
+    }
+
+    const at = previewDto.at ? new Date(previewDto.at) : new Date();
+    const applied = await this.resolve(previewDto, at);
+    const jobAmount = MoneyUtil.round(
+      previewDto.amount ?? MoneyUtil.toNumber(service.base_price),
+    );
+    const platformFee = commissionFor(jobAmount, applied.terms);
+
+    return {
+      ...applied,
+      rule: applied.rule_id ? await this.getRule(applied.rule_id) : undefined,
+      provider_tier: previewDto.provider_id
+        ? await this.getProviderTier(previewDto.provider_id)
+        : undefined,
+      job_amount: jobAmount,
+      platform_fee: platformFee,
+      provider_earnings: MoneyUtil.round(jobAmount - platformFee),
+    };
+  }
+
+  private async findRule(
+    scope: CommissionScope,
+    at: Date,
+  ): Promise<CommissionRule | null> {
+    const tier = scope.provider_id
+      ? await this.getProviderTier(scope.provider_id)
+      : null;
+
+    return await this.db.queryOne<CommissionRule>(
+      `SELECT r.* FROM commission_rules r
+       JOIN services s ON s.id = $1
+       WHERE (r.service_id = s.id OR r.service_id IS NULL)
+         AND (r.category_id = s.category_id OR r.category_id IS NULL)
+         AND (LOWER(r.city) = LOWER($2) OR r.city IS NULL)
+         AND (r.provider_tier = $3 OR r.provider_tier IS NULL)
+         AND r.effective_from <= $4
+         AND (r.effective_until IS NULL OR r.effective_until > $4)
+       ORDER BY r.service_id NULLS LAST, r.category_id NULLS LAST,
+         r.provider_tier NULLS LAST, r.city NULLS LAST,
+         r.effective_from DESC, r.created_at DESC
+       LIMIT 1`,
+      [scope.service_id, scope.city?.trim(), tier, at],
+    );
+  }
+
+  private async getProviderTier(providerId: string): Promise<ProviderTier> {
+    const provider = await this.db.queryOne<{ tier: ProviderTier }>(
+      `SELECT tier FROM providers WHERE id = $1`,
+      [providerId],
+    );
+
+    if (!provider) {
+      throw new NotFoundException('Provider not found');
+    }
+
+    return provider.tier;
+  }
+
+  /**
+   * Each type needs its own fields
+   */
+  private assertTerms(terms: CommissionTerms): void {
+    if (terms.type === CommissionType.FLAT && terms.amount == null) {
+      throw new BadRequestException('Flat rules need an amount');
+    }
+
+    if (terms.type !== CommissionType.FLAT && terms.rate == null) {
+      throw new BadRequestException('Percentage rules need a rate');
+    }
+
+    if (
+      terms.type === CommissionType.CAPPED_PERCENTAGE &&
+      terms.min_amount == null &&
+      terms.max_amount == null
+    ) {
+      throw new BadRequestException(
+        'Capped rules need a min_amount, a max_amount or both',
+      );
+    }
+
+    if (
+      terms.min_amount != null &&
+      terms.max_amount != null &&
+      terms.min_amount > terms.max_amount
+    ) {
+      throw new BadRequestException('min_amount cannot exceed max_amount');
+    }
+  }
+
+  private toTerms(rule: CommissionRule): CommissionTerms {
+    const terms: CommissionTerms = { type: rule.type };
+
+    NUMERIC_FIELDS.forEach((field) => {
+      if (rule[field] != null) {
+        terms[field] = MoneyUtil.toNumber(rule[field]);
+      }
+    });
+
+    return terms;
+  }
+
+  /**
+   * NUMERIC columns come back from pg as strings
+   */
+  private toRule(row: CommissionRule): CommissionRule {
+    const rule = { ...row };
+
+    NUMERIC_FIELDS.forEach((field) => {
+      if (rule[field] != null) {
+        rule[field] = MoneyUtil.toNumber(rule[field]);
+      }
+    });
+
+    return rule;
+  }
+}
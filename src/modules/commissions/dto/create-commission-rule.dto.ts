@@ -0,0 +1,73 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { CommissionType, ProviderTier } from '../../../types/database.types';
+
+export class CreateCommissionRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  // Leave a scope out to match every category, service, city or tier
+  @IsOptional()
+  @IsUUID()
+  category_id?: string;
+
+  @IsOptional()
+  @IsUUID()
+  service_id?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @IsOptional()
+  @IsEnum(ProviderTier)
+  provider_tier?: ProviderTier;
+
+  @IsEnum(CommissionType)
+  type: CommissionType;
+
+  // Percent, for percentage and capped_percentage rules
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  rate?: number;
+
+  // Fee per job, for flat rules
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  min_amount?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  max_amount?: number;
+
+  // Defaults to now
+  @IsOptional()
+  @IsDateString()
+  effective_from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  effective_until?: string;
+}
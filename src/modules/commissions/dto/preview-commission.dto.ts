@@ -0,0 +1,34 @@
+import {
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class PreviewCommissionDto {
+  @IsUUID()
+  service_id: string;
+
+  @IsOptional()
+  @IsUUID()
+  provider_id?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  // Pre-tax job amount; defaults to the service's base price
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount?: number;
+
+  // Defaults to now
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
@@ -0,0 +1,23 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * Terms and scope are fixed once created; replace a rule by ending it
+ * and adding a new one
+ */
+export class UpdateCommissionRuleDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsDateString()
+  effective_until?: string;
+}
@@ -0,0 +1,63 @@
+import { DiscountCode } from '../../types/database.types';
+import { codeRejection, discountFor, RedemptionContext } from './discount';
+
+const code: DiscountCode = {
+  id: 'code-1',
+  code: 'WELCOME10',
+  discount_percentage: 10,
+  valid_from: new Date('2026-01-01T00:00:00Z'),
+  valid_until: new Date('2026-02-01T00:00:00Z'),
+  usage_limit: 100,
+  per_user_limit: 1,
+  min_order_amount: 500,
+  category_id: 'cleaning',
+  is_active: true,
+  times_used: 10,
+  created_at: new Date('2026-01-01T00:00:00Z'),
+  updated_at: new Date('2026-01-01T00:00:00Z'),
+};
+
+const context: RedemptionContext = {
+  service_id: 'deep-clean',
+  category_id: 'cleaning',
+  amount: 800,
+  customer_redemptions: 0,
+  at: new Date('2026-01-15T00:00:00Z'),
+};
+
+describe('codeRejection', () => {
+  it('accepts a code that meets every condition', () => {
+    expect(codeRejection(code, context)).toBeNull();
+  });
+
+  it('rejects codes outside their validity window', () => {
+    expect(
+      codeRejection(code, { ...context, at: new Date('2026-02-01T00:00:00Z') }),
+    ).toMatch(/not valid/);
+  });
+
+  it('enforces global and per-user limits', () => {
+    expect(codeRejection({ ...code, times_used: 100 }, context)).toMatch(
+      /fully redeemed/,
+    );
+    expect(
+      codeRejection(code, { ...context, customer_redemptions: 1 }),
+    ).toMatch(/already used/);
+  });
+
+  it('enforces the minimum order and category restriction', () => {
+    expect(codeRejection(code, { ...context, amount: 499 })).toMatch(
+      /at least 500/,
+    );
+    expect(
+      codeRejection(code, { ...context, category_id: 'plumbing' }),
+    ).toMatch(/does not apply/);
+  });
+});
+
+describe('discountFor', () => {
+  it('takes the percentage off the order value', () => {
+    expect(discountFor(849.5, code)).toBe(84.95);
+    expect(discountFor(100, { ...code, discount_percentage: 150 })).toBe(100);
+  });
+});
@@ -0,0 +1,66 @@
+import { DiscountCode } from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+
+export interface RedemptionContext {
+  service_id: string;
+  category_id: string;
+  // Order value the discount is taken from
+  amount: number;
+  // Redemptions the customer already holds, cancelled bookings excluded
+  customer_redemptions: number;
+  at: Date;
+}
+
+/**
+ * Why a code cannot be used on an order, or null when it can
+ * The global usage limit is only advisory here; redemption enforces it
+ * atomically.
+ */
+export function codeRejection(
+  code: DiscountCode,
+  context: RedemptionContext,
+): string | null {
+  if (!code.is_active) {
+    return 'Discount code is no longer active';
+  }
+
+  if (
+    context.at < new Date(code.valid_from) ||
+    context.at >= new Date(code.valid_until)
+  ) {
+    return 'Discount code is not valid at this time';
+  }
+
+  if (code.usage_limit != null && code.times_used >= code.usage_limit) {
+    return 'Discount code has been fully redeemed';
+  }
+
+  if (
+    code.per_user_limit != null &&
+    context.customer_redemptions >= code.per_user_limit
+  ) {
+    return 'You have already used this discount code';
+  }
+
+  if (code.min_order_amount != null && context.amount < code.min_order_amount) {
+    return `Discount code needs an order of at least ${code.min_order_amount}`;
+  }
+
+  if (
+    (code.service_id && code.service_id !== context.service_id) ||
+    (code.category_id && code.category_id !== context.category_id)
+  ) {
+    return 'Discount code does not apply to this service';
+  }
+
+  return null;
+}
+
+/**
+ * Discount on an order value, never more than the value itself
+ */
+export function discountFor(amount: number, code: DiscountCode): number {
+  return MoneyUtil.round(
+    Math.min(MoneyUtil.percentage(amount, code.discount_percentage), amount),
+  );
+}
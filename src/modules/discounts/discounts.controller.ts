@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import { DiscountsService } from './discounts.service';
+import { CreateDiscountCodeDto } from './dto/create-discount-code.dto';
+import { UpdateDiscountCodeDto } from './dto/update-discount-code.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('discount-codes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DiscountsController {
+  constructor(private discountsService: DiscountsService) {}
+
+  /**
+   * GET /api/v1/discount-codes
+   * Get discount codes (Admin only)
+   * Query params: page, limit
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get()
+  async getCodes(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    const result = await this.discountsService.getCodes(page, limit);
+    return ResponseUtil.success(result);
+  }
+
+  /**
+   * POST /api/v1/discount-codes
+   * Create a discount code (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post()
+  async createCode(@Body() createDto: CreateDiscountCodeDto) {
+    const code = await this.discountsService.createCode(createDto);
+    return ResponseUtil.success(code, 'Discount code created');
+  }
+
+  /**
+   * GET /api/v1/discount-codes/:id
+   * Get a discount code (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get(':id')
+  async getCode(@Param('id') id: string) {
+    const code = await this.discountsService.getCode(id);
+    return ResponseUtil.success(code);
+  }
+
+  /**
+   * PUT /api/v1/discount-codes/:id
+   * Update a discount code (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Put(':id')
+  async updateCode(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateDiscountCodeDto,
+  ) {
+    const code = await this.discountsService.updateCode(id, updateDto);
+    return ResponseUtil.success(code, 'Discount code updated');
+  }
+
+  /**
+   * DELETE /api/v1/discount-codes/:id
+   * Deactivate a discount code (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Delete(':id')
+  async deactivateCode(@Param('id') id: string) {
+    const code = await this.discountsService.deactivateCode(id);
+    return ResponseUtil.success(code, 'Discount code deactivated');
+  }
+}
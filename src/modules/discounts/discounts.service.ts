@@ -0,0 +1,372 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PoolClient } from 'pg';
+import { randomInt } from 'crypto';
+import { addDays } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import { BookingDiscount, DiscountCode } from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { codeRejection, discountFor } from './discount';
+import { CreateDiscountCodeDto } from './dto/create-discount-code.dto';
+import { UpdateDiscountCodeDto } from './dto/update-discount-code.dto';
+
+export interface DiscountOrder {
+  customer_id: string;
+  service_id: string;
+  // Order value before the discount
+  amount: number;
+}
+
+export interface AppliedDiscount {
+  discount_code: DiscountCode;
+  discount_amount: number;
+}
+
+/**
+ * Letters and digits that cannot be misread for each other
+ */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const NUMERIC_FIELDS: ('discount_percentage' | 'min_order_amount')[] = [
+  'discount_percentage',
+  'min_order_amount',
+];
+
+@Injectable()
+export class DiscountsService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Create a discount code (Admin only)
+   */
+  async createCode(createDto: CreateDiscountCodeDto): Promise<DiscountCode> {
+    this.assertWindow(createDto.valid_from, createDto.valid_until);
+
+    const existing = await this.db.queryOne<{ id: string }>(
+      `SELECT id FROM discount_codes WHERE UPPER(code) = UPPER($1)`,
+      [createDto.code],
+    );
+
+    if (existing) {
+      throw new ConflictException('Discount code already exists');
+    }
+
+    const code = await this.db.queryOne<DiscountCode>(
+      `INSERT INTO discount_codes (
+        code, description, discount_percentage, valid_from, valid_until,
+        usage_limit, per_user_limit, min_order_amount, category_id,
+        service_id
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        createDto.code.toUpperCase(),
+        createDto.description,
+        createDto.discount_percentage,
+        createDto.valid_from,
+        createDto.valid_until,
+        createDto.usage_limit,
+        createDto.per_user_limit,
+        createDto.min_order_amount,
+        createDto.category_id,
+        createDto.service_id,
+      ],
+    );
+
+    return this.toCode(code!);
+  }
+
+  /**
+   * Discount codes, newest first (Admin only)
+   */
+  async getCodes(
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    codes: DiscountCode[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM discount_codes`,
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const codes = await this.db.queryMany<DiscountCode>(
+      `SELECT * FROM discount_codes
+       ORDER BY created_at DESC
+       LIMIT $1 OFFSET $2`,
+      [limit, offset],
+    );
+
+    return {
+      codes: codes.map((code) => this.toCode(code)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Get a discount code (Admin only)
+   */
+  async getCode(codeId: string): Promise<DiscountCode> {
+    const code = await this.db.queryOne<DiscountCode>(
+      `SELECT * FROM discount_codes WHERE id = $1`,
+      [codeId],
+    );
+
+    if (!code) {
+      throw new NotFoundException('Discount code not found');
+    }
+
+    return this.toCode(code);
+  }
+
+  /**
+   * Update a discount code's limits or window (Admin only)
+   */
+  async updateCode(
+    codeId: string,
+    updateDto: UpdateDiscountCodeDto,
+  ): Promise<DiscountCode> {
+    const current = await this.getCode(codeId);
+    this.assertWindow(
+      updateDto.valid_from ?? current.valid_from,
+      updateDto.valid_until ?? current.valid_until,
+    );
+
+    const code = await this.db.queryOne<DiscountCode>(
+      `UPDATE discount_codes
+       SET description = COALESCE($1, description),
+           valid_from = COALESCE($2, valid_from),
+           valid_until = COALESCE($3, valid_until),
+           usage_limit = COALESCE($4, usage_limit),
+           per_user_limit = COALESCE($5, per_user_limit),
+           min_order_amount = COALESCE($6, min_order_amount),
+           is_active = COALESCE($7, is_active),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $8
+       RETURNING *`,
+      [
+        updateDto.description,
+        updateDto.valid_from,
+        updateDto.valid_until,
+        updateDto.usage_limit,
+        updateDto.per_user_limit,
+        updateDto.min_order_amount,
+        updateDto.is_active,
+        codeId,
+      ],
+    );
+
+    return this.toCode(code!);
+  }
+
+  /**
+   * Deactivate a discount code (Admin only)
+   * Codes stay on record for the bookings that redeemed them.
+   */
+  async deactivateCode(codeId: string): Promise<DiscountCode> {
+    return await this.updateCode(codeId, { is_active: false });
+  }
+
+  /**
+   * Issue a one-time code, e.g. as a reward
+   * Runs in the caller's transaction.
+   */
+  async issueCode(
+    options: {
+      prefix: string;
+      description: string;
+      discount_percentage: number;
+      valid_days: number;
+    },
+    client: PoolClient,
+  ): Promise<DiscountCode> {
+    const suffix = Array.from(
+      { length: 8 },
+      () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)],
+    ).join('');
+    const now = new Date();
+
+    const result = await client.query<DiscountCode>(
+      `INSERT INTO discount_codes (
+        code, description, discount_percentage, valid_from, valid_until,
+        usage_limit, per_user_limit
+       )
+       VALUES ($1, $2, $3, $4, $5, 1, 1)
+       RETURNING *`,
+      [
+        `${options.prefix}-${suffix}`,
+        options.description,
+        options.discount_percentage,
+        now,
+        addDays(now, options.valid_days),
+      ],
+    );
+
+    return this.toCode(result.rows[0]);
+  }
+
+  /**
+   * Check a code against an order and work out its discount
+   */
+  async checkCode(
+    code: string,
+    order: DiscountOrder,
+  ): Promise<AppliedDiscount> {
+    const discountCode = await this.db.queryOne<DiscountCode>(
+      `SELECT * FROM discount_codes WHERE UPPER(code) = UPPER($1)`,
+      [code.trim()],
+    );
+
+    if (!discountCode) {
+      throw new NotFoundException('Discount code not found');
+    }
+
+    return await this.assertUsable(this.toCode(discountCode), order);
+  }
+
+  /**
+   * Redeem a code for a booking inside the caller's transaction
+   * The usage count is taken with a conditional update so concurrent
+   * checkouts cannot go past the limit; the row lock it holds also
+   * serialises the per-customer check.
+   */
+  async redeem(
+    codeId: string,
+    bookingId: string,
+    order: DiscountOrder,
+    client: PoolClient,
+  ): Promise<BookingDiscount> {
+    const result = await client.query<DiscountCode>(
+      `UPDATE discount_codes
+       SET times_used = times_used + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND (usage_limit IS NULL OR times_used < usage_limit)
+       RETURNING *`,
+      [codeId],
+    );
+
+    if (result.rows.length === 0) {
+      throw new ConflictException('Discount code has been fully redeemed');
+    }
+
+    // The update above already enforced the usage limit
+    const { discount_amount } = await this.assertUsable(
+      { ...this.toCode(result.rows[0]), usage_limit: undefined },
+      order,
+      client,
+    );
+
+    const redemption = await client.query<BookingDiscount>(
+      `INSERT INTO booking_discounts (
+        booking_id, discount_code_id, customer_id, discount_amount
+       )
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [bookingId, codeId, order.customer_id, discount_amount],
+    );
+
+    return redemption.rows[0];
+  }
+
+  /**
+   * Give back a cancelled booking's redemption
+   */
+  async release(bookingId: string, client?: PoolClient): Promise<void> {
+    const query = `WITH released AS (
+         UPDATE booking_discounts
+         SET released_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE booking_id = $1 AND released_at IS NULL
+         RETURNING discount_code_id
+       )
+       UPDATE discount_codes dc
+       SET times_used = GREATEST(dc.times_used - 1, 0),
+           updated_at = CURRENT_TIMESTAMP
+       FROM released
+       WHERE dc.id = released.discount_code_id`;
+
+    await (client
+      ? client.query(query, [bookingId])
+      : this.db.query(query, [bookingId]));
+  }
+
+  private async assertUsable(
+    code: DiscountCode,
+    order: DiscountOrder,
+    client?: PoolClient,
+  ): Promise<AppliedDiscount> {
+    const query = `SELECT
+        s.category_id,
+        (
+          SELECT COUNT(*) FROM booking_discounts
+          WHERE discount_code_id = $1
+            AND customer_id = $2
+            AND released_at IS NULL
+        ) as redemptions
+       FROM services s
+       WHERE s.id = $3`;
+    const values = [code.id, order.customer_id, order.service_id];
+    const row = client
+      ? (
+          await client.query<{ category_id: string; redemptions: string }>(
+            query,
+            values,
+          )
+        ).rows[0]
+      : await this.db.queryOne<{ category_id: string; redemptions: string }>(
+          query,
+          values,
+        );
+
+    if (!row) {
+      throw new NotFoundException('Service not found');
+    }
+
+    const rejection = codeRejection(code, {
+      service_id: order.service_id,
+      category_id: row.category_id,
+      amount: order.amount,
+      customer_redemptions: parseInt(row.redemptions),
+      at: new Date(),
+    });
+
+    if (rejection) {
+      throw new BadRequestException(rejection);
+    }
+
+    return {
+      discount_code: code,
+      discount_amount: discountFor(order.amount, code),
+    };
+  }
+
+  private assertWindow(from: Date | string, until: Date | string): void {
+    if (new Date(until) <= new Date(from)) {
+      throw new BadRequestException('valid_until must be after valid_from');
+    }
+  }
+
+  /**
+   * NUMERIC columns come back from pg as strings
+   */
+  private toCode(row: DiscountCode): DiscountCode {
+    const code = { ...row };
+
+    NUMERIC_FIELDS.forEach((field) => {
+      if (code[field] != null) {
+        code[field] = MoneyUtil.toNumber(code[field]);
+      }
+    });
+
+    return code;
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateDiscountCodeDto {
+  // Stored upper-case; customers can type it in any case
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,30}$/, {
+    message: 'code must be 3-30 letters, digits, dashes or underscores',
+  })
+  code: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  description?: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(100)
+  discount_percentage: number;
+
+  @IsDateString()
+  valid_from: string;
+
+  @IsDateString()
+  valid_until: string;
+
+  // Leave out for unlimited redemptions
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usage_limit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  per_user_limit?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  min_order_amount?: number;
+
+  @IsOptional()
+  @IsUUID()
+  category_id?: string;
+
+  @IsOptional()
+  @IsUUID()
+  service_id?: string;
+}
@@ -0,0 +1,49 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * The code, its percentage and its scope are fixed once created
+ */
+export class UpdateDiscountCodeDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  description?: string;
+
+  @IsOptional()
+  @IsDateString()
+  valid_from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  valid_until?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usage_limit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  per_user_limit?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  min_order_amount?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
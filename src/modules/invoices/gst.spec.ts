@@ -0,0 +1,44 @@
+import { financialYear, splitGst } from './gst';
+
+describe('splitGst', () => {
+  it('splits intra-state tax into CGST and SGST', () => {
+    expect(splitGst(18, 18, 'Karnataka', ' karnataka ')).toEqual({
+      cgst_rate: 9,
+      cgst_amount: 9,
+      sgst_rate: 9,
+      sgst_amount: 9,
+      igst_rate: 0,
+      igst_amount: 0,
+    });
+  });
+
+  it('gives the odd paisa to SGST', () => {
+    const split = splitGst(18.01, 18, 'Karnataka', 'Karnataka');
+    expect(split.cgst_amount).toBe(9);
+    expect(split.sgst_amount).toBe(9.01);
+  });
+
+  it('charges IGST across states', () => {
+    const split = splitGst(36.5, 18, 'Karnataka', 'Tamil Nadu');
+    expect(split.igst_rate).toBe(18);
+    expect(split.igst_amount).toBe(36.5);
+    expect(split.cgst_amount + split.sgst_amount).toBe(0);
+  });
+});
+
+describe('financialYear', () => {
+  it('starts the year in April local time', () => {
+    // 1 April 00:30 IST
+    expect(financialYear(new Date('2026-03-31T19:00:00Z'), 330)).toBe(
+      '2026-27',
+    );
+    // 31 March 23:00 IST
+    expect(financialYear(new Date('2026-03-31T17:30:00Z'), 330)).toBe(
+      '2025-26',
+    );
+  });
+
+  it('wraps the short end year at the century', () => {
+    expect(financialYear(new Date('2099-06-01T00:00:00Z'), 0)).toBe('2099-00');
+  });
+});
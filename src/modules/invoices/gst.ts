@@ -0,0 +1,65 @@
+import { MoneyUtil } from '../../utils/money.util';
+
+export interface GstSplit {
+  cgst_rate: number;
+  cgst_amount: number;
+  sgst_rate: number;
+  sgst_amount: number;
+  igst_rate: number;
+  igst_amount: number;
+}
+
+/**
+ * Split the GST charged on a job by place of supply
+ * Within the supplier's state it is half CGST and half SGST; the odd paisa
+ * goes to SGST so the parts always add up to the tax charged. Across
+ * states it is all IGST.
+ */
+export function splitGst(
+  taxAmount: number,
+  taxPercent: number,
+  supplierState: string,
+  placeOfSupply: string,
+): GstSplit {
+  if (normaliseState(supplierState) !== normaliseState(placeOfSupply)) {
+    return {
+      cgst_rate: 0,
+      cgst_amount: 0,
+      sgst_rate: 0,
+      sgst_amount: 0,
+      igst_rate: taxPercent,
+      igst_amount: MoneyUtil.round(taxAmount),
+    };
+  }
+
+  const paise = Math.round(taxAmount * 100);
+  const cgstAmount = Math.floor(paise / 2) / 100;
+
+  return {
+    cgst_rate: taxPercent / 2,
+    cgst_amount: cgstAmount,
+    sgst_rate: taxPercent / 2,
+    sgst_amount: MoneyUtil.round(taxAmount - cgstAmount),
+    igst_rate: 0,
+    igst_amount: 0,
+  };
+}
+
+/**
+ * Indian financial year (April to March) of a moment, e.g. "2026-27"
+ * utcOffsetMinutes places the moment in local time first, so a job
+ * completed just after midnight IST on 1 April falls in the new year.
+ */
+export function financialYear(date: Date, utcOffsetMinutes: number): string {
+  const local = new Date(date.getTime() + utcOffsetMinutes * 60 * 1000);
+  const startYear =
+    local.getUTCMonth() >= 3
+      ? local.getUTCFullYear()
+      : local.getUTCFullYear() - 1;
+
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+function normaliseState(state: string): string {
+  return state.trim().toLowerCase().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,246 @@
+import { PdfLine, PdfUtil } from '../../utils/pdf.util';
+import type { Invoice } from './invoices.service';
+
+interface TaxRow {
+  label: string;
+  amount: number;
+}
+
+/**
+ * Render an invoice as a standalone HTML page
+ * Dates are shown in local time, utcOffsetMinutes ahead of UTC.
+ */
+export function renderInvoiceHtml(
+  invoice: Invoice,
+  utcOffsetMinutes: number,
+): string {
+  const lineRows = invoice.lines
+    .map(
+      (line) => `
+      <tr>
+        <td>${escapeHtml(line.description)}</td>
+        <td>${escapeHtml(line.hsn_sac)}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${formatAmount(line.unit_price)}</td>
+        <td class="num">${formatAmount(line.amount)}</td>
+      </tr>`,
+    )
+    .join('');
+
+  const summaryRows = summary(invoice)
+    .map(
+      (row) => `
+      <tr>
+        <td colspan="4" class="num">${escapeHtml(row.label)}</td>
+        <td class="num">${formatAmount(row.amount)}</td>
+      </tr>`,
+    )
+    .join('');
+
+  const tipRows = tips(invoice)
+    .map(
+      (row) => `
+      <tr>
+        <td colspan="4" class="num">${escapeHtml(row.label)}</td>
+        <td class="num">${formatAmount(row.amount)}</td>
+      </tr>`,
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Tax Invoice ${escapeHtml(invoice.invoice_number)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; font-size: 13px; margin: 32px; color: #222; }
+    h1 { font-size: 20px; margin: 0 0 16px; }
+    .parties { display: flex; gap: 48px; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    .num { text-align: right; }
+    .total td { font-weight: bold; border-top: 2px solid #222; }
+  </style>
+</head>
+<body>
+  <h1>Tax Invoice</h1>
+  <p>
+    Invoice No: <strong>${escapeHtml(invoice.invoice_number)}</strong><br>
+    Date: ${formatDate(invoice.issued_at, utcOffsetMinutes)}<br>
+    Booking: ${escapeHtml(invoice.booking_number)}<br>
+    Place of supply: ${escapeHtml(invoice.place_of_supply)}
+  </p>
+  <div class="parties">
+    <div>
+      <strong>${escapeHtml(invoice.supplier_name)}</strong><br>
+      ${optionalLine(invoice.supplier_address)}
+      ${optionalLine(invoice.supplier_gstin, 'GSTIN: ')}
+    </div>
+    ${
+      invoice.provider_name
+        ? `<div>
+      Service provider<br>
+      <strong>${escapeHtml(invoice.provider_name)}</strong><br>
+      ${optionalLine(invoice.provider_gstin, 'GSTIN: ')}
+    </div>`
+        : ''
+    }
+    <div>
+      Billed to<br>
+      <strong>${escapeHtml(invoice.customer_name)}</strong><br>
+      ${optionalLine(invoice.customer_address)}
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th>HSN/SAC</th>
+        <th class="num">Qty</th>
+        <th class="num">Rate</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${lineRows}${summaryRows}
+      <tr class="total">
+        <td colspan="4" class="num">Total (INR)</td>
+        <td class="num">${formatAmount(invoice.total)}</td>
+      </tr>${tipRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render an invoice as a PDF
+ */
+export function renderInvoicePdf(
+  invoice: Invoice,
+  utcOffsetMinutes: number,
+): Buffer {
+  const lines: PdfLine[] = [
+    { text: 'Tax Invoice', bold: true, size: 18 },
+    { text: '' },
+    { text: `Invoice No: ${invoice.invoice_number}`, bold: true },
+    { text: `Date: ${formatDate(invoice.issued_at, utcOffsetMinutes)}` },
+    { text: `Booking: ${invoice.booking_number}` },
+    { text: `Place of supply: ${invoice.place_of_supply}` },
+    { text: '' },
+    { text: invoice.supplier_name, bold: true },
+  ];
+
+  if (invoice.supplier_address) {
+    lines.push({ text: invoice.supplier_address });
+  }
+  if (invoice.supplier_gstin) {
+    lines.push({ text: `GSTIN: ${invoice.supplier_gstin}` });
+  }
+
+  if (invoice.provider_name) {
+    lines.push({ text: '' }, { text: 'Service provider', bold: true });
+    lines.push({ text: invoice.provider_name });
+    if (invoice.provider_gstin) {
+      lines.push({ text: `GSTIN: ${invoice.provider_gstin}` });
+    }
+  }
+
+  lines.push({ text: '' }, { text: 'Billed to', bold: true });
+  lines.push({ text: invoice.customer_name });
+  if (invoice.customer_address) {
+    lines.push({ text: invoice.customer_address });
+  }
+
+  lines.push({ text: '' });
+  invoice.lines.forEach((line) => {
+    lines.push({
+      text: `${line.description} (SAC ${line.hsn_sac}) - ${line.quantity} x ${formatAmount(line.unit_price)} = ${formatAmount(line.amount)}`,
+    });
+  });
+
+  lines.push({ text: '' });
+  summary(invoice).forEach((row) => {
+    lines.push({ text: `${row.label}: ${formatAmount(row.amount)}` });
+  });
+  lines.push({
+    text: `Total (INR): ${formatAmount(invoice.total)}`,
+    bold: true,
+    size: 12,
+  });
+  tips(invoice).forEach((row) => {
+    lines.push({ text: `${row.label}: ${formatAmount(row.amount)}` });
+  });
+
+  return PdfUtil.fromLines(lines);
+}
+
+/**
+ * Subtotal, discount, taxable value and the GST components that apply
+ */
+function summary(invoice: Invoice): TaxRow[] {
+  const rows: TaxRow[] = [{ label: 'Subtotal', amount: invoice.subtotal }];
+
+  if (invoice.discount_amount > 0) {
+    rows.push({ label: 'Discount', amount: -invoice.discount_amount });
+  }
+
+  rows.push({ label: 'Taxable value', amount: invoice.taxable_amount });
+
+  if (invoice.igst_amount > 0) {
+    rows.push({
+      label: `IGST @ ${invoice.igst_rate}%`,
+      amount: invoice.igst_amount,
+    });
+  } else {
+    rows.push(
+      { label: `CGST @ ${invoice.cgst_rate}%`, amount: invoice.cgst_amount },
+      { label: `SGST @ ${invoice.sgst_rate}%`, amount: invoice.sgst_amount },
+    );
+  }
+
+  return rows;
+}
+
+/**
+ * Tips are paid to the provider outside the taxed total, so they follow it
+ */
+function tips(invoice: Invoice): TaxRow[] {
+  if (invoice.tip_amount <= 0) {
+    return [];
+  }
+
+  return [
+    { label: 'Tip to provider (not taxed)', amount: invoice.tip_amount },
+    {
+      label: 'Amount paid (INR)',
+      amount: invoice.total + invoice.tip_amount,
+    },
+  ];
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-IN', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+function formatDate(date: Date, utcOffsetMinutes: number): string {
+  return new Date(new Date(date).getTime() + utcOffsetMinutes * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function optionalLine(value: string | undefined, label = ''): string {
+  return value ? `${escapeHtml(label + value)}<br>` : '';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
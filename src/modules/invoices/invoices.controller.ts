@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  StreamableFile,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { InvoicesService } from './invoices.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('invoices')
+@UseGuards(JwtAuthGuard)
+export class InvoicesController {
+  constructor(private invoicesService: InvoicesService) {}
+
+  /**
+   * GET /api/v1/invoices
+   * Get all invoices (Admin only)
+   * Query params: financial_year (e.g. 2026-27), page, limit (optional)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get()
+  async getAllInvoices(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('financial_year') financialYear?: string,
+  ) {
+    const result = await this.invoicesService.getAllInvoices(
+      page,
+      limit,
+      financialYear,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  /**
+   * GET /api/v1/invoices/booking/:bookingId
+   * Get the invoice of a completed booking
+   */
+  @Get('booking/:bookingId')
+  async getBookingInvoice(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+  ) {
+    const invoice = await this.invoicesService.getBookingInvoice(
+      bookingId,
+      user,
+    );
+    return ResponseUtil.success(invoice);
+  }
+
+  /**
+   * GET /api/v1/invoices/:id
+   * Get an invoice
+   */
+  @Get(':id')
+  async getInvoice(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const invoice = await this.invoicesService.getInvoiceForUser(id, user);
+    return ResponseUtil.success(invoice);
+  }
+
+  /**
+   * GET /api/v1/invoices/:id/html
+   * View an invoice as a printable page
+   */
+  @Get(':id/html')
+  async getInvoiceHtml(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const invoice = await this.invoicesService.getInvoiceForUser(id, user);
+
+    return new StreamableFile(
+      Buffer.from(this.invoicesService.renderHtml(invoice)),
+      { type: 'text/html; charset=utf-8', disposition: 'inline' },
+    );
+  }
+
+  /**
+   * GET /api/v1/invoices/:id/pdf
+   * Download an invoice as PDF
+   */
+  @Get(':id/pdf')
+  async getInvoicePdf(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const invoice = await this.invoicesService.getInvoiceForUser(id, user);
+
+    return new StreamableFile(this.invoicesService.renderPdf(invoice), {
+      type: 'application/pdf',
+      disposition: `attachment; filename="invoice-${invoice.invoice_number.replace(/\//g, '-')}.pdf"`,
+    });
+  }
+}
@@ -0,0 +1,473 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import { User, UserRole } from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { financialYear, GstSplit, splitGst } from './gst';
+import { renderInvoiceHtml, renderInvoicePdf } from './invoice-renderer';
+
+export interface InvoiceLine {
+  description: string;
+  hsn_sac: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+/**
+ * Snapshot of a completed booking's bill
+ * Written once when the booking completes and never updated, so later
+ * changes to names, GSTINs or prices do not alter issued invoices.
+ */
+export interface Invoice extends GstSplit {
+  id: string;
+  invoice_number: string;
+  financial_year: string;
+  sequence_number: number;
+  booking_id: string;
+  booking_number: string;
+  customer_id: string;
+  provider_id?: string;
+  supplier_name: string;
+  supplier_gstin?: string;
+  supplier_address?: string;
+  supplier_state: string;
+  provider_name?: string;
+  provider_gstin?: string;
+  customer_name: string;
+  customer_address?: string;
+  place_of_supply: string;
+  lines: InvoiceLine[];
+  subtotal: number;
+  discount_amount: number;
+  taxable_amount: number;
+  tax_percent: number;
+  tax_amount: number;
+  total: number;
+  // Tips paid after issue, read from the booking; not part of the total
+  tip_amount: number;
+  issued_at: Date;
+}
+
+interface InvoiceSource {
+  booking_number: string;
+  customer_id: string;
+  provider_id?: string;
+  final_price: string;
+  estimated_price: string;
+  tax_amount: string;
+  discount_amount: string;
+  service_name: string;
+  hsn_sac_code?: string;
+  customer_name: string;
+  provider_name?: string;
+  provider_gstin?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  quote_subtotal?: string;
+  quote_travel_surcharge?: string;
+  quote_tax_percent?: string;
+}
+
+const NUMERIC_FIELDS: (keyof Invoice)[] = [
+  'subtotal',
+  'discount_amount',
+  'taxable_amount',
+  'tax_percent',
+  'cgst_rate',
+  'cgst_amount',
+  'sgst_rate',
+  'sgst_amount',
+  'igst_rate',
+  'igst_amount',
+  'tax_amount',
+  'total',
+  'tip_amount',
+];
+
+const INVOICE_ACCESS_SELECT = `
+  SELECT i.*, b.tip_amount,
+    c.user_id as customer_user_id, p.user_id as provider_user_id
+  FROM invoices i
+  JOIN bookings b ON i.booking_id = b.id
+  JOIN customers c ON i.customer_id = c.id
+  LEFT JOIN providers p ON i.provider_id = p.id`;
+
+@Injectable()
+export class InvoicesService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Issue the invoice of a booking that has just completed
+   * Runs inside the completion transaction: the financial year's counter
+   * row stays locked until commit, so numbers are sequential without gaps.
+   */
+  async issueInvoice(bookingId: string, client: PoolClient): Promise<Invoice> {
+    const existing = await client.query<Invoice>(
+      `SELECT * FROM invoices WHERE booking_id = $1`,
+      [bookingId],
+    );
+
+    if (existing.rows[0]) {
+      return this.toInvoice(existing.rows[0]);
+    }
+
+    const source = await this.getSource(bookingId, client);
+    const issuedAt = new Date();
+    const year = financialYear(issuedAt, this.utcOffsetMinutes());
+
+    const sequence = await client.query<{ last_number: number }>(
+      `INSERT INTO invoice_sequences (financial_year, last_number)
+       VALUES ($1, 1)
+       ON CONFLICT (financial_year) DO UPDATE
+       SET last_number = invoice_sequences.last_number + 1
+       RETURNING last_number`,
+      [year],
+    );
+    const sequenceNumber = sequence.rows[0].last_number;
+
+    const sacCode =
+      source.hsn_sac_code ||
+      this.configService.get<string>('invoice.defaultSacCode', '999799');
+    const supplierState = this.configService.get<string>(
+      'invoice.platformState',
+      'Karnataka',
+    );
+    // Without a saved address the job is taken to be in the supplier's state
+    const placeOfSupply = source.state || supplierState;
+
+    const total = MoneyUtil.toNumber(
+      source.final_price ?? source.estimated_price,
+    );
+    const taxAmount = MoneyUtil.toNumber(source.tax_amount);
+    const discountAmount = MoneyUtil.toNumber(source.discount_amount);
+    const taxableAmount = MoneyUtil.round(total - taxAmount);
+    const taxPercent = MoneyUtil.toNumber(
+      source.quote_tax_percent ??
+        this.configService.get<number>('pricing.taxPercent', 18),
+    );
+
+    const gst = splitGst(taxAmount, taxPercent, supplierState, placeOfSupply);
+    const lines = await this.buildLines(
+      bookingId,
+      source,
+      sacCode,
+      MoneyUtil.round(taxableAmount + discountAmount),
+      client,
+    );
+
+    const result = await client.query<Invoice>(
+      `INSERT INTO invoices (
+        invoice_number, financial_year, sequence_number, booking_id,
+        booking_number, customer_id, provider_id, supplier_name,
+        supplier_gstin, supplier_address, supplier_state, provider_name,
+        provider_gstin, customer_name, customer_address, place_of_supply,
+        lines, subtotal, discount_amount, taxable_amount, tax_percent,
+        cgst_rate, cgst_amount, sgst_rate, sgst_amount, igst_rate,
+        igst_amount, tax_amount, total, issued_at
+       )
+       VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+        $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28,
+        $29, $30
+       )
+       RETURNING *`,
+      [
+        this.formatNumber(year, sequenceNumber),
+        year,
+        sequenceNumber,
+        bookingId,
+        source.booking_number,
+        source.customer_id,
+        source.provider_id,
+        this.configService.get<string>('invoice.platformName', 'ServiGroww'),
+        this.configService.get<string>('invoice.platformGstin'),
+        this.configService.get<string>('invoice.platformAddress'),
+        supplierState,
+        source.provider_name,
+        source.provider_gstin,
+        source.customer_name,
+        this.formatAddress(source),
+        placeOfSupply,
+        JSON.stringify(lines),
+        MoneyUtil.round(taxableAmount + discountAmount),
+        discountAmount,
+        taxableAmount,
+        taxPercent,
+        gst.cgst_rate,
+        gst.cgst_amount,
+        gst.sgst_rate,
+        gst.sgst_amount,
+        gst.igst_rate,
+        gst.igst_amount,
+        taxAmount,
+        total,
+        issuedAt,
+      ],
+    );
+
+    return this.toInvoice(result.rows[0]);
+  }
+
+  /**
+   * Get an invoice (its customer, its provider or Admin)
+   */
+  async getInvoiceForUser(id: string, user: User): Promise<Invoice> {
+    return await this.findForUser(`i.id = $1`, id, user);
+  }
+
+  /**
+   * Get the invoice of a booking (its customer, its provider or Admin)
+   */
+  async getBookingInvoice(bookingId: string, user: User): Promise<Invoice> {
+    return await this.findForUser(`i.booking_id = $1`, bookingId, user);
+  }
+
+  /**
+   * Get all invoices, optionally for one financial year (Admin only)
+   */
+  async getAllInvoices(
+    page = 1,
+    limit = 20,
+    year?: string,
+  ): Promise<{
+    invoices: Invoice[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+    const params: unknown[] = [];
+    let whereClause = '';
+
+    if (year) {
+      params.push(year);
+      whereClause = `WHERE financial_year = $1`;
+    }
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM invoices ${whereClause}`,
+      params,
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const invoices = await this.db.queryMany<Invoice>(
+      `SELECT * FROM invoices
+       ${whereClause}
+       ORDER BY financial_year DESC, sequence_number DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset],
+    );
+
+    return {
+      invoices: invoices.map((invoice) => this.toInvoice(invoice)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Printable HTML of an invoice
+   */
+  renderHtml(invoice: Invoice): string {
+    return renderInvoiceHtml(invoice, this.utcOffsetMinutes());
+  }
+
+  /**
+   * PDF of an invoice
+   */
+  renderPdf(invoice: Invoice): Buffer {
+    return renderInvoicePdf(invoice, this.utcOffsetMinutes());
+  }
+
+  private async findForUser(
+    condition: string,
+    value: string,
+    user: User,
+  ): Promise<Invoice> {
+    const row = await this.db.queryOne<
+      Invoice & { customer_user_id: string; provider_user_id?: string }
+    >(`${INVOICE_ACCESS_SELECT} WHERE ${condition}`, [value]);
+
+    if (!row) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    const { customer_user_id, provider_user_id, ...invoice } = row;
+
+    if (
+      user.role !== UserRole.ADMIN &&
+      customer_user_id !== user.id &&
+      provider_user_id !== user.id
+    ) {
+      throw new ForbiddenException('You do not have access to this invoice');
+    }
+
+    return this.toInvoice(invoice as Invoice);
+  }
+
+  /**
+   * Booking, parties, address and quote in the shape the invoice needs
+   */
+  private async getSource(
+    bookingId: string,
+    client: PoolClient,
+  ): Promise<InvoiceSource> {
+    const result = await client.query<InvoiceSource>(
+      `SELECT
+        b.booking_number, b.customer_id, b.provider_id, b.final_price,
+        b.estimated_price, b.tax_amount, b.discount_amount,
+        s.name as service_name,
+        s.hsn_sac_code,
+        cu.name as customer_name,
+        pu.name as provider_name,
+        p.gstin as provider_gstin,
+        a.street, a.city, a.state, a.postal_code,
+        q.subtotal as quote_subtotal,
+        q.travel_surcharge as quote_travel_surcharge,
+        q.tax_percent as quote_tax_percent
+       FROM bookings b
+       JOIN services s ON b.service_id = s.id
+       JOIN customers c ON b.customer_id = c.id
+       JOIN users cu ON c.user_id = cu.id
+       LEFT JOIN providers p ON b.provider_id = p.id
+       LEFT JOIN users pu ON p.user_id = pu.id
+       LEFT JOIN addresses a ON b.address_id = a.id
+       LEFT JOIN booking_quotes q ON b.quote_id = q.id
+       WHERE b.id = $1`,
+      [bookingId],
+    );
+
+    if (!result.rows[0]) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Invoice lines before discount: the quoted service, travel, and any
+   * approved add-ons with their materials listed separately
+   */
+  private async buildLines(
+    bookingId: string,
+    source: InvoiceSource,
+    sacCode: string,
+    subtotal: number,
+    client: PoolClient,
+  ): Promise<InvoiceLine[]> {
+    const line = (
+      description: string,
+      quantity: number,
+      unitPrice: number,
+    ) => ({
+      description,
+      hsn_sac: sacCode,
+      quantity,
+      unit_price: MoneyUtil.round(unitPrice),
+      amount: MoneyUtil.round(quantity * unitPrice),
+    });
+
+    // Bookings priced before quotes existed are billed as one line
+    if (source.quote_subtotal == null) {
+      return [line(source.service_name, 1, subtotal)];
+    }
+
+    const travel = MoneyUtil.toNumber(source.quote_travel_surcharge);
+    const lines = [
+      line(
+        source.service_name,
+        1,
+        MoneyUtil.toNumber(source.quote_subtotal) - travel,
+      ),
+    ];
+
+    if (travel > 0) {
+      lines.push(line('Travel charge', 1, travel));
+    }
+
+    const addOns = await client.query<{
+      description: string;
+      quantity: string;
+      unit_price: string;
+      material_cost: string;
+    }>(
+      `SELECT description, quantity, unit_price, material_cost
+       FROM booking_line_items
+       WHERE booking_id = $1 AND status = 'approved'
+       ORDER BY created_at`,
+      [bookingId],
+    );
+
+    addOns.rows.forEach((item) => {
+      lines.push(
+        line(
+          item.description,
+          MoneyUtil.toNumber(item.quantity),
+          MoneyUtil.toNumber(item.unit_price),
+        ),
+      );
+
+      const materials = MoneyUtil.toNumber(item.material_cost);
+      if (materials > 0) {
+        lines.push(line(`Materials: ${item.description}`, 1, materials));
+      }
+    });
+
+    return lines;
+  }
+
+  private formatNumber(year: string, sequenceNumber: number): string {
+    const prefix = this.configService.get<string>('invoice.prefix', 'SG');
+    // 2026-27 -> 26-27
+    return `${prefix}/${year.slice(2)}/${String(sequenceNumber).padStart(6, '0')}`;
+  }
+
+  private utcOffsetMinutes(): number {
+    return this.configService.get<number>('scheduling.utcOffsetMinutes', 330);
+  }
+
+  private formatAddress(source: InvoiceSource): string | undefined {
+    const parts = [
+      source.street,
+      source.city,
+      source.state,
+      source.postal_code,
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+
+  /**
+   * NUMERIC columns come back from pg as strings
+   */
+  private toInvoice(row: Invoice): Invoice {
+    const invoice = { ...row };
+
+    NUMERIC_FIELDS.forEach((field) => {
+      (invoice[field] as number) = MoneyUtil.toNumber(
+        invoice[field] as string | number,
+      );
+    });
+
+    invoice.lines = invoice.lines.map((line) => ({
+      ...line,
+      quantity: MoneyUtil.toNumber(line.quantity),
+      unit_price: MoneyUtil.toNumber(line.unit_price),
+      amount: MoneyUtil.toNumber(line.amount),
+    }));
+
+    return invoice;
+  }
+}
@@ -0,0 +1,66 @@
+import { LedgerAccount } from '../../types/database.types';
+import { isBalanced, shareLines, splitBookingAmount } from './journal';
+
+describe('splitBookingAmount', () => {
+  const booking = {
+    final_amount: '1180.00',
+    provider_earnings: '850.00',
+    tax_amount: '180.00',
+  };
+
+  it('splits a full payment into the booking price components', () => {
+    expect(splitBookingAmount(1180, booking)).toEqual({
+      provider: 850,
+      tax: 180,
+      revenue: 150,
+    });
+  });
+
+  it('keeps part payments adding up to the amount', () => {
+    const shares = splitBookingAmount(333.33, booking);
+    expect(shares.provider + shares.tax + shares.revenue).toBeCloseTo(
+      333.33,
+      10,
+    );
+  });
+});
+
+describe('shareLines', () => {
+  it('gives the provider share to the platform when there is no provider', () => {
+    const lines = shareLines({ provider: 85, tax: 18, revenue: 15 }, 'credit');
+    expect(lines).toEqual([
+      { account: LedgerAccount.TAX_PAYABLE, credit: 18 },
+      { account: LedgerAccount.PLATFORM_REVENUE, credit: 100 },
+    ]);
+  });
+});
+
+describe('isBalanced', () => {
+  it('accepts entries whose debits equal credits', () => {
+    expect(
+      isBalanced([
+        { account: LedgerAccount.GATEWAY_CLEARING, debit: 0.3 },
+        { account: LedgerAccount.PLATFORM_REVENUE, credit: 0.1 },
+        { account: LedgerAccount.TAX_PAYABLE, credit: 0.2 },
+      ]),
+    ).toBe(true);
+  });
+
+  it('rejects one-sided, two-sided and single lines', () => {
+    expect(
+      isBalanced([
+        { account: LedgerAccount.GATEWAY_CLEARING, debit: 10 },
+        { account: LedgerAccount.PLATFORM_REVENUE, credit: 9.99 },
+      ]),
+    ).toBe(false);
+    expect(
+      isBalanced([
+        { account: LedgerAccount.GATEWAY_CLEARING, debit: 10, credit: 10 },
+        { account: LedgerAccount.PLATFORM_REVENUE },
+      ]),
+    ).toBe(false);
+    expect(
+      isBalanced([{ account: LedgerAccount.GATEWAY_CLEARING, debit: 0 }]),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { LedgerAccount } from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+
+export interface JournalLine {
+  account: LedgerAccount;
+  // User for customer wallets, provider for provider wallets
+  owner_id?: string;
+  debit?: number;
+  credit?: number;
+}
+
+export interface BookingShares {
+  provider: number;
+  tax: number;
+  revenue: number;
+}
+
+/**
+ * Split money paid against a booking in the proportions of its price
+ * (provider earnings, GST, and the platform fee as the rest)
+ * Rounding lands in revenue, so the shares always add up to the amount.
+ */
+export function splitBookingAmount(
+  amount: number,
+  booking: {
+    final_amount: string | number;
+    provider_earnings?: string | number | null;
+    tax_amount?: string | number | null;
+  },
+): BookingShares {
+  const total = MoneyUtil.toNumber(booking.final_amount);
+
+  if (total <= 0) {
+    return { provider: 0, tax: 0, revenue: MoneyUtil.round(amount) };
+  }
+
+  const provider = MoneyUtil.round(
+    (amount * MoneyUtil.toNumber(booking.provider_earnings)) / total,
+  );
+  const tax = MoneyUtil.round(
+    (amount * MoneyUtil.toNumber(booking.tax_amount)) / total,
+  );
+
+  return {
+    provider,
+    tax,
+    revenue: MoneyUtil.round(amount - provider - tax),
+  };
+}
+
+/**
+ * Lines moving booking shares on one side of an entry
+ * Without a provider, their share stays with the platform.
+ */
+export function shareLines(
+  shares: BookingShares,
+  side: 'debit' | 'credit',
+  providerId?: string,
+): JournalLine[] {
+  const lines: JournalLine[] = [
+    { account: LedgerAccount.TAX_PAYABLE, [side]: shares.tax },
+    {
+      account: LedgerAccount.PLATFORM_REVENUE,
+      [side]: providerId
+        ? shares.revenue
+        : MoneyUtil.round(shares.revenue + shares.provider),
+    },
+  ];
+
+  if (providerId) {
+    lines.unshift({
+      account: LedgerAccount.PROVIDER_WALLET,
+      owner_id: providerId,
+      [side]: shares.provider,
+    });
+  }
+
+  return lines.filter((line) => (line[side] ?? 0) > 0);
+}
+
+/**
+ * Whether lines form a valid entry: at least two, each on exactly one
+ * side with a positive amount, debits equal to credits to the paisa
+ */
+export function isBalanced(lines: JournalLine[]): boolean {
+  if (lines.length < 2) {
+    return false;
+  }
+
+  let paise = 0;
+  for (const line of lines) {
+    const debit = line.debit ?? 0;
+    const credit = line.credit ?? 0;
+
+    if (debit < 0 || credit < 0 || debit > 0 === credit > 0) {
+      return false;
+    }
+    paise += Math.round(debit * 100) - Math.round(credit * 100);
+  }
+
+  return paise === 0;
+}
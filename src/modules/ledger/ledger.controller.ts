@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('ledger')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class LedgerController {
+  constructor(private ledgerService: LedgerService) {}
+
+  /**
+   * GET /api/v1/ledger/entries
+   * Get journal entries with their lines (Admin only)
+   * Query params: booking_id, payment_id, page, limit (optional)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get('entries')
+  async getEntries(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('booking_id') bookingId?: string,
+    @Query('payment_id') paymentId?: string,
+  ) {
+    const result = await this.ledgerService.getEntries(page, limit, {
+      booking_id: bookingId,
+      payment_id: paymentId,
+    });
+    return ResponseUtil.success(result);
+  }
+
+  /**
+   * GET /api/v1/ledger/reconciliation
+   * Check the ledger balances and flag wallets that drifted from it
+   * (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get('reconciliation')
+  async getReconciliation() {
+    const report = await this.ledgerService.getReconciliation();
+    return ResponseUtil.success(report);
+  }
+}
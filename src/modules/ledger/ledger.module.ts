@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { LedgerController } from './ledger.controller';
+import { LedgerService } from './ledger.service';
+import { WalletsModule } from '../wallets/wallets.module';
+
+@Module({
+  imports: [WalletsModule],
+  controllers: [LedgerController],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
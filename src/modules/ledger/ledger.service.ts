@@ -0,0 +1,336 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import {
+  JournalEntry,
+  JournalKind,
+  LedgerAccount,
+  LedgerLine,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { WalletsService } from '../wallets/wallets.service';
+import { ProviderWalletsService } from '../wallets/provider-wallets.service';
+import { isBalanced, JournalLine } from './journal';
+
+export interface JournalInput {
+  kind: JournalKind;
+  description: string;
+  booking_id?: string;
+  payment_id?: string;
+  refund_id?: string;
+  payout_id?: string;
+  lines: JournalLine[];
+}
+
+export interface PostedJournal extends JournalEntry {
+  lines: LedgerLine[];
+}
+
+export interface WalletMismatch {
+  account: LedgerAccount;
+  owner_id: string;
+  cached_balance: number;
+  ledger_balance: number;
+  difference: number;
+}
+
+export interface LedgerReconciliation {
+  generated_at: Date;
+  // No unbalanced entries and no wallet drift
+  balanced: boolean;
+  trial_balance: {
+    account: LedgerAccount;
+    debits: number;
+    credits: number;
+  }[];
+  unbalanced_entries: {
+    id: string;
+    kind: JournalKind;
+    debits: number;
+    credits: number;
+    created_at: Date;
+  }[];
+  wallet_mismatches: WalletMismatch[];
+}
+
+/**
+ * Wallet accounts and the table caching their balances
+ */
+const WALLET_CACHES: Partial<
+  Record<LedgerAccount, { table: string; owner: string }>
+> = {
+  [LedgerAccount.CUSTOMER_WALLET]: { table: 'wallets', owner: 'user_id' },
+  [LedgerAccount.PROVIDER_WALLET]: {
+    table: 'provider_wallets',
+    owner: 'provider_id',
+  },
+};
+
+@Injectable()
+export class LedgerService {
+  constructor(
+    private db: DatabaseService,
+    private walletsService: WalletsService,
+    private providerWalletsService: ProviderWalletsService,
+  ) {}
+
+  /**
+   * Post a balanced journal entry inside the caller's transaction
+   * Wallet lines move the cached wallet balances in the same transaction;
+   * wallets are liabilities, so a credit adds to the balance.
+   */
+  async post(input: JournalInput, client: PoolClient): Promise<PostedJournal> {
+    const lines = input.lines
+      .map((line) => ({
+        ...line,
+        debit: MoneyUtil.round(line.debit ?? 0),
+        credit: MoneyUtil.round(line.credit ?? 0),
+      }))
+      .filter((line) => line.debit > 0 || line.credit > 0);
+
+    if (!isBalanced(lines)) {
+      throw new InternalServerErrorException(
+        `Journal entry for ${input.kind} does not balance`,
+      );
+    }
+
+    if (lines.some((line) => WALLET_CACHES[line.account] && !line.owner_id)) {
+      throw new InternalServerErrorException(
+        `Journal entry for ${input.kind} has a wallet line without an owner`,
+      );
+    }
+
+    const result = await client.query<JournalEntry>(
+      `INSERT INTO journal_entries (
+        kind, description, booking_id, payment_id, refund_id, payout_id
+       )
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        input.kind,
+        input.description,
+        input.booking_id,
+        input.payment_id,
+        input.refund_id,
+        input.payout_id,
+      ],
+    );
+    const entry = result.rows[0];
+    const posted: LedgerLine[] = [];
+
+    for (const line of lines) {
+      const inserted = await client.query<LedgerLine>(
+        `INSERT INTO ledger_lines (
+          journal_entry_id, account, owner_id, debit, credit
+         )
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [entry.id, line.account, line.owner_id, line.debit, line.credit],
+      );
+      posted.push(inserted.rows[0]);
+
+      await this.applyToWallet(line, input, client);
+    }
+
+    return { ...entry, lines: posted };
+  }
+
+  /**
+   * Journal entries, newest first (Admin only)
+   */
+  async getEntries(
+    page = 1,
+    limit = 20,
+    filters: { booking_id?: string; payment_id?: string } = {},
+  ): Promise<{
+    entries: PostedJournal[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.booking_id) {
+      params.push(filters.booking_id);
+      conditions.push(`je.booking_id = $${params.length}`);
+    }
+
+    if (filters.payment_id) {
+      params.push(filters.payment_id);
+      conditions.push(`je.payment_id = $${params.length}`);
+    }
+
+    const whereClause =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM journal_entries je ${whereClause}`,
+      params,
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const entries = await this.db.queryMany<PostedJournal>(
+      `SELECT je.*, COALESCE((
+          SELECT json_agg(l ORDER BY l.debit DESC, l.account)
+          FROM ledger_lines l WHERE l.journal_entry_id = je.id
+        ), '[]') as lines
+       FROM journal_entries je
+       ${whereClause}
+       ORDER BY je.created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset],
+    );
+
+    return { entries, total, page, limit };
+  }
+
+  /**
+   * Check the ledger against itself and against cached wallet balances
+   * (Admin only)
+   */
+  async getReconciliation(): Promise<LedgerReconciliation> {
+    const trialBalance = await this.db.queryMany<{
+      account: LedgerAccount;
+      debits: string;
+      credits: string;
+    }>(
+      `SELECT account, SUM(debit) as debits, SUM(credit) as credits
+       FROM ledger_lines
+       GROUP BY account
+       ORDER BY account`,
+    );
+
+    const unbalanced = await this.db.queryMany<{
+      id: string;
+      kind: JournalKind;
+      debits: string;
+      credits: string;
+      created_at: Date;
+    }>(
+      `SELECT je.id, je.kind, je.created_at,
+        COALESCE(SUM(l.debit), 0) as debits,
+        COALESCE(SUM(l.credit), 0) as credits
+       FROM journal_entries je
+       LEFT JOIN ledger_lines l ON l.journal_entry_id = je.id
+       GROUP BY je.id
+       HAVING COALESCE(SUM(l.debit), 0) != COALESCE(SUM(l.credit), 0)
+         OR COUNT(l.id) < 2
+       ORDER BY je.created_at DESC`,
+    );
+
+    const mismatches: WalletMismatch[] = [];
+    for (const account of [
+      LedgerAccount.CUSTOMER_WALLET,
+      LedgerAccount.PROVIDER_WALLET,
+    ]) {
+      mismatches.push(...(await this.findWalletMismatches(account)));
+    }
+
+    return {
+      generated_at: new Date(),
+      balanced: unbalanced.length === 0 && mismatches.length === 0,
+      trial_balance: trialBalance.map((row) => ({
+        account: row.account,
+        debits: MoneyUtil.toNumber(row.debits),
+        credits: MoneyUtil.toNumber(row.credits),
+      })),
+      unbalanced_entries: unbalanced.map((row) => ({
+        ...row,
+        debits: MoneyUtil.toNumber(row.debits),
+        credits: MoneyUtil.toNumber(row.credits),
+      })),
+      wallet_mismatches: mismatches,
+    };
+  }
+
+  private async applyToWallet(
+    line: JournalLine & { debit: number; credit: number },
+    input: JournalInput,
+    client: PoolClient,
+  ): Promise<void> {
+    const amount = MoneyUtil.round(line.credit - line.debit);
+
+    if (line.account === LedgerAccount.CUSTOMER_WALLET) {
+      await (amount > 0
+        ? this.walletsService.credit(
+            line.owner_id!,
+            amount,
+            input.description,
+            client,
+          )
+        : this.walletsService.debit(
+            line.owner_id!,
+            -amount,
+            input.description,
+            client,
+          ));
+    } else if (line.account === LedgerAccount.PROVIDER_WALLET) {
+      const refs = {
+        booking_id: input.booking_id,
+        payment_id: input.payment_id,
+      };
+      await (amount > 0
+        ? this.providerWalletsService.credit(
+            line.owner_id!,
+            amount,
+            input.description,
+            client,
+            refs,
+          )
+        : this.providerWalletsService.debit(
+            line.owner_id!,
+            -amount,
+            input.description,
+            client,
+            refs,
+          ));
+    }
+  }
+
+  /**
+   * Wallets whose cached balance differs from their ledger account,
+   * including wallets missing on either side
+   */
+  private async findWalletMismatches(
+    account: LedgerAccount,
+  ): Promise<WalletMismatch[]> {
+    const { table, owner } = WALLET_CACHES[account]!;
+
+    const rows = await this.db.queryMany<{
+      owner_id: string;
+      cached_balance: string;
+      ledger_balance: string;
+    }>(
+      `WITH ledger AS (
+         SELECT owner_id, SUM(credit - debit) as balance
+         FROM ledger_lines
+         WHERE account = $1
+         GROUP BY owner_id
+       )
+       SELECT
+         COALESCE(w.${owner}, l.owner_id) as owner_id,
+         COALESCE(w.balance, 0) as cached_balance,
+         COALESCE(l.balance, 0) as ledger_balance
+       FROM ${table} w
+       FULL OUTER JOIN ledger l ON l.owner_id = w.${owner}
+       WHERE COALESCE(w.balance, 0) != COALESCE(l.balance, 0)
+       ORDER BY owner_id`,
+      [account],
+    );
+
+    return rows.map((row) => {
+      const cached = MoneyUtil.toNumber(row.cached_balance);
+      const ledger = MoneyUtil.toNumber(row.ledger_balance);
+
+      return {
+        account,
+        owner_id: row.owner_id,
+        cached_balance: cached,
+        ledger_balance: ledger,
+        difference: MoneyUtil.round(cached - ledger),
+      };
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+
+export class SetCategoryEarnRateDto {
+  // Null goes back to the platform default
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  earn_percent: number | null;
+}
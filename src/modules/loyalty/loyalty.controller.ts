@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import { LoyaltyService } from './loyalty.service';
+import { SetCategoryEarnRateDto } from './dto/set-category-earn-rate.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('loyalty')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class LoyaltyController {
+  constructor(private loyaltyService: LoyaltyService) {}
+
+  /**
+   * GET /api/v1/loyalty
+   * Get my points balance and next expiry
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Get()
+  async getAccount(@CurrentUser() user: databaseTypes.User) {
+    const account = await this.loyaltyService.getAccount(user.id);
+    return ResponseUtil.success(account);
+  }
+
+  /**
+   * GET /api/v1/loyalty/transactions
+   * Get my points statement
+   * Query params: page, limit
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Get('transactions')
+  async getStatement(
+    @CurrentUser() user: databaseTypes.User,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    const result = await this.loyaltyService.getStatement(user.id, page, limit);
+    return ResponseUtil.success(result);
+  }
+
+  /**
+   * PUT /api/v1/loyalty/categories/:categoryId
+   * Set a category's points earn rate (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Put('categories/:categoryId')
+  async setCategoryEarnRate(
+    @Param('categoryId') categoryId: string,
+    @Body() rateDto: SetCategoryEarnRateDto,
+  ) {
+    const category = await this.loyaltyService.setCategoryEarnRate(
+      categoryId,
+      rateDto.earn_percent ?? null,
+    );
+    return ResponseUtil.success(category, 'Earn rate updated');
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { LoyaltyController } from './loyalty.controller';
+import { LoyaltyService, LOYALTY_QUEUE } from './loyalty.service';
+import { LoyaltyProcessor } from './loyalty.processor';
+
+@Module({
+  imports: [BullModule.registerQueue({ name: LOYALTY_QUEUE })],
+  controllers: [LoyaltyController],
+  providers: [LoyaltyService, LoyaltyProcessor],
+  exports: [LoyaltyService],
+})
+export class LoyaltyModule {}
@@ -0,0 +1,19 @@
+import { Process, Processor } from '@nestjs/bull';
+import {
+  LoyaltyService,
+  LOYALTY_QUEUE,
+  EXPIRE_POINTS_JOB,
+} from './loyalty.service';
+
+@Processor(LOYALTY_QUEUE)
+export class LoyaltyProcessor {
+  constructor(private loyaltyService: LoyaltyService) {}
+
+  /**
+   * Daily points expiry
+   */
+  @Process(EXPIRE_POINTS_JOB)
+  async handleExpire() {
+    await this.loyaltyService.expirePoints();
+  }
+}
@@ -0,0 +1,551 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { PoolClient } from 'pg';
+import { addMonths } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import {
+  LoyaltyTransaction,
+  LoyaltyTransactionType,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { pointsFor, takeFromLots } from './points';
+
+export const LOYALTY_QUEUE = 'loyalty';
+export const EXPIRE_POINTS_JOB = 'expire-points';
+
+export interface LoyaltyAccount {
+  points: number;
+  // Rupee value of the balance
+  value: number;
+  next_expiry?: { points: number; expires_at: Date };
+}
+
+/**
+ * Transactions that open a lot of spendable points
+ */
+const LOT_TYPES = [LoyaltyTransactionType.EARN, LoyaltyTransactionType.RESTORE];
+
+@Injectable()
+export class LoyaltyService implements OnModuleInit {
+  private readonly logger = new Logger(LoyaltyService.name);
+
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    @InjectQueue(LOYALTY_QUEUE) private loyaltyQueue: Queue,
+  ) {}
+
+  /**
+   * Expire points daily
+   */
+  async onModuleInit() {
+    await this.loyaltyQueue.add(
+      EXPIRE_POINTS_JOB,
+      {},
+      {
+        jobId: EXPIRE_POINTS_JOB,
+        repeat: { cron: '15 2 * * *' },
+        removeOnComplete: true,
+      },
+    );
+  }
+
+  /**
+   * Points balance and the next points to expire (Customer)
+   * Lots past their expiry are written off before the balance is read.
+   */
+  async getAccount(userId: string): Promise<LoyaltyAccount> {
+    return await this.db.transaction(async (client: PoolClient) => {
+      const points = await this.lockAccount(userId, client);
+      const balance = points - (await this.expireDue(userId, client));
+
+      const next = await client.query<{ points: number; expires_at: Date }>(
+        `SELECT SUM(remaining)::int as points, expires_at
+         FROM loyalty_transactions
+         WHERE user_id = $1 AND type = ANY($2) AND remaining > 0
+         GROUP BY expires_at
+         ORDER BY expires_at
+         LIMIT 1`,
+        [userId, LOT_TYPES],
+      );
+
+      return {
+        points: balance,
+        value: this.valueOf(balance),
+        next_expiry: next.rows[0],
+      };
+    });
+  }
+
+  /**
+   * Points earned, spent and expired, newest first (Customer)
+   */
+  async getStatement(
+    userId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    transactions: LoyaltyTransaction[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM loyalty_transactions WHERE user_id = $1`,
+      [userId],
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const transactions = await this.db.queryMany<LoyaltyTransaction>(
+      `SELECT * FROM loyalty_transactions
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [userId, limit, offset],
+    );
+
+    return { transactions, total, page, limit };
+  }
+
+  /**
+   * Set a category's earn rate; null falls back to the default (Admin only)
+   */
+  async setCategoryEarnRate(
+    categoryId: string,
+    earnPercent: number | null,
+  ): Promise<{ id: string; loyalty_earn_percent: number | null }> {
+    const category = await this.db.queryOne<{
+      id: string;
+      loyalty_earn_percent: string | null;
+    }>(
+      `UPDATE service_categories
+       SET loyalty_earn_percent = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING id, loyalty_earn_percent`,
+      [earnPercent, categoryId],
+    );
+
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    return {
+      id: category.id,
+      loyalty_earn_percent:
+        category.loyalty_earn_percent == null
+          ? null
+          : MoneyUtil.toNumber(category.loyalty_earn_percent),
+    };
+  }
+
+  /**
+   * Rupee discount for redeeming points on an order
+   * Throws when the customer does not have the points or the order's cap
+   * is exceeded; nothing is spent until the booking is made.
+   */
+  async quoteRedemption(
+    userId: string,
+    points: number,
+    orderAmount: number,
+  ): Promise<number> {
+    const balance = await this.db.queryOne<{ points: number }>(
+      `SELECT COALESCE(SUM(remaining), 0)::int as points
+       FROM loyalty_transactions
+       WHERE user_id = $1 AND type = ANY($2) AND remaining > 0
+         AND expires_at > CURRENT_TIMESTAMP`,
+      [userId, LOT_TYPES],
+    );
+
+    if (points > (balance?.points ?? 0)) {
+      throw new BadRequestException('Not enough loyalty points');
+    }
+
+    const cap = Math.min(
+      MoneyUtil.percentage(
+        orderAmount,
+        this.configService.get<number>('loyalty.maxRedeemPercent', 20),
+      ),
+      orderAmount,
+    );
+    const maxPoints = Math.floor(cap / this.pointValue());
+
+    if (points > maxPoints) {
+      throw new BadRequestException(
+        `You can redeem at most ${maxPoints} points on this booking`,
+      );
+    }
+
+    return this.valueOf(points);
+  }
+
+  /**
+   * Award points for a completed booking inside the caller's transaction
+   */
+  async earnForBooking(bookingId: string, client: PoolClient): Promise<void> {
+    const result = await client.query<{
+      booking_number: string;
+      user_id: string;
+      final_price: string;
+      earn_percent: string | null;
+    }>(
+      `SELECT b.booking_number, c.user_id, b.final_price,
+        sc.loyalty_earn_percent as earn_percent
+       FROM bookings b
+       JOIN customers c ON b.customer_id = c.id
+       JOIN services s ON b.service_id = s.id
+       LEFT JOIN service_categories sc ON s.category_id = sc.id
+       WHERE b.id = $1
+         AND NOT EXISTS (
+           SELECT 1 FROM loyalty_transactions
+           WHERE booking_id = b.id AND type = $2
+         )`,
+      [bookingId, LoyaltyTransactionType.EARN],
+    );
+    const booking = result.rows[0];
+
+    if (!booking) {
+      return;
+    }
+
+    const points = pointsFor(
+      MoneyUtil.toNumber(booking.final_price),
+      booking.earn_percent == null
+        ? this.configService.get<number>('loyalty.earnPercent', 2)
+        : MoneyUtil.toNumber(booking.earn_percent),
+      this.pointValue(),
+    );
+
+    if (points <= 0) {
+      return;
+    }
+
+    await this.lockAccount(booking.user_id, client);
+    await this.addLot(
+      booking.user_id,
+      points,
+      LoyaltyTransactionType.EARN,
+      bookingId,
+      `Earned on booking ${booking.booking_number}`,
+      client,
+    );
+  }
+
+  /**
+   * Spend points on a booking inside the caller's transaction, oldest
+   * points first
+   */
+  async redeemForBooking(
+    userId: string,
+    points: number,
+    bookingId: string,
+    client: PoolClient,
+  ): Promise<void> {
+    const balance = await this.lockAccount(userId, client);
+
+    if (points > balance - (await this.expireDue(userId, client))) {
+      throw new ConflictException('Not enough loyalty points');
+    }
+
+    await this.take(
+      userId,
+      points,
+      LoyaltyTransactionType.REDEEM,
+      bookingId,
+      'Redeemed on a booking',
+      client,
+    );
+  }
+
+  /**
+   * Give back points a cancelled booking spent
+   * They come back as a new lot with a fresh expiry.
+   */
+  async restoreForBooking(
+    bookingId: string,
+    client?: PoolClient,
+  ): Promise<void> {
+    const restore = async (tx: PoolClient) => {
+      const result = await tx.query<{ user_id: string; points: number }>(
+        `SELECT user_id, -SUM(points)::int as points
+         FROM loyalty_transactions
+         WHERE booking_id = $1 AND type = ANY($2)
+         GROUP BY user_id`,
+        [
+          bookingId,
+          [LoyaltyTransactionType.REDEEM, LoyaltyTransactionType.RESTORE],
+        ],
+      );
+      const spent = result.rows[0];
+
+      if (!spent || spent.points <= 0) {
+        return;
+      }
+
+      await this.lockAccount(spent.user_id, tx);
+      await this.addLot(
+        spent.user_id,
+        spent.points,
+        LoyaltyTransactionType.RESTORE,
+        bookingId,
+        'Returned from a cancelled booking',
+        tx,
+      );
+    };
+
+    await (client ? restore(client) : this.db.transaction(restore));
+  }
+
+  /**
+   * Take back points earned on a booking in proportion to a refund
+   * Points already spent elsewhere are not clawed back beyond the
+   * customer's balance.
+   */
+  async reverseForRefund(
+    bookingId: string,
+    refundAmount: number,
+    bookingAmount: number,
+    client: PoolClient,
+  ): Promise<void> {
+    const result = await client.query<{
+      user_id: string;
+      earned: number;
+      reversed: number;
+    }>(
+      `SELECT user_id,
+        SUM(points) FILTER (WHERE type = $2)::int as earned,
+        COALESCE(-SUM(points) FILTER (WHERE type = $3), 0)::int as reversed
+       FROM loyalty_transactions
+       WHERE booking_id = $1 AND type IN ($2, $3)
+       GROUP BY user_id`,
+      [bookingId, LoyaltyTransactionType.EARN, LoyaltyTransactionType.REVERSE],
+    );
+    const earned = result.rows[0];
+
+    if (!earned?.earned || bookingAmount <= 0) {
+      return;
+    }
+
+    const points = Math.min(
+      Math.round((earned.earned * refundAmount) / bookingAmount),
+      earned.earned - earned.reversed,
+    );
+
+    if (points <= 0) {
+      return;
+    }
+
+    const balance = await this.lockAccount(earned.user_id, client);
+    const available = balance - (await this.expireDue(earned.user_id, client));
+
+    await this.take(
+      earned.user_id,
+      Math.min(points, available),
+      LoyaltyTransactionType.REVERSE,
+      bookingId,
+      'Reversed for a refund',
+      client,
+    );
+  }
+
+  /**
+   * Write off every lot past its expiry
+   * Each customer is handled in their own transaction.
+   */
+  async expirePoints(): Promise<number> {
+    const users = await this.db.queryMany<{ user_id: string }>(
+      `SELECT DISTINCT user_id FROM loyalty_transactions
+       WHERE type = ANY($1) AND remaining > 0
+         AND expires_at <= CURRENT_TIMESTAMP`,
+      [LOT_TYPES],
+    );
+    let expired = 0;
+
+    for (const { user_id } of users) {
+      try {
+        expired += await this.db.transaction(async (client: PoolClient) => {
+          await this.lockAccount(user_id, client);
+          return await this.expireDue(user_id, client);
+        });
+      } catch (error) {
+        this.logger.error(
+          `Expiring points for user ${user_id} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Lock the customer's points balance, creating it on first use
+   */
+  private async lockAccount(
+    userId: string,
+    client: PoolClient,
+  ): Promise<number> {
+    await client.query(
+      `INSERT INTO loyalty_points (user_id, points)
+       VALUES ($1, 0)
+       ON CONFLICT (user_id) DO NOTHING`,
+      [userId],
+    );
+    const result = await client.query<{ points: number }>(
+      `SELECT points FROM loyalty_points WHERE user_id = $1 FOR UPDATE`,
+      [userId],
+    );
+
+    return result.rows[0].points;
+  }
+
+  /**
+   * Expire the customer's lots that are due; the account must be locked
+   * Returns the points written off.
+   */
+  private async expireDue(userId: string, client: PoolClient): Promise<number> {
+    const result = await client.query<{ points: number }>(
+      `WITH due AS (
+         SELECT id, remaining FROM loyalty_transactions
+         WHERE user_id = $1 AND type = ANY($2) AND remaining > 0
+           AND expires_at <= CURRENT_TIMESTAMP
+         FOR UPDATE
+       ),
+       spent AS (
+         UPDATE loyalty_transactions lt
+         SET remaining = 0
+         FROM due
+         WHERE lt.id = due.id
+         RETURNING due.remaining
+       )
+       SELECT COALESCE(SUM(remaining), 0)::int as points FROM spent`,
+      [userId, LOT_TYPES],
+    );
+    const points = result.rows[0].points;
+
+    if (points > 0) {
+      await this.record(
+        userId,
+        -points,
+        LoyaltyTransactionType.EXPIRE,
+        undefined,
+        'Points expired',
+        client,
+      );
+    }
+
+    return points;
+  }
+
+  /**
+   * Take points from the customer's lots, the booking's own lot first and
+   * then the oldest; the account must be locked
+   */
+  private async take(
+    userId: string,
+    points: number,
+    type: LoyaltyTransactionType,
+    bookingId: string,
+    description: string,
+    client: PoolClient,
+  ): Promise<void> {
+    if (points <= 0) {
+      return;
+    }
+
+    const lots = await client.query<{ id: string; remaining: number }>(
+      `SELECT id, remaining FROM loyalty_transactions
+       WHERE user_id = $1 AND type = ANY($2) AND remaining > 0
+       ORDER BY booking_id = $3 DESC NULLS LAST, expires_at, created_at
+       FOR UPDATE`,
+      [userId, LOT_TYPES, bookingId],
+    );
+    const taken = takeFromLots(lots.rows, points);
+
+    for (const lot of taken) {
+      await client.query(
+        `UPDATE loyalty_transactions
+         SET remaining = remaining - $1
+         WHERE id = $2`,
+        [lot.points, lot.id],
+      );
+    }
+
+    const total = taken.reduce((sum, lot) => sum + lot.points, 0);
+    await this.record(userId, -total, type, bookingId, description, client);
+  }
+
+  /**
+   * Open a lot of spendable points; the account must be locked
+   */
+  private async addLot(
+    userId: string,
+    points: number,
+    type: LoyaltyTransactionType,
+    bookingId: string,
+    description: string,
+    client: PoolClient,
+  ): Promise<void> {
+    const expiresAt = addMonths(
+      new Date(),
+      this.configService.get<number>('loyalty.expiryMonths', 12),
+    );
+
+    await this.record(userId, points, type, bookingId, description, client, {
+      remaining: points,
+      expires_at: expiresAt,
+    });
+  }
+
+  /**
+   * Write a transaction and move the cached balance by it
+   */
+  private async record(
+    userId: string,
+    points: number,
+    type: LoyaltyTransactionType,
+    bookingId: string | undefined,
+    description: string,
+    client: PoolClient,
+    lot: { remaining?: number; expires_at?: Date } = {},
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO loyalty_transactions (
+        user_id, type, points, remaining, expires_at, booking_id, description
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        userId,
+        type,
+        points,
+        lot.remaining,
+        lot.expires_at,
+        bookingId,
+        description,
+      ],
+    );
+    await client.query(
+      `UPDATE loyalty_points
+       SET points = points + $1, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $2`,
+      [points, userId],
+    );
+  }
+
+  private pointValue(): number {
+    return this.configService.get<number>('loyalty.pointValue', 1);
+  }
+
+  private valueOf(points: number): number {
+    return MoneyUtil.round(points * this.pointValue());
+  }
+}
@@ -0,0 +1,36 @@
+import { pointsFor, takeFromLots } from './points';
+
+describe('pointsFor', () => {
+  it('earns whole points on a percentage of the amount', () => {
+    expect(pointsFor(1150, 2, 1)).toBe(23);
+    expect(pointsFor(999.99, 1, 1)).toBe(9);
+    expect(pointsFor(1000, 5, 2)).toBe(25);
+  });
+
+  it('earns nothing on empty amounts or rates', () => {
+    expect(pointsFor(0, 2, 1)).toBe(0);
+    expect(pointsFor(500, 0, 1)).toBe(0);
+  });
+});
+
+describe('takeFromLots', () => {
+  const lots = [
+    { id: 'oldest', remaining: 30 },
+    { id: 'empty', remaining: 0 },
+    { id: 'newest', remaining: 50 },
+  ];
+
+  it('spends the oldest lots first', () => {
+    expect(takeFromLots(lots, 40)).toEqual([
+      { id: 'oldest', points: 30 },
+      { id: 'newest', points: 10 },
+    ]);
+  });
+
+  it('stops when the lots run out', () => {
+    expect(takeFromLots(lots, 100)).toEqual([
+      { id: 'oldest', points: 30 },
+      { id: 'newest', points: 50 },
+    ]);
+  });
+});
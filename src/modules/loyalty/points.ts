@@ -0,0 +1,49 @@
+export interface PointLot {
+  id: string;
+  remaining: number;
+}
+
+/**
+ * Whole points earned on an amount at a percentage, each point worth
+ * pointValue rupees
+ */
+export function pointsFor(
+  amount: number,
+  earnPercent: number,
+  pointValue: number,
+): number {
+  if (amount <= 0 || earnPercent <= 0 || pointValue <= 0) {
+    return 0;
+  }
+
+  // Round away float noise before flooring (e.g. 1150 * 2 / 100)
+  return Math.floor(
+    Math.round(((amount * earnPercent) / 100 / pointValue) * 1e6) / 1e6,
+  );
+}
+
+/**
+ * Take points from lots in the order given (oldest first), stopping when
+ * the lots run out
+ */
+export function takeFromLots(
+  lots: PointLot[],
+  points: number,
+): { id: string; points: number }[] {
+  const taken: { id: string; points: number }[] = [];
+  let left = points;
+
+  for (const lot of lots) {
+    if (left <= 0) {
+      break;
+    }
+
+    const take = Math.min(lot.remaining, left);
+    if (take > 0) {
+      taken.push({ id: lot.id, points: take });
+      left -= take;
+    }
+  }
+
+  return taken;
+}
@@ -0,0 +1,43 @@
+import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
+import { CancellationFeesService } from './cancellation-fees.service';
+import { CreatePaymentOrderDto } from './dto/create-payment-order.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('payments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CancellationFeesController {
+  constructor(private cancellationFeesService: CancellationFeesService) {}
+
+  /**
+   * GET /api/v1/payments/cancellation-fees
+   * Get cancellation fees still owed (Customer only)
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Get('cancellation-fees')
+  async getFeesDue(@CurrentUser() user: databaseTypes.User) {
+    const fees = await this.cancellationFeesService.getFeesDue(user.id);
+    return ResponseUtil.success(fees);
+  }
+
+  /**
+   * POST /api/v1/payments/cancellation-fees/orders
+   * Pay a cancellation fee by UPI or card (Customer only)
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post('cancellation-fees/orders')
+  async createFeeOrder(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreatePaymentOrderDto,
+  ) {
+    const checkout = await this.cancellationFeesService.createFeeOrder(
+      user,
+      createDto,
+    );
+    return ResponseUtil.success(checkout, 'Payment order created');
+  }
+}
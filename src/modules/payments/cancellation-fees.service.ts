@@ -0,0 +1,184 @@
+import {
+  Injectable,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  CancellationActor,
+  JournalKind,
+  LedgerAccount,
+  PaymentPurpose,
+  PaymentStatus,
+  RefundStatus,
+  User,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { LedgerService } from '../ledger/ledger.service';
+import { PaymentCheckout, PaymentsService } from './payments.service';
+import { CreatePaymentOrderDto } from './dto/create-payment-order.dto';
+
+export interface CancellationFeeDue {
+  booking_id: string;
+  booking_number: string;
+  cancellation_fee: number;
+  cancellation_fee_due: number;
+  cancelled_at: Date;
+}
+
+@Injectable()
+export class CancellationFeesService {
+  constructor(
+    private db: DatabaseService,
+    private ledgerService: LedgerService,
+    private paymentsService: PaymentsService,
+  ) {}
+
+  /**
+   * Charge a cancellation fee, in the cancelling transaction
+   * A provider's fee is taken from their wallet, like commission on cash
+   * jobs. A customer's fee is kept from what they paid; whatever that does
+   * not cover is raised as dues to pay before booking again.
+   */
+  async chargeFee(
+    bookingId: string,
+    actor: CancellationActor,
+    fee: number,
+    client: PoolClient,
+  ): Promise<void> {
+    if (fee <= 0) {
+      return;
+    }
+
+    const booking = await this.paymentsService.getPayableBooking(
+      bookingId,
+      client,
+    );
+
+    if (actor === CancellationActor.PROVIDER && booking.provider_id) {
+      await this.ledgerService.post(
+        {
+          kind: JournalKind.CANCELLATION_FEE,
+          description: `Cancellation fee for booking ${booking.booking_number}`,
+          booking_id: bookingId,
+          lines: [
+            {
+              account: LedgerAccount.PROVIDER_WALLET,
+              owner_id: booking.provider_id,
+              debit: fee,
+            },
+            { account: LedgerAccount.PLATFORM_REVENUE, credit: fee },
+          ],
+        },
+        client,
+      );
+      return;
+    }
+
+    if (actor !== CancellationActor.CUSTOMER) {
+      return;
+    }
+
+    const result = await client.query<{ paid: string }>(
+      `SELECT COALESCE(SUM(pay.amount - COALESCE((
+          SELECT SUM(r.amount) FROM refunds r
+          WHERE r.payment_id = pay.id AND r.status != $2
+        ), 0)), 0) as paid
+       FROM payments pay
+       WHERE pay.booking_id = $1 AND pay.status = $3 AND pay.purpose = $4`,
+      [
+        bookingId,
+        RefundStatus.FAILED,
+        PaymentStatus.COMPLETED,
+        PaymentPurpose.BOOKING,
+      ],
+    );
+    const due = MoneyUtil.round(fee - MoneyUtil.toNumber(result.rows[0].paid));
+
+    if (due > 0) {
+      await client.query(
+        `UPDATE bookings
+         SET cancellation_fee_due = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [due, bookingId],
+      );
+    }
+  }
+
+  /**
+   * Cancellation fees the customer still owes (Customer)
+   */
+  async getFeesDue(userId: string): Promise<CancellationFeeDue[]> {
+    return await this.db.queryMany<CancellationFeeDue>(
+      `SELECT b.id as booking_id, b.booking_number, b.cancellation_fee,
+        b.cancellation_fee_due, b.cancelled_at
+       FROM bookings b
+       JOIN customers c ON b.customer_id = c.id
+       WHERE c.user_id = $1 AND b.cancellation_fee_due > 0
+       ORDER BY b.cancelled_at`,
+      [userId],
+    );
+  }
+
+  /**
+   * Refuse new bookings while a cancellation fee is unpaid
+   */
+  async assertNoFeesDue(userId: string): Promise<void> {
+    const fees = await this.getFeesDue(userId);
+    const total = MoneyUtil.round(
+      fees.reduce(
+        (sum, fee) => sum + MoneyUtil.toNumber(fee.cancellation_fee_due),
+        0,
+      ),
+    );
+
+    if (total > 0) {
+      throw new ConflictException(
+        `Pay the outstanding cancellation fee of ${total} before booking again`,
+      );
+    }
+  }
+
+  /**
+   * Pay a cancellation fee through the gateway (Customer)
+   * The dues are cleared once the payment is captured.
+   */
+  async createFeeOrder(
+    user: User,
+    createDto: CreatePaymentOrderDto,
+  ): Promise<PaymentCheckout> {
+    const booking = await this.db.queryOne<{
+      id: string;
+      booking_number: string;
+      status: BookingStatus;
+      customer_user_id: string;
+      cancellation_fee_due: string;
+    }>(
+      `SELECT b.id, b.booking_number, b.status, b.cancellation_fee_due,
+        c.user_id as customer_user_id
+       FROM bookings b
+       JOIN customers c ON b.customer_id = c.id
+       WHERE b.id = $1`,
+      [createDto.booking_id],
+    );
+
+    if (!booking || booking.customer_user_id !== user.id) {
+      throw new ForbiddenException('You can only pay for your own bookings');
+    }
+
+    const amount = MoneyUtil.toNumber(booking.cancellation_fee_due);
+    if (booking.status !== BookingStatus.CANCELLED || amount <= 0) {
+      throw new ConflictException('No cancellation fee is due on this booking');
+    }
+
+    return await this.paymentsService.openOrder({
+      purpose: PaymentPurpose.CANCELLATION_FEE,
+      booking_id: booking.id,
+      amount,
+      method: createDto.method,
+      receipt: `FEE-${booking.booking_number}`,
+    });
+  }
+}
@@ -0,0 +1,7 @@
+import { IsIn } from 'class-validator';
+import { PaymentMethod } from '../../../types/database.types';
+
+export class CreateDuesOrderDto {
+  @IsIn([PaymentMethod.UPI, PaymentMethod.CARD])
+  method: PaymentMethod;
+}
@@ -0,0 +1,11 @@
+import { IsIn, IsUUID } from 'class-validator';
+import { PaymentMethod } from '../../../types/database.types';
+
+export class CreatePaymentOrderDto {
+  @IsUUID()
+  booking_id: string;
+
+  // Wallet and cash payments do not go through the gateway
+  @IsIn([PaymentMethod.UPI, PaymentMethod.CARD])
+  method: PaymentMethod;
+}
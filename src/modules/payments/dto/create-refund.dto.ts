@@ -0,0 +1,31 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { RefundTrigger } from '../../../types/database.types';
+
+export class CreateRefundDto {
+  // Defaults to everything not yet refunded
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  // Cancellation refunds are issued by the bookings flow, not by hand
+  @IsOptional()
+  @IsIn([RefundTrigger.ADMIN, RefundTrigger.DISPUTE])
+  trigger?: RefundTrigger;
+
+  // Send the money to the customer's wallet instead of back to the gateway
+  @IsOptional()
+  @IsIn(['gateway', 'wallet'])
+  destination?: 'gateway' | 'wallet';
+}
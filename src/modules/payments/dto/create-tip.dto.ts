@@ -0,0 +1,15 @@
+import { IsIn, IsNumber, IsUUID, Max, Min } from 'class-validator';
+import { PaymentMethod } from '../../../types/database.types';
+
+export class CreateTipDto {
+  @IsUUID()
+  booking_id: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  @Max(10000)
+  amount: number;
+
+  @IsIn([PaymentMethod.UPI, PaymentMethod.CARD, PaymentMethod.WALLET])
+  method: PaymentMethod;
+}
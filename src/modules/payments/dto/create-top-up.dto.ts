@@ -0,0 +1,12 @@
+import { IsIn, IsNumber, Max, Min } from 'class-validator';
+import { PaymentMethod } from '../../../types/database.types';
+
+export class CreateTopUpDto {
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  @Max(50000)
+  amount: number;
+
+  @IsIn([PaymentMethod.UPI, PaymentMethod.CARD])
+  method: PaymentMethod;
+}
@@ -0,0 +1,18 @@
+import { IsIn, IsNumber, IsOptional, IsUUID, Min } from 'class-validator';
+import { PaymentMethod } from '../../../types/database.types';
+
+export class PayWithWalletDto {
+  @IsUUID()
+  booking_id: string;
+
+  // Defaults to as much of the amount due as the wallet covers
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  // How to pay whatever the wallet does not cover
+  @IsOptional()
+  @IsIn([PaymentMethod.UPI, PaymentMethod.CARD])
+  method?: PaymentMethod;
+}
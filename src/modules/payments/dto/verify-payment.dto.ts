@@ -0,0 +1,11 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class VerifyPaymentDto {
+  @IsString()
+  @IsNotEmpty()
+  gateway_payment_id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  signature: string;
+}
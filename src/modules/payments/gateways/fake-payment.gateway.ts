@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  CreateOrderInput,
+  GatewayCapture,
+  GatewayEvent,
+  GatewayOrder,
+  GatewayRefund,
+  PaymentGateway,
+} from '../payment-gateway.interface';
+
+/**
+ * In-process gateway for development and tests; makes no network calls
+ * Orders and payments are never stored: any well-formed payment ID
+ * captures, and signatures use the configured secrets the way hosted
+ * gateways do (HMAC-SHA256, hex).
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  private keySecret: string;
+  private webhookSecret: string;
+
+  constructor(configService: ConfigService) {
+    this.keySecret = configService.get<string>(
+      'payments.keySecret',
+      'fake_key_secret',
+    );
+    this.webhookSecret = configService.get<string>(
+      'payments.webhookSecret',
+      'fake_webhook_secret',
+    );
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<GatewayOrder> {
+    return Promise.resolve({
+      order_id: `order_fake_${randomUUID()}`,
+      amount: input.amount,
+      currency: input.currency,
+    });
+  }
+
+  async capture(paymentId: string): Promise<GatewayCapture> {
+    const captured = paymentId.startsWith('pay_fake_');
+
+    return Promise.resolve({
+      payment_id: paymentId,
+      captured,
+      failure_reason: captured ? undefined : 'Unknown payment',
+    });
+  }
+
+  async refund(paymentId: string): Promise<GatewayRefund> {
+    const known = paymentId.startsWith('pay_fake_');
+
+    return Promise.resolve({
+      refund_id: `rfnd_fake_${randomUUID()}`,
+      status: known ? ('processed' as const) : ('failed' as const),
+      failure_reason: known ? undefined : 'Unknown payment',
+    });
+  }
+
+  verifyPaymentSignature(
+    orderId: string,
+    paymentId: string,
+    signature: string,
+  ): boolean {
+    return this.matches(
+      this.sign(this.keySecret, `${orderId}|${paymentId}`),
+      signature,
+    );
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    return this.matches(this.sign(this.webhookSecret, rawBody), signature);
+  }
+
+  parseWebhook(rawBody: Buffer): GatewayEvent {
+    try {
+      const event = JSON.parse(rawBody.toString('utf8')) as GatewayEvent;
+      if (event.id && event.type) {
+        return event;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+
+    throw new BadRequestException('Malformed webhook payload');
+  }
+
+  /**
+   * What the hosted checkout would return after the customer pays
+   */
+  simulateCheckout(orderId: string): {
+    payment_id: string;
+    signature: string;
+  } {
+    const paymentId = `pay_fake_${randomUUID()}`;
+
+    return {
+      payment_id: paymentId,
+      signature: this.sign(this.keySecret, `${orderId}|${paymentId}`),
+    };
+  }
+
+  private sign(secret: string, payload: string | Buffer): string {
+    return createHmac('sha256', secret).update(payload).digest('hex');
+  }
+
+  private matches(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual || '');
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
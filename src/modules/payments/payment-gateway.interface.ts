@@ -0,0 +1,73 @@
+import { PaymentMethod } from '../../types/database.types';
+
+export interface CreateOrderInput {
+  // In rupees; drivers convert to the gateway's unit
+  amount: number;
+  currency: string;
+  // Our reference, shown in the gateway dashboard
+  receipt: string;
+  method: PaymentMethod;
+}
+
+export interface GatewayOrder {
+  order_id: string;
+  amount: number;
+  currency: string;
+}
+
+export interface GatewayCapture {
+  payment_id: string;
+  captured: boolean;
+  failure_reason?: string;
+}
+
+export interface GatewayRefund {
+  refund_id: string;
+  status: 'pending' | 'processed' | 'failed';
+  failure_reason?: string;
+}
+
+export type GatewayEventType =
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'payment.failed'
+  | 'refund.processed'
+  | 'refund.failed';
+
+/**
+ * Webhook event in a gateway-neutral shape
+ */
+export interface GatewayEvent {
+  // Unique per event; used to drop redeliveries
+  id: string;
+  type: GatewayEventType;
+  order_id?: string;
+  payment_id?: string;
+  refund_id?: string;
+  amount?: number;
+  failure_reason?: string;
+}
+
+/**
+ * Payment provider behind UPI and card checkouts
+ * The customer pays on the gateway's checkout against an order we create;
+ * the result reaches us through the client (signed) and through webhooks.
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  createOrder(input: CreateOrderInput): Promise<GatewayOrder>;
+  capture(paymentId: string, amount: number): Promise<GatewayCapture>;
+  refund(
+    paymentId: string,
+    amount: number,
+    idempotencyKey: string,
+  ): Promise<GatewayRefund>;
+  // Signature the checkout hands back to the client for an order's payment
+  verifyPaymentSignature(
+    orderId: string,
+    paymentId: string,
+    signature: string,
+  ): boolean;
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean;
+  parseWebhook(rawBody: Buffer): GatewayEvent;
+}
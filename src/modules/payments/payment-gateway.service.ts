@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CreateOrderInput,
+  GatewayCapture,
+  GatewayEvent,
+  GatewayOrder,
+  GatewayRefund,
+  PaymentGateway,
+} from './payment-gateway.interface';
+import { FakePaymentGateway } from './gateways/fake-payment.gateway';
+
+@Injectable()
+export class PaymentGatewayService implements PaymentGateway {
+  private gateway: PaymentGateway;
+
+  constructor(private configService: ConfigService) {
+    const name = this.configService.get<string>('payments.gateway', 'fake');
+
+    if (name !== 'fake') {
+      throw new Error(`Unknown payment gateway "${name}"`);
+    }
+
+    this.gateway = new FakePaymentGateway(configService);
+  }
+
+  get name(): string {
+    return this.gateway.name;
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<GatewayOrder> {
+    return await this.gateway.createOrder(input);
+  }
+
+  async capture(paymentId: string, amount: number): Promise<GatewayCapture> {
+    return await this.gateway.capture(paymentId, amount);
+  }
+
+  async refund(
+    paymentId: string,
+    amount: number,
+    idempotencyKey: string,
+  ): Promise<GatewayRefund> {
+    return await this.gateway.refund(paymentId, amount, idempotencyKey);
+  }
+
+  verifyPaymentSignature(
+    orderId: string,
+    paymentId: string,
+    signature: string,
+  ): boolean {
+    return this.gateway.verifyPaymentSignature(orderId, paymentId, signature);
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    return this.gateway.verifyWebhookSignature(rawBody, signature);
+  }
+
+  parseWebhook(rawBody: Buffer): GatewayEvent {
+    return this.gateway.parseWebhook(rawBody);
+  }
+
+  /**
+   * The fake gateway, when it is the one configured
+   */
+  fake(): FakePaymentGateway | null {
+    return this.gateway instanceof FakePaymentGateway ? this.gateway : null;
+  }
+}
@@ -0,0 +1,32 @@
+import { PaymentStatus } from '../../types/database.types';
+import { paymentStatusesBefore } from './payment-status';
+
+describe('paymentStatusesBefore', () => {
+  it('lets a payment be captured from any open status', () => {
+    expect(paymentStatusesBefore(PaymentStatus.COMPLETED).sort()).toEqual(
+      [
+        PaymentStatus.FAILED,
+        PaymentStatus.PENDING,
+        PaymentStatus.PROCESSING,
+      ].sort(),
+    );
+  });
+
+  it('ignores late authorizations for a captured payment', () => {
+    expect(paymentStatusesBefore(PaymentStatus.PROCESSING)).not.toContain(
+      PaymentStatus.COMPLETED,
+    );
+  });
+
+  it('never fails a captured payment', () => {
+    expect(paymentStatusesBefore(PaymentStatus.FAILED)).not.toContain(
+      PaymentStatus.COMPLETED,
+    );
+  });
+
+  it('only refunds captured payments', () => {
+    expect(paymentStatusesBefore(PaymentStatus.REFUNDED)).toEqual([
+      PaymentStatus.COMPLETED,
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import { PaymentStatus } from '../../types/database.types';
+
+/**
+ * Moves a payment may make
+ * Gateways deliver events at least once and out of order, so anything not
+ * listed (say, "authorized" arriving after "captured") is ignored rather
+ * than applied. A failed payment may still be captured late.
+ */
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  [PaymentStatus.PENDING]: [
+    PaymentStatus.PROCESSING,
+    PaymentStatus.COMPLETED,
+    PaymentStatus.FAILED,
+  ],
+  [PaymentStatus.PROCESSING]: [PaymentStatus.COMPLETED, PaymentStatus.FAILED],
+  [PaymentStatus.FAILED]: [PaymentStatus.PROCESSING, PaymentStatus.COMPLETED],
+  [PaymentStatus.COMPLETED]: [PaymentStatus.REFUNDED],
+  [PaymentStatus.REFUNDED]: [],
+};
+
+/**
+ * Statuses a payment can move to `to` from
+ */
+export function paymentStatusesBefore(to: PaymentStatus): PaymentStatus[] {
+  return (Object.keys(PAYMENT_TRANSITIONS) as PaymentStatus[]).filter((from) =>
+    PAYMENT_TRANSITIONS[from].includes(to),
+  );
+}
@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Req,
+  Headers,
+  UseGuards,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { PaymentsService } from './payments.service';
+import { CreatePaymentOrderDto } from './dto/create-payment-order.dto';
+import { VerifyPaymentDto } from './dto/verify-payment.dto';
+import { PayWithWalletDto } from './dto/pay-with-wallet.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('payments')
+export class PaymentsController {
+  constructor(private paymentsService: PaymentsService) {}
+
+  /**
+   * POST /api/v1/payments/webhooks/:gateway
+   * Gateway event callback
+   * Authenticated by the HMAC signature of the raw body, not a JWT.
+   */
+  @Post('webhooks/:gateway')
+  async handleWebhook(
+    @Param('gateway') gateway: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-payment-signature') signature: string,
+  ) {
+    const result = await this.paymentsService.handleWebhook(
+      gateway,
+      req.rawBody,
+      signature,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  /**
+   * POST /api/v1/payments/orders
+   * Start paying for a booking by UPI or card (Customer only)
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post('orders')
+  async createOrder(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreatePaymentOrderDto,
+  ) {
+    const checkout = await this.paymentsService.createOrder(user, createDto);
+    return ResponseUtil.success(checkout, 'Payment order created');
+  }
+
+  /**
+   * POST /api/v1/payments/wallet
+   * Pay for a booking from the wallet; any remainder gets a gateway order
+   * (Customer only)
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post('wallet')
+  async payWithWallet(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() payDto: PayWithWalletDto,
+  ) {
+    const result = await this.paymentsService.payWithWallet(user, payDto);
+    return ResponseUtil.success(result, 'Paid from wallet');
+  }
+
+  /**
+   * POST /api/v1/payments/orders/:orderId/simulate
+   * Pay a fake-gateway order without a checkout page (development only)
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.PROVIDER)
+  @Post('orders/:orderId/simulate')
+  simulateCheckout(@Param('orderId') orderId: string) {
+    return ResponseUtil.success(this.paymentsService.simulateCheckout(orderId));
+  }
+
+  /**
+   * GET /api/v1/payments/booking/:bookingId
+   * Get payments of a booking
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get('booking/:bookingId')
+  async getBookingPayments(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('bookingId') bookingId: string,
+  ) {
+    const payments = await this.paymentsService.getBookingPayments(
+      bookingId,
+      user,
+    );
+    return ResponseUtil.success(payments);
+  }
+
+  /**
+   * GET /api/v1/payments/:id
+   * Get a payment
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get(':id')
+  async getPayment(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+  ) {
+    const payment = await this.paymentsService.getPaymentForUser(id, user);
+    return ResponseUtil.success(payment);
+  }
+
+  /**
+   * POST /api/v1/payments/:id/verify
+   * Confirm a checkout with the gateway's signature (the payer only)
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.PROVIDER)
+  @Post(':id/verify')
+  async verifyPayment(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() verifyDto: VerifyPaymentDto,
+  ) {
+    const payment = await this.paymentsService.verifyPayment(
+      user,
+      id,
+      verifyDto,
+    );
+    return ResponseUtil.success(payment, 'Payment verified');
+  }
+}
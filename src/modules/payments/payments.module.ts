@@ -0,0 +1,55 @@
+import { Module } from '@nestjs/common';
+import { PaymentsController } from './payments.controller';
+import { PaymentsService } from './payments.service';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { RefundsController } from './refunds.controller';
+import { RefundsService } from './refunds.service';
+import { ProviderDuesController } from './provider-dues.controller';
+import { ProviderDuesService } from './provider-dues.service';
+import { WalletController } from './wallet.controller';
+import { WalletPaymentsService } from './wallet-payments.service';
+import { TipsController } from './tips.controller';
+import { TipsService } from './tips.service';
+import { CancellationFeesController } from './cancellation-fees.controller';
+import { CancellationFeesService } from './cancellation-fees.service';
+import { WalletsModule } from '../wallets/wallets.module';
+import { UsersModule } from '../users/users.module';
+import { ProvidersModule } from '../providers/providers.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { LoyaltyModule } from '../loyalty/loyalty.module';
+
+@Module({
+  imports: [
+    WalletsModule,
+    ProvidersModule,
+    LedgerModule,
+    UsersModule,
+    LoyaltyModule,
+  ],
+  // Static paths first so they win over /:id
+  controllers: [
+    ProviderDuesController,
+    CancellationFeesController,
+    RefundsController,
+    PaymentsController,
+    WalletController,
+    TipsController,
+  ],
+  providers: [
+    PaymentsService,
+    PaymentGatewayService,
+    RefundsService,
+    ProviderDuesService,
+    WalletPaymentsService,
+    TipsService,
+    CancellationFeesService,
+  ],
+  exports: [
+    PaymentsService,
+    PaymentGatewayService,
+    RefundsService,
+    WalletPaymentsService,
+    CancellationFeesService,
+  ],
+})
+export class PaymentsModule {}
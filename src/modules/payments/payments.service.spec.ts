@@ -0,0 +1,131 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { subHours } from 'date-fns';
+import { MockDatabase } from '../../../test/mock-database';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  LedgerAccount,
+  PaymentMethod,
+  PaymentPurpose,
+  PaymentStatus,
+} from '../../types/database.types';
+import { LedgerService } from '../ledger/ledger.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { PaymentsService } from './payments.service';
+import { RefundsService } from './refunds.service';
+
+describe('PaymentsService', () => {
+  let mock: MockDatabase;
+  let service: PaymentsService;
+  const ledger = { post: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mock = new MockDatabase();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: DatabaseService, useValue: mock.db },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+        { provide: PaymentGatewayService, useValue: {} },
+        { provide: RefundsService, useValue: {} },
+        { provide: LedgerService, useValue: ledger },
+        { provide: WalletsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(PaymentsService);
+  });
+
+  describe('capturing a tip', () => {
+    const stubTip = (completedHoursAgo: number, tipped: boolean) => {
+      mock
+        .when(/transaction_id = COALESCE/, [
+          {
+            id: 'payment-1',
+            purpose: PaymentPurpose.TIP,
+            booking_id: 'booking-1',
+            provider_id: 'provider-1',
+            amount: '100.00',
+            method: PaymentMethod.UPI,
+            status: PaymentStatus.COMPLETED,
+          },
+        ])
+        .when(/as amount_due/, [
+          {
+            id: 'booking-1',
+            booking_number: 'BK-1',
+            status: BookingStatus.COMPLETED,
+            customer_user_id: 'customer-user-1',
+            provider_id: 'provider-1',
+          },
+        ])
+        .when(/as tipped/, [
+          {
+            completed_at: subHours(new Date(), completedHoursAgo),
+            tipped,
+          },
+        ]);
+    };
+
+    const capture = () =>
+      service.applyStatus('payment-1', PaymentStatus.COMPLETED, {
+        transaction_id: 'pay_123',
+      });
+
+    it('credits the provider within the tip window', async () => {
+      stubTip(2, false);
+
+      await capture();
+
+      expect(ledger.post).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lines: [
+            { account: LedgerAccount.GATEWAY_CLEARING, debit: 100 },
+            {
+              account: LedgerAccount.PROVIDER_WALLET,
+              owner_id: 'provider-1',
+              credit: 100,
+            },
+          ],
+        }),
+        expect.anything(),
+      );
+      expect(mock.committed(/tip_amount = tip_amount/)).toHaveLength(1);
+    });
+
+    it.each([
+      ['a second tip', 2, true],
+      ['a tip captured after the window', 49, false],
+    ])('returns %s to the wallet', async (_case, completedHoursAgo, tipped) => {
+      stubTip(completedHoursAgo, tipped);
+
+      await capture();
+
+      expect(ledger.post).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lines: [
+            { account: LedgerAccount.GATEWAY_CLEARING, debit: 100 },
+            {
+              account: LedgerAccount.CUSTOMER_WALLET,
+              owner_id: 'customer-user-1',
+              credit: 100,
+            },
+          ],
+        }),
+        expect.anything(),
+      );
+      expect(mock.committed(/tip_amount = tip_amount/)).toHaveLength(0);
+      expect(mock.committed(/WHERE id = \$2$/)[0].params).toEqual([
+        PaymentStatus.REFUNDED,
+        'payment-1',
+      ]);
+    });
+  });
+});
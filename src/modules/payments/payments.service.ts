@@ -0,0 +1,878 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { addHours } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  JournalKind,
+  LedgerAccount,
+  Payment,
+  PaymentMethod,
+  PaymentPurpose,
+  PaymentStatus,
+  User,
+  UserRole,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { RefundsService } from './refunds.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { shareLines, splitBookingAmount } from '../ledger/journal';
+import { GatewayEvent, GatewayEventType } from './payment-gateway.interface';
+import { paymentStatusesBefore } from './payment-status';
+import { CreatePaymentOrderDto } from './dto/create-payment-order.dto';
+import { VerifyPaymentDto } from './dto/verify-payment.dto';
+import { PayWithWalletDto } from './dto/pay-with-wallet.dto';
+
+export interface PaymentCheckout {
+  payment: Payment;
+  gateway: string;
+  key_id: string;
+  order_id: string;
+  amount: number;
+  currency: string;
+}
+
+export interface WalletCheckout {
+  wallet_payment: Payment;
+  // Gateway order for the rest, when the wallet did not cover it all
+  checkout: PaymentCheckout | null;
+}
+
+export interface OrderInput {
+  purpose: PaymentPurpose;
+  booking_id?: string;
+  provider_id?: string;
+  user_id?: string;
+  amount: number;
+  method: PaymentMethod;
+  receipt: string;
+}
+
+export interface PayableBooking {
+  id: string;
+  booking_number: string;
+  status: BookingStatus;
+  customer_user_id: string;
+  provider_user_id?: string;
+  provider_id?: string;
+  amount_due: string;
+  final_amount: string;
+  provider_earnings?: string;
+  tax_amount?: string;
+}
+
+interface PaymentParties extends Payment {
+  customer_user_id?: string;
+  provider_user_id?: string;
+}
+
+/**
+ * Bookings can be paid for once a provider has taken them
+ */
+const PAYABLE_STATUSES = [
+  BookingStatus.ACCEPTED,
+  BookingStatus.ONGOING,
+  BookingStatus.COMPLETED,
+];
+
+/**
+ * Payment status each webhook event drives towards
+ */
+const EVENT_STATUS: Partial<Record<GatewayEventType, PaymentStatus>> = {
+  'payment.authorized': PaymentStatus.PROCESSING,
+  'payment.captured': PaymentStatus.COMPLETED,
+  'payment.failed': PaymentStatus.FAILED,
+};
+
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private paymentGatewayService: PaymentGatewayService,
+    private refundsService: RefundsService,
+    private ledgerService: LedgerService,
+    private walletsService: WalletsService,
+  ) {}
+
+  /**
+   * Open a gateway order for what is still owed on a booking (Customer)
+   */
+  async createOrder(
+    user: User,
+    createDto: CreatePaymentOrderDto,
+  ): Promise<PaymentCheckout> {
+    const booking = await this.getPayableBooking(createDto.booking_id);
+
+    if (booking.customer_user_id !== user.id) {
+      throw new ForbiddenException('You can only pay for your own bookings');
+    }
+
+    if (!PAYABLE_STATUSES.includes(booking.status)) {
+      throw new ConflictException(
+        `Booking cannot be paid while it is ${booking.status}`,
+      );
+    }
+
+    const amount = MoneyUtil.toNumber(booking.amount_due);
+    if (amount <= 0) {
+      throw new ConflictException('Booking is already paid');
+    }
+
+    // A retried checkout gets the order already open for the same amount
+    const open = await this.db.queryOne<Payment>(
+      `SELECT * FROM payments
+       WHERE booking_id = $1 AND purpose = $2 AND status = $3
+         AND method = $4 AND amount = $5 AND gateway = $6
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [
+        booking.id,
+        PaymentPurpose.BOOKING,
+        PaymentStatus.PENDING,
+        createDto.method,
+        amount,
+        this.paymentGatewayService.name,
+      ],
+    );
+
+    if (open) {
+      return {
+        payment: open,
+        gateway: this.paymentGatewayService.name,
+        key_id: this.configService.get<string>('payments.keyId', ''),
+        order_id: open.gateway_order_id!,
+        amount,
+        currency: open.currency,
+      };
+    }
+
+    return await this.openOrder({
+      purpose: PaymentPurpose.BOOKING,
+      booking_id: booking.id,
+      amount,
+      method: createDto.method,
+      receipt: booking.booking_number,
+    });
+  }
+
+  /**
+   * Pay for a booking from the wallet, fully or in part (Customer)
+   * The wallet is locked while the amount is taken, so concurrent
+   * checkouts by the same customer cannot overspend it. Whatever the
+   * wallet does not cover gets a gateway order.
+   */
+  async payWithWallet(
+    user: User,
+    payDto: PayWithWalletDto,
+  ): Promise<WalletCheckout> {
+    const { payment, booking, remainder } = await this.db.transaction(
+      async (client: PoolClient) => {
+        await client.query(`SELECT id FROM bookings WHERE id = $1 FOR UPDATE`, [
+          payDto.booking_id,
+        ]);
+        const booking = await this.getPayableBooking(payDto.booking_id, client);
+
+        if (booking.customer_user_id !== user.id) {
+          throw new ForbiddenException(
+            'You can only pay for your own bookings',
+          );
+        }
+
+        if (!PAYABLE_STATUSES.includes(booking.status)) {
+          throw new ConflictException(
+            `Booking cannot be paid while it is ${booking.status}`,
+          );
+        }
+
+        const due = MoneyUtil.toNumber(booking.amount_due);
+        if (due <= 0) {
+          throw new ConflictException('Booking is already paid');
+        }
+
+        const wallet = await this.walletsService.lockWallet(user.id, client);
+        const balance = MoneyUtil.toNumber(wallet.balance);
+        const amount = MoneyUtil.round(
+          Math.min(payDto.amount ?? balance, balance, due),
+        );
+
+        if (amount <= 0 || (payDto.amount ?? 0) > balance) {
+          throw new ConflictException('Insufficient wallet balance');
+        }
+
+        const remainder = MoneyUtil.round(due - amount);
+        if (remainder > 0 && !payDto.method) {
+          throw new BadRequestException(
+            `method is required to pay the remaining ${remainder}`,
+          );
+        }
+
+        const inserted = await client.query<Payment>(
+          `INSERT INTO payments (
+            purpose, booking_id, amount, currency, method, status
+           )
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING *`,
+          [
+            PaymentPurpose.BOOKING,
+            booking.id,
+            amount,
+            this.configService.get<string>('payments.currency', 'INR'),
+            PaymentMethod.WALLET,
+            PaymentStatus.PENDING,
+          ],
+        );
+
+        // Capturing books the payment and debits the wallet
+        const payment = await this.applyStatus(
+          inserted.rows[0].id,
+          PaymentStatus.COMPLETED,
+          {},
+          client,
+        );
+
+        return { payment, booking, remainder };
+      },
+    );
+
+    const checkout =
+      remainder > 0
+        ? await this.openOrder({
+            purpose: PaymentPurpose.BOOKING,
+            booking_id: booking.id,
+            amount: remainder,
+            method: payDto.method!,
+            receipt: booking.booking_number,
+          })
+        : null;
+
+    return { wallet_payment: payment, checkout };
+  }
+
+  /**
+   * Create a gateway order and the pending payment that tracks it
+   * Given a client, the payment is inserted in the caller's transaction.
+   */
+  async openOrder(
+    input: OrderInput,
+    client?: PoolClient,
+  ): Promise<PaymentCheckout> {
+    const currency = this.configService.get<string>('payments.currency', 'INR');
+    const order = await this.paymentGatewayService.createOrder({
+      amount: input.amount,
+      currency,
+      receipt: input.receipt,
+      method: input.method,
+    });
+
+    const query = `INSERT INTO payments (
+        purpose, booking_id, provider_id, user_id, amount, currency, method,
+        status, gateway, gateway_order_id
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`;
+    const values = [
+      input.purpose,
+      input.booking_id,
+      input.provider_id,
+      input.user_id,
+      input.amount,
+      currency,
+      input.method,
+      PaymentStatus.PENDING,
+      this.paymentGatewayService.name,
+      order.order_id,
+    ];
+    const payment = client
+      ? (await client.query<Payment>(query, values)).rows[0]
+      : await this.db.queryOne<Payment>(query, values);
+
+    return {
+      payment: payment!,
+      gateway: this.paymentGatewayService.name,
+      key_id: this.configService.get<string>('payments.keyId', ''),
+      order_id: order.order_id,
+      amount: order.amount,
+      currency: order.currency,
+    };
+  }
+
+  /**
+   * Confirm a checkout with the signature the gateway gave the client,
+   * then capture it (the payer only)
+   * Safe to call again; a payment already captured is returned as is.
+   */
+  async verifyPayment(
+    user: User,
+    paymentId: string,
+    verifyDto: VerifyPaymentDto,
+  ): Promise<Payment> {
+    const { customer_user_id, provider_user_id, ...payment } =
+      await this.findPayment(paymentId);
+    const payerUserId =
+      payment.purpose === PaymentPurpose.PROVIDER_DUES
+        ? provider_user_id
+        : customer_user_id;
+
+    if (payerUserId !== user.id) {
+      throw new ForbiddenException('Only the payer can confirm this payment');
+    }
+
+    if (payment.status === PaymentStatus.COMPLETED) {
+      return payment;
+    }
+
+    if (
+      !this.paymentGatewayService.verifyPaymentSignature(
+        payment.gateway_order_id!,
+        verifyDto.gateway_payment_id,
+        verifyDto.signature,
+      )
+    ) {
+      throw new BadRequestException('Payment signature is invalid');
+    }
+
+    await this.applyStatus(payment.id, PaymentStatus.PROCESSING, {
+      transaction_id: verifyDto.gateway_payment_id,
+    });
+
+    const capture = await this.paymentGatewayService.capture(
+      verifyDto.gateway_payment_id,
+      MoneyUtil.toNumber(payment.amount),
+    );
+
+    return capture.captured
+      ? await this.applyStatus(payment.id, PaymentStatus.COMPLETED)
+      : await this.applyStatus(payment.id, PaymentStatus.FAILED, {
+          failure_reason: capture.failure_reason,
+        });
+  }
+
+  /**
+   * Apply a gateway webhook
+   * Events are recorded by their gateway ID first, so a redelivered event
+   * is acknowledged without being applied twice.
+   */
+  async handleWebhook(
+    gateway: string,
+    rawBody: Buffer | undefined,
+    signature: string,
+  ): Promise<{ duplicate: boolean }> {
+    if (gateway !== this.paymentGatewayService.name) {
+      throw new NotFoundException('Unknown payment gateway');
+    }
+
+    if (
+      !rawBody ||
+      !this.paymentGatewayService.verifyWebhookSignature(rawBody, signature)
+    ) {
+      throw new UnauthorizedException('Webhook signature is invalid');
+    }
+
+    const event = this.paymentGatewayService.parseWebhook(rawBody);
+
+    return await this.db.transaction(async (client: PoolClient) => {
+      const recorded = await client.query(
+        `INSERT INTO payment_webhook_events (gateway, event_id, event_type, payload)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (gateway, event_id) DO NOTHING
+         RETURNING id`,
+        [gateway, event.id, event.type, rawBody.toString('utf8')],
+      );
+
+      if ((recorded.rowCount ?? 0) === 0) {
+        return { duplicate: true };
+      }
+
+      const matched = event.type.startsWith('refund.')
+        ? await this.refundsService.applyGatewayEvent(event, client)
+        : await this.applyPaymentEvent(gateway, event, client);
+
+      if (!matched) {
+        this.logger.warn(
+          `Webhook ${event.id} (${event.type}) matched nothing to update`,
+        );
+      }
+
+      await client.query(
+        `UPDATE payment_webhook_events
+         SET processed_at = CURRENT_TIMESTAMP
+         WHERE gateway = $1 AND event_id = $2`,
+        [gateway, event.id],
+      );
+
+      return { duplicate: false };
+    });
+  }
+
+  /**
+   * Complete a fake-gateway checkout the way the hosted page would
+   * Development only; returns what the client then sends to verify.
+   */
+  simulateCheckout(orderId: string): {
+    payment_id: string;
+    signature: string;
+  } {
+    const fake = this.paymentGatewayService.fake();
+
+    if (
+      !fake ||
+      this.configService.get<string>('environment') === 'production'
+    ) {
+      throw new NotFoundException('Checkout simulation is not available');
+    }
+
+    return fake.simulateCheckout(orderId);
+  }
+
+  /**
+   * Get a payment (the booking's customer or provider, or Admin)
+   */
+  async getPaymentForUser(paymentId: string, user: User): Promise<Payment> {
+    const { customer_user_id, provider_user_id, ...payment } =
+      await this.findPayment(paymentId);
+    this.assertParticipant(user, customer_user_id, provider_user_id);
+
+    return payment;
+  }
+
+  /**
+   * Payments made against a booking
+   */
+  async getBookingPayments(bookingId: string, user: User): Promise<Payment[]> {
+    const booking = await this.getPayableBooking(bookingId);
+    this.assertParticipant(
+      user,
+      booking.customer_user_id,
+      booking.provider_user_id,
+    );
+
+    return await this.db.queryMany<Payment>(
+      `SELECT * FROM payments WHERE booking_id = $1 ORDER BY created_at DESC`,
+      [bookingId],
+    );
+  }
+
+  /**
+   * Move a payment to a new status if that is a valid step from where it is
+   * Repeated or out-of-order updates leave the payment unchanged.
+   */
+  async applyStatus(
+    paymentId: string,
+    to: PaymentStatus,
+    fields: { transaction_id?: string; failure_reason?: string } = {},
+    client?: PoolClient,
+  ): Promise<Payment> {
+    if (!client) {
+      return await this.db.transaction(
+        async (tx: PoolClient) =>
+          await this.applyStatus(paymentId, to, fields, tx),
+      );
+    }
+
+    const result = await client.query<Payment>(
+      `UPDATE payments
+       SET status = $1,
+           transaction_id = COALESCE($2, transaction_id),
+           failure_reason = $3,
+           processed_at = CASE WHEN $4 THEN CURRENT_TIMESTAMP ELSE processed_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND status = ANY($6)
+       RETURNING *`,
+      [
+        to,
+        fields.transaction_id,
+        to === PaymentStatus.FAILED ? fields.failure_reason : null,
+        to === PaymentStatus.COMPLETED,
+        paymentId,
+        paymentStatusesBefore(to),
+      ],
+    );
+    const updated = result.rows[0];
+
+    if (updated) {
+      // Runs once per payment: only the update that captures it gets here
+      if (to === PaymentStatus.COMPLETED) {
+        await this.onCaptured(updated, client);
+      }
+      return updated;
+    }
+
+    const current = await this.getPaymentById(paymentId, client);
+    if (current.status !== to) {
+      this.logger.log(
+        `Ignored ${current.status} -> ${to} for payment ${paymentId}`,
+      );
+    }
+
+    return current;
+  }
+
+  async getPaymentById(
+    paymentId: string,
+    client?: PoolClient,
+  ): Promise<Payment> {
+    const query = `SELECT * FROM payments WHERE id = $1`;
+    const payment = client
+      ? (await client.query<Payment>(query, [paymentId])).rows[0]
+      : await this.db.queryOne<Payment>(query, [paymentId]);
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    return payment;
+  }
+
+  /**
+   * Move the payment of the event's order to the status the event implies
+   */
+  private async applyPaymentEvent(
+    gateway: string,
+    event: GatewayEvent,
+    client: PoolClient,
+  ): Promise<boolean> {
+    const status = EVENT_STATUS[event.type];
+    if (!status || !event.order_id) {
+      return false;
+    }
+
+    const result = await client.query<Payment>(
+      `SELECT * FROM payments
+       WHERE gateway = $1 AND gateway_order_id = $2
+       FOR UPDATE`,
+      [gateway, event.order_id],
+    );
+    const payment = result.rows[0];
+
+    if (!payment) {
+      return false;
+    }
+
+    await this.applyStatus(
+      payment.id,
+      status,
+      {
+        transaction_id: event.payment_id ?? payment.transaction_id,
+        failure_reason: event.failure_reason,
+      },
+      client,
+    );
+
+    return true;
+  }
+
+  /**
+   * Booking with its parties and the amount not yet paid
+   */
+  async getPayableBooking(
+    bookingId: string,
+    client?: PoolClient,
+  ): Promise<PayableBooking> {
+    const query = `SELECT
+        b.id, b.booking_number, b.status, b.provider_id, b.provider_earnings,
+        b.tax_amount,
+        c.user_id as customer_user_id,
+        p.user_id as provider_user_id,
+        COALESCE(b.final_price, b.estimated_price) as final_amount,
+        COALESCE(b.final_price, b.estimated_price) - COALESCE((
+          SELECT SUM(amount) FROM payments
+          WHERE booking_id = b.id AND status = $2 AND purpose = $3
+        ), 0) as amount_due
+       FROM bookings b
+       JOIN customers c ON b.customer_id = c.id
+       LEFT JOIN providers p ON b.provider_id = p.id
+       WHERE b.id = $1`;
+    const values = [bookingId, PaymentStatus.COMPLETED, PaymentPurpose.BOOKING];
+    const booking = client
+      ? (await client.query<PayableBooking>(query, values)).rows[0]
+      : await this.db.queryOne<PayableBooking>(query, values);
+
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    return booking;
+  }
+
+  /**
+   * Side effects of money arriving, in the capturing transaction
+   * The money is booked to the ledger: dues and top-ups go to the payer's
+   * wallet, tips go to the provider in full, cancellation fees to revenue,
+   * and booking payments are split between provider, tax and revenue.
+   * A booking payment beyond what is still due is refunded to the wallet.
+   */
+  private async onCaptured(
+    payment: Payment,
+    client: PoolClient,
+  ): Promise<void> {
+    const amount = MoneyUtil.toNumber(payment.amount);
+
+    if (payment.purpose === PaymentPurpose.PROVIDER_DUES) {
+      await this.ledgerService.post(
+        {
+          kind: JournalKind.DUES_PAYMENT,
+          description: 'Dues paid',
+          payment_id: payment.id,
+          lines: [
+            { account: LedgerAccount.GATEWAY_CLEARING, debit: amount },
+            {
+              account: LedgerAccount.PROVIDER_WALLET,
+              owner_id: payment.provider_id,
+              credit: amount,
+            },
+          ],
+        },
+        client,
+      );
+      return;
+    }
+
+    if (payment.purpose === PaymentPurpose.WALLET_TOP_UP) {
+      await this.ledgerService.post(
+        {
+          kind: JournalKind.WALLET_TOP_UP,
+          description: 'Wallet top-up',
+          payment_id: payment.id,
+          lines: [
+            { account: LedgerAccount.GATEWAY_CLEARING, debit: amount },
+            {
+              account: LedgerAccount.CUSTOMER_WALLET,
+              owner_id: payment.user_id,
+              credit: amount,
+            },
+          ],
+        },
+        client,
+      );
+      return;
+    }
+
+    // Locked so concurrent captures on the booking see each other
+    await client.query(`SELECT id FROM bookings WHERE id = $1 FOR UPDATE`, [
+      payment.booking_id,
+    ]);
+    const booking = await this.getPayableBooking(payment.booking_id!, client);
+    const source =
+      payment.method === PaymentMethod.WALLET
+        ? {
+            account: LedgerAccount.CUSTOMER_WALLET,
+            owner_id: booking.customer_user_id,
+          }
+        : { account: LedgerAccount.GATEWAY_CLEARING };
+
+    if (payment.purpose === PaymentPurpose.CANCELLATION_FEE) {
+      // Only what is still due clears the fee; the rest goes to the wallet
+      const due = await client.query<{ cancellation_fee_due: string }>(
+        `SELECT cancellation_fee_due FROM bookings WHERE id = $1`,
+        [booking.id],
+      );
+      const applied = MoneyUtil.round(
+        Math.min(amount, MoneyUtil.toNumber(due.rows[0].cancellation_fee_due)),
+      );
+      const excess = MoneyUtil.round(amount - applied);
+
+      await this.ledgerService.post(
+        {
+          kind: JournalKind.CANCELLATION_FEE,
+          description: `Cancellation fee paid for booking ${booking.booking_number}`,
+          booking_id: booking.id,
+          payment_id: payment.id,
+          lines: [
+            { ...source, debit: amount },
+            { account: LedgerAccount.PLATFORM_REVENUE, credit: applied },
+            {
+              account: LedgerAccount.CUSTOMER_WALLET,
+              owner_id: booking.customer_user_id,
+              credit: excess,
+            },
+          ],
+        },
+        client,
+      );
+
+      await client.query(
+        `UPDATE bookings
+         SET cancellation_fee_due = cancellation_fee_due - $1,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [applied, booking.id],
+      );
+      return;
+    }
+
+    if (payment.purpose === PaymentPurpose.TIP) {
+      // Checked again now the booking is locked: a second tip, or one
+      // captured after the window, goes back to the customer's wallet
+      const tippable = await client.query<{
+        completed_at?: Date;
+        tipped: boolean;
+      }>(
+        `SELECT b.completed_at, EXISTS (
+            SELECT 1 FROM payments
+            WHERE booking_id = b.id AND purpose = $2 AND status = $3
+              AND id != $4
+          ) as tipped
+         FROM bookings b
+         WHERE b.id = $1`,
+        [booking.id, PaymentPurpose.TIP, PaymentStatus.COMPLETED, payment.id],
+      );
+      const { completed_at, tipped } = tippable.rows[0];
+      const windowHours = this.configService.get<number>(
+        'payments.tipWindowHours',
+        48,
+      );
+
+      if (
+        tipped ||
+        !completed_at ||
+        addHours(new Date(completed_at), windowHours) < new Date()
+      ) {
+        await this.ledgerService.post(
+          {
+            kind: JournalKind.TIP,
+            description: `Tip for booking ${booking.booking_number} returned to wallet`,
+            booking_id: booking.id,
+            payment_id: payment.id,
+            lines: [
+              { ...source, debit: amount },
+              {
+                account: LedgerAccount.CUSTOMER_WALLET,
+                owner_id: booking.customer_user_id,
+                credit: amount,
+              },
+            ],
+          },
+          client,
+        );
+
+        await client.query(
+          `UPDATE payments
+           SET status = $1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2`,
+          [PaymentStatus.REFUNDED, payment.id],
+        );
+        return;
+      }
+
+      await this.ledgerService.post(
+        {
+          kind: JournalKind.TIP,
+          description: `Tip for booking ${booking.booking_number}`,
+          booking_id: booking.id,
+          payment_id: payment.id,
+          lines: [
+            { ...source, debit: amount },
+            {
+              account: LedgerAccount.PROVIDER_WALLET,
+              owner_id: payment.provider_id,
+              credit: amount,
+            },
+          ],
+        },
+        client,
+      );
+
+      await client.query(
+        `UPDATE bookings
+         SET tip_amount = tip_amount + $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [amount, booking.id],
+      );
+      return;
+    }
+
+    await this.ledgerService.post(
+      {
+        kind: JournalKind.BOOKING_PAYMENT,
+        description: `Payment for booking ${booking.booking_number}`,
+        booking_id: booking.id,
+        payment_id: payment.id,
+        lines: [
+          { ...source, debit: amount },
+          ...shareLines(
+            splitBookingAmount(amount, booking),
+            'credit',
+            booking.provider_id,
+          ),
+        ],
+      },
+      client,
+    );
+
+    // amount_due already counts this payment. Whatever went beyond it, or
+    // all of it once the booking was cancelled, goes back to the wallet
+    const due = MoneyUtil.round(
+      MoneyUtil.toNumber(booking.amount_due) + amount,
+    );
+    const applied = PAYABLE_STATUSES.includes(booking.status)
+      ? Math.max(Math.min(amount, due), 0)
+      : 0;
+    const excess = MoneyUtil.round(amount - applied);
+
+    if (excess > 0) {
+      await this.refundsService.refundOverpayment(
+        payment.id,
+        excess,
+        applied > 0
+          ? `Paid ${excess} more than was due on booking ${booking.booking_number}`
+          : `Booking ${booking.booking_number} is ${booking.status}`,
+        client,
+      );
+    }
+  }
+
+  /**
+   * Payment with the users who may see it
+   * Dues payments belong to the provider paying them, top-ups to the
+   * customer.
+   */
+  private async findPayment(paymentId: string): Promise<PaymentParties> {
+    const payment = await this.db.queryOne<PaymentParties>(
+      `SELECT
+        pay.*,
+        COALESCE(c.user_id, pay.user_id) as customer_user_id,
+        COALESCE(p.user_id, dp.user_id) as provider_user_id
+       FROM payments pay
+       LEFT JOIN bookings b ON pay.booking_id = b.id
+       LEFT JOIN customers c ON b.customer_id = c.id
+       LEFT JOIN providers p ON b.provider_id = p.id
+       LEFT JOIN providers dp ON pay.provider_id = dp.id
+       WHERE pay.id = $1`,
+      [paymentId],
+    );
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    return payment;
+  }
+
+  private assertParticipant(
+    user: User,
+    customerUserId?: string,
+    providerUserId?: string,
+  ): void {
+    if (
+      user.role !== UserRole.ADMIN &&
+      customerUserId !== user.id &&
+      providerUserId !== user.id
+    ) {
+      throw new ForbiddenException('You do not have access to this payment');
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
+import { ProviderDuesService } from './provider-dues.service';
+import { RecordCashPaymentDto } from './dto/record-cash-payment.dto';
+import { CreateDuesOrderDto } from './dto/create-dues-order.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('payments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ProviderDuesController {
+  constructor(private providerDuesService: ProviderDuesService) {}
+
+  /**
+   * POST /api/v1/payments/cash
+   * Record cash collected for a booking (Provider only)
+   */
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Post('cash')
+  async recordCashPayment(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() recordDto: RecordCashPaymentDto,
+  ) {
+    const result = await this.providerDuesService.recordCashPayment(
+      user.id,
+      recordDto.booking_id,
+    );
+    return ResponseUtil.success(result, 'Cash payment recorded');
+  }
+
+  /**
+   * GET /api/v1/payments/dues
+   * Get commission owed on cash jobs (Provider only)
+   */
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Get('dues')
+  async getDues(@CurrentUser() user: databaseTypes.User) {
+    const dues = await this.providerDuesService.getDues(user.id);
+    return ResponseUtil.success(dues);
+  }
+
+  /**
+   * POST /api/v1/payments/dues/orders
+   * Start paying outstanding dues (Provider only)
+   */
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Post('dues/orders')
+  async createDuesOrder(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreateDuesOrderDto,
+  ) {
+    const checkout = await this.providerDuesService.createDuesOrder(
+      user.id,
+      createDto,
+    );
+    return ResponseUtil.success(checkout, 'Payment order created');
+  }
+}
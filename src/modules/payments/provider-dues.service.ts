@@ -0,0 +1,175 @@
+import {
+  Injectable,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  JournalKind,
+  LedgerAccount,
+  Payment,
+  PaymentMethod,
+  PaymentPurpose,
+  PaymentStatus,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { ProvidersService } from '../providers/providers.service';
+import { ProviderWalletsService } from '../wallets/provider-wallets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { splitBookingAmount } from '../ledger/journal';
+import { PaymentCheckout, PaymentsService } from './payments.service';
+import { CreateDuesOrderDto } from './dto/create-dues-order.dto';
+
+export interface ProviderDues {
+  balance: number;
+  amount_due: number;
+  limit: number;
+  // Whether the provider is kept offline until they pay
+  blocked: boolean;
+}
+
+/**
+ * Cash is collected once the provider is on site
+ */
+const CASH_STATUSES = [BookingStatus.ONGOING, BookingStatus.COMPLETED];
+
+@Injectable()
+export class ProviderDuesService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private providersService: ProvidersService,
+    private providerWalletsService: ProviderWalletsService,
+    private paymentsService: PaymentsService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Record cash the provider collected for a booking (assigned Provider)
+   * The platform's share of the cash (commission and the GST it owes) is
+   * booked against the provider's wallet in the same transaction.
+   */
+  async recordCashPayment(
+    userId: string,
+    bookingId: string,
+  ): Promise<{ payment: Payment; amount_owed: number }> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+
+    return await this.db.transaction(async (client: PoolClient) => {
+      await client.query(`SELECT id FROM bookings WHERE id = $1 FOR UPDATE`, [
+        bookingId,
+      ]);
+      const booking = await this.paymentsService.getPayableBooking(
+        bookingId,
+        client,
+      );
+
+      if (booking.provider_id !== provider.id) {
+        throw new ForbiddenException('Booking is not assigned to you');
+      }
+
+      if (!CASH_STATUSES.includes(booking.status)) {
+        throw new ConflictException(
+          `Cash cannot be recorded while the booking is ${booking.status}`,
+        );
+      }
+
+      const amount = MoneyUtil.toNumber(booking.amount_due);
+      if (amount <= 0) {
+        throw new ConflictException('Booking is already paid');
+      }
+
+      const result = await client.query<Payment>(
+        `INSERT INTO payments (
+          purpose, booking_id, amount, currency, method, status, processed_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+         RETURNING *`,
+        [
+          PaymentPurpose.BOOKING,
+          bookingId,
+          amount,
+          this.configService.get<string>('payments.currency', 'INR'),
+          PaymentMethod.CASH,
+          PaymentStatus.COMPLETED,
+        ],
+      );
+      const payment = result.rows[0];
+
+      // Everything but the provider's earnings belongs to the platform,
+      // pro rata when part of the booking was paid online
+      const shares = splitBookingAmount(amount, booking);
+      const amountOwed = MoneyUtil.round(shares.tax + shares.revenue);
+
+      if (amountOwed > 0) {
+        await this.ledgerService.post(
+          {
+            kind: JournalKind.CASH_COMMISSION,
+            description: `Commission on cash collected for booking ${booking.booking_number}`,
+            booking_id: bookingId,
+            payment_id: payment.id,
+            lines: [
+              {
+                account: LedgerAccount.PROVIDER_WALLET,
+                owner_id: provider.id,
+                debit: amountOwed,
+              },
+              { account: LedgerAccount.TAX_PAYABLE, credit: shares.tax },
+              {
+                account: LedgerAccount.PLATFORM_REVENUE,
+                credit: shares.revenue,
+              },
+            ],
+          },
+          client,
+        );
+      }
+
+      return { payment, amount_owed: amountOwed };
+    });
+  }
+
+  /**
+   * What the provider owes on cash jobs (Provider)
+   */
+  async getDues(userId: string): Promise<ProviderDues> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    const wallet = await this.providerWalletsService.getWallet(provider.id);
+    const balance = MoneyUtil.toNumber(wallet.balance);
+    const limit = this.configService.get<number>('payments.cashDueLimit', 1000);
+
+    return {
+      balance,
+      amount_due: balance < 0 ? MoneyUtil.round(-balance) : 0,
+      limit,
+      blocked: balance < -limit,
+    };
+  }
+
+  /**
+   * Pay outstanding dues through the gateway (Provider)
+   * The wallet is credited once the payment is captured.
+   */
+  async createDuesOrder(
+    userId: string,
+    createDto: CreateDuesOrderDto,
+  ): Promise<PaymentCheckout> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    const dues = await this.getDues(userId);
+
+    if (dues.amount_due <= 0) {
+      throw new ConflictException('You have no dues to pay');
+    }
+
+    return await this.paymentsService.openOrder({
+      purpose: PaymentPurpose.PROVIDER_DUES,
+      provider_id: provider.id,
+      amount: dues.amount_due,
+      method: createDto.method,
+      receipt: `DUES-${provider.id.slice(0, 8)}`,
+    });
+  }
+}
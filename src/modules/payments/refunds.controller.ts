@@ -0,0 +1,68 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { PaymentsService } from './payments.service';
+import { RefundsService } from './refunds.service';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('payments')
+@UseGuards(JwtAuthGuard)
+export class RefundsController {
+  constructor(
+    private paymentsService: PaymentsService,
+    private refundsService: RefundsService,
+  ) {}
+
+  /**
+   * POST /api/v1/payments/:paymentId/refunds
+   * Refund all or part of a payment (Admin only)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post(':paymentId/refunds')
+  async createRefund(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('paymentId') paymentId: string,
+    @Body() createDto: CreateRefundDto,
+  ) {
+    const refund = await this.refundsService.requestRefund({
+      payment_id: paymentId,
+      amount: createDto.amount,
+      reason: createDto.reason,
+      trigger: createDto.trigger ?? databaseTypes.RefundTrigger.ADMIN,
+      requested_by: user.id,
+      destination: createDto.destination,
+    });
+    return ResponseUtil.success(refund, 'Refund requested');
+  }
+
+  /**
+   * GET /api/v1/payments/:paymentId/refunds
+   * Get refunds of a payment
+   */
+  @Get(':paymentId/refunds')
+  async getRefunds(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('paymentId') paymentId: string,
+  ) {
+    await this.paymentsService.getPaymentForUser(paymentId, user);
+    const refunds = await this.refundsService.getPaymentRefunds(paymentId);
+    return ResponseUtil.success(refunds);
+  }
+
+  /**
+   * POST /api/v1/payments/refunds/:id/retry
+   * Submit a failed refund to the gateway again (Admin only)
+   */
+  @UseGuards(RolesGuard)
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post('refunds/:id/retry')
+  async retryRefund(@Param('id') id: string) {
+    const refund = await this.refundsService.retryRefund(id);
+    return ResponseUtil.success(refund, 'Refund resubmitted');
+  }
+}
@@ -0,0 +1,271 @@
+import { Test } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { MockDatabase } from '../../../test/mock-database';
+import { DatabaseService } from '../../database/database.service';
+import {
+  LedgerAccount,
+  PaymentMethod,
+  PaymentPurpose,
+  PaymentStatus,
+  RefundStatus,
+  RefundTrigger,
+} from '../../types/database.types';
+import { LedgerService } from '../ledger/ledger.service';
+import { LoyaltyService } from '../loyalty/loyalty.service';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { RefundsService } from './refunds.service';
+
+describe('RefundsService', () => {
+  let mock: MockDatabase;
+  let service: RefundsService;
+  const gateway = { refund: jest.fn() };
+  const ledger = { post: jest.fn() };
+  const loyalty = { reverseForRefund: jest.fn() };
+
+  const booking = {
+    id: 'booking-1',
+    booking_number: 'BK-1',
+    provider_id: 'provider-1',
+    customer_user_id: 'customer-user-1',
+    final_amount: '1180.00',
+    provider_earnings: '900.00',
+    tax_amount: '180.00',
+  };
+
+  // Answers the queries of recording and settling a refund of this payment
+  const stubPayment = (
+    method: PaymentMethod,
+    refunded = '0',
+    transactionId?: string,
+  ) => {
+    const payment = {
+      id: 'payment-1',
+      purpose: PaymentPurpose.BOOKING,
+      booking_id: booking.id,
+      amount: '1180.00',
+      method,
+      status: PaymentStatus.COMPLETED,
+      transaction_id: transactionId,
+      customer_user_id: booking.customer_user_id,
+      booking_number: booking.booking_number,
+    };
+    let refund: Record<string, unknown> = {};
+
+    mock
+      .when(/FOR UPDATE OF pay/, [payment])
+      .when(/SELECT \* FROM payments WHERE id/, [payment])
+      .when(/as refunded\s+FROM payments pay/, [{ ...payment, refunded }])
+      .when(/as refunded FROM refunds/, [{ refunded }])
+      .when(/INSERT INTO refunds/, (params) => {
+        refund = {
+          id: 'refund-1',
+          payment_id: params[0],
+          amount: params[1],
+          reason: params[2],
+          status: params[3],
+          trigger: params[4],
+          destination: params[5],
+        };
+        return [refund];
+      })
+      .when(/UPDATE refunds/, (params) => {
+        refund = { ...refund, status: params[0] };
+        return [refund];
+      })
+      .when(/pay\.method/, [{ ...booking, method }]);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mock = new MockDatabase();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        RefundsService,
+        { provide: DatabaseService, useValue: mock.db },
+        { provide: PaymentGatewayService, useValue: gateway },
+        { provide: LedgerService, useValue: ledger },
+        { provide: LoyaltyService, useValue: loyalty },
+      ],
+    }).compile();
+
+    service = module.get(RefundsService);
+  });
+
+  it('refunds cash to the wallet and reverses the commission taken on it', async () => {
+    stubPayment(PaymentMethod.CASH);
+
+    const refund = await service.requestRefund({
+      payment_id: 'payment-1',
+      reason: 'Job not done',
+      trigger: RefundTrigger.ADMIN,
+    });
+
+    expect(refund).toMatchObject({
+      destination: 'wallet',
+      status: RefundStatus.PROCESSED,
+    });
+    expect(gateway.refund).not.toHaveBeenCalled();
+    expect(ledger.post).toHaveBeenCalledWith(
+      expect.objectContaining({
+        lines: [
+          { account: LedgerAccount.TAX_PAYABLE, debit: 180 },
+          { account: LedgerAccount.PLATFORM_REVENUE, debit: 100 },
+          {
+            account: LedgerAccount.PROVIDER_WALLET,
+            owner_id: 'provider-1',
+            credit: 280,
+          },
+          {
+            account: LedgerAccount.PROVIDER_WALLET,
+            owner_id: 'provider-1',
+            debit: 1180,
+          },
+          {
+            account: LedgerAccount.CUSTOMER_WALLET,
+            owner_id: 'customer-user-1',
+            credit: 1180,
+          },
+        ],
+      }),
+      expect.anything(),
+    );
+  });
+
+  it('refunds cash paid for a cancelled booking to the wallet', async () => {
+    stubPayment(PaymentMethod.CASH);
+
+    const refunds = await service.refundCancelledBooking(
+      booking.id,
+      180,
+      'Booking cancelled',
+      mock.client,
+    );
+    await service.submitRefunds(refunds);
+
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0]).toMatchObject({
+      amount: 1000,
+      destination: 'wallet',
+      trigger: RefundTrigger.CANCELLATION,
+    });
+    expect(gateway.refund).not.toHaveBeenCalled();
+  });
+
+  it('sends card refunds to the gateway against the captured payment', async () => {
+    stubPayment(PaymentMethod.CARD, '0', 'pay_123');
+    gateway.refund.mockResolvedValue({
+      refund_id: 'rfnd_1',
+      status: 'processed',
+    });
+
+    const refund = await service.requestRefund({
+      payment_id: 'payment-1',
+      amount: 590,
+      reason: 'Partial refund',
+      trigger: RefundTrigger.DISPUTE,
+    });
+
+    expect(gateway.refund).toHaveBeenCalledWith('pay_123', 590, 'refund-1');
+    expect(refund.status).toBe(RefundStatus.PROCESSED);
+    expect(ledger.post).toHaveBeenCalledWith(
+      expect.objectContaining({
+        lines: [
+          {
+            account: LedgerAccount.PROVIDER_WALLET,
+            owner_id: 'provider-1',
+            debit: 450,
+          },
+          { account: LedgerAccount.TAX_PAYABLE, debit: 90 },
+          { account: LedgerAccount.PLATFORM_REVENUE, debit: 50 },
+          { account: LedgerAccount.GATEWAY_CLEARING, credit: 590 },
+        ],
+      }),
+      expect.anything(),
+    );
+  });
+
+  it('refunds a wallet payment in full to the wallet', async () => {
+    stubPayment(PaymentMethod.WALLET);
+
+    const refund = await service.requestRefund({
+      payment_id: 'payment-1',
+      reason: 'Provider no-show',
+      trigger: RefundTrigger.ADMIN,
+    });
+
+    expect(refund).toMatchObject({
+      amount: 1180,
+      destination: 'wallet',
+      status: RefundStatus.PROCESSED,
+    });
+    expect(gateway.refund).not.toHaveBeenCalled();
+    expect(ledger.post).toHaveBeenCalledWith(
+      expect.objectContaining({
+        lines: [
+          {
+            account: LedgerAccount.PROVIDER_WALLET,
+            owner_id: 'provider-1',
+            debit: 900,
+          },
+          { account: LedgerAccount.TAX_PAYABLE, debit: 180 },
+          { account: LedgerAccount.PLATFORM_REVENUE, debit: 100 },
+          {
+            account: LedgerAccount.CUSTOMER_WALLET,
+            owner_id: 'customer-user-1',
+            credit: 1180,
+          },
+        ],
+      }),
+      expect.anything(),
+    );
+    expect(mock.committed(/UPDATE payments/)[0].params).toEqual([
+      PaymentStatus.REFUNDED,
+      'payment-1',
+      PaymentStatus.COMPLETED,
+      RefundStatus.PROCESSED,
+    ]);
+  });
+
+  it('keeps a refund the gateway turned down so it can be retried', async () => {
+    stubPayment(PaymentMethod.CARD, '0', 'pay_123');
+    gateway.refund.mockRejectedValueOnce(new Error('Gateway unavailable'));
+
+    const failed = await service.requestRefund({
+      payment_id: 'payment-1',
+      amount: 590,
+      reason: 'Partial refund',
+      trigger: RefundTrigger.DISPUTE,
+    });
+
+    expect(failed.status).toBe(RefundStatus.FAILED);
+    expect(ledger.post).not.toHaveBeenCalled();
+    expect(mock.committed(/UPDATE payments/)).toHaveLength(0);
+
+    mock.when(/FROM refunds WHERE id = \$1 FOR UPDATE/, [failed]);
+    gateway.refund.mockResolvedValue({
+      refund_id: 'rfnd_2',
+      status: 'processed',
+    });
+
+    const retried = await service.retryRefund('refund-1');
+
+    expect(gateway.refund).toHaveBeenLastCalledWith('pay_123', 590, 'refund-1');
+    expect(retried.status).toBe(RefundStatus.PROCESSED);
+    expect(ledger.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to refund more than is left on the payment', async () => {
+    stubPayment(PaymentMethod.UPI, '1000', 'pay_123');
+
+    await expect(
+      service.requestRefund({
+        payment_id: 'payment-1',
+        amount: 500,
+        reason: 'Too much',
+        trigger: RefundTrigger.ADMIN,
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mock.committed(/INSERT INTO refunds/)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,614 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import {
+  JournalKind,
+  LedgerAccount,
+  Payment,
+  PaymentMethod,
+  PaymentPurpose,
+  PaymentStatus,
+  Refund,
+  RefundStatus,
+  RefundTrigger,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  BookingShares,
+  JournalLine,
+  shareLines,
+  splitBookingAmount,
+} from '../ledger/journal';
+import { LoyaltyService } from '../loyalty/loyalty.service';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { GatewayEvent, GatewayRefund } from './payment-gateway.interface';
+
+export interface RefundRequest {
+  payment_id: string;
+  // Defaults to everything not yet refunded
+  amount?: number;
+  reason: string;
+  trigger: RefundTrigger;
+  requested_by?: string;
+  // Defaults to how the payment was made; wallet payments always go
+  // back to the wallet
+  destination?: 'gateway' | 'wallet';
+}
+
+interface RefundablePayment extends Payment {
+  customer_user_id: string;
+  booking_number: string;
+}
+
+interface RefundedBooking {
+  id: string;
+  method: PaymentMethod;
+  booking_number: string;
+  customer_user_id: string;
+  provider_id?: string;
+  final_amount: string;
+  provider_earnings?: string;
+  tax_amount?: string;
+}
+
+/**
+ * Lines refunding cash to the customer's wallet
+ * The provider was never credited for cash, only debited the commission
+ * and GST in it. That debit is reversed, and the refunded cash, which the
+ * provider still holds, is taken from their wallet instead.
+ */
+function cashRefundLines(
+  shares: BookingShares,
+  amount: number,
+  booking: RefundedBooking,
+): JournalLine[] {
+  return [
+    { account: LedgerAccount.TAX_PAYABLE, debit: shares.tax },
+    { account: LedgerAccount.PLATFORM_REVENUE, debit: shares.revenue },
+    {
+      account: LedgerAccount.PROVIDER_WALLET,
+      owner_id: booking.provider_id,
+      credit: MoneyUtil.round(shares.tax + shares.revenue),
+    },
+    {
+      account: LedgerAccount.PROVIDER_WALLET,
+      owner_id: booking.provider_id,
+      debit: amount,
+    },
+    {
+      account: LedgerAccount.CUSTOMER_WALLET,
+      owner_id: booking.customer_user_id,
+      credit: amount,
+    },
+  ];
+}
+
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    private db: DatabaseService,
+    private paymentGatewayService: PaymentGatewayService,
+    private ledgerService: LedgerService,
+    private loyaltyService: LoyaltyService,
+  ) {}
+
+  /**
+   * Refund all or part of a captured payment
+   * Gateway refunds are submitted after the refund row commits; a gateway
+   * error leaves the refund failed for an admin to retry.
+   */
+  async requestRefund(request: RefundRequest): Promise<Refund> {
+    const refund = await this.db.transaction(
+      async (client: PoolClient) => await this.recordRefund(request, client),
+    );
+
+    const [submitted] = await this.submitRefunds([refund]);
+    return submitted;
+  }
+
+  /**
+   * Refund what a customer paid for a cancelled booking, less any fee
+   * they owe; newest payments are refunded first
+   * The refunds are recorded in the cancelling transaction, so they commit
+   * or roll back with the cancellation. Gateway refunds stay pending until
+   * the caller passes them to submitRefunds after commit.
+   */
+  async refundCancelledBooking(
+    bookingId: string,
+    retainedFee: number,
+    reason: string,
+    client: PoolClient,
+    requestedBy?: string,
+    destination?: 'gateway' | 'wallet',
+  ): Promise<Refund[]> {
+    const result = await client.query<Payment & { refunded: string }>(
+      `SELECT pay.*, COALESCE((
+          SELECT SUM(r.amount) FROM refunds r
+          WHERE r.payment_id = pay.id AND r.status != $2
+        ), 0) as refunded
+       FROM payments pay
+       WHERE pay.booking_id = $1 AND pay.status = $3 AND pay.purpose = $4
+       ORDER BY pay.created_at DESC`,
+      [
+        bookingId,
+        RefundStatus.FAILED,
+        PaymentStatus.COMPLETED,
+        PaymentPurpose.BOOKING,
+      ],
+    );
+    const payments = result.rows;
+
+    const paid = payments.reduce(
+      (sum, payment) =>
+        sum +
+        MoneyUtil.toNumber(payment.amount) -
+        MoneyUtil.toNumber(payment.refunded),
+      0,
+    );
+    let left = MoneyUtil.round(paid - retainedFee);
+    const refunds: Refund[] = [];
+
+    for (const payment of payments) {
+      if (left <= 0) {
+        break;
+      }
+
+      const amount = MoneyUtil.round(
+        Math.min(
+          left,
+          MoneyUtil.toNumber(payment.amount) -
+            MoneyUtil.toNumber(payment.refunded),
+        ),
+      );
+      if (amount <= 0) {
+        continue;
+      }
+
+      refunds.push(
+        await this.recordRefund(
+          {
+            payment_id: payment.id,
+            amount,
+            reason,
+            trigger: RefundTrigger.CANCELLATION,
+            requested_by: requestedBy,
+            destination,
+          },
+          client,
+        ),
+      );
+      left = MoneyUtil.round(left - amount);
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Return what a capture paid beyond the amount due to the customer's
+   * wallet, in the capturing transaction
+   */
+  async refundOverpayment(
+    paymentId: string,
+    amount: number,
+    reason: string,
+    client: PoolClient,
+  ): Promise<Refund> {
+    return await this.recordRefund(
+      {
+        payment_id: paymentId,
+        amount,
+        reason,
+        trigger: RefundTrigger.OVERPAYMENT,
+        destination: 'wallet',
+      },
+      client,
+    );
+  }
+
+  /**
+   * Send recorded gateway refunds that are still pending to the gateway
+   * Wallet refunds are settled when recorded and are returned as they are.
+   */
+  async submitRefunds(refunds: Refund[]): Promise<Refund[]> {
+    const submitted: Refund[] = [];
+
+    for (const refund of refunds) {
+      if (
+        refund.destination !== 'gateway' ||
+        refund.status !== RefundStatus.PENDING
+      ) {
+        submitted.push(refund);
+        continue;
+      }
+
+      const payment = await this.db.queryOne<Payment>(
+        `SELECT * FROM payments WHERE id = $1`,
+        [refund.payment_id],
+      );
+      submitted.push(
+        await this.submitToGateway(refund, payment!.transaction_id!),
+      );
+    }
+
+    return submitted;
+  }
+
+  /**
+   * Submit a failed or never-sent gateway refund again (Admin only)
+   */
+  async retryRefund(refundId: string): Promise<Refund> {
+    const { refund, payment } = await this.db.transaction(
+      async (client: PoolClient) => {
+        const found = await client.query<Refund>(
+          `SELECT * FROM refunds WHERE id = $1 FOR UPDATE`,
+          [refundId],
+        );
+        const current = found.rows[0];
+
+        if (!current) {
+          throw new NotFoundException('Refund not found');
+        }
+
+        // A pending refund with no gateway id was recorded but never sent
+        const unsent =
+          current.status === RefundStatus.PENDING && !current.gateway_refund_id;
+        if (
+          (current.status !== RefundStatus.FAILED && !unsent) ||
+          current.destination !== 'gateway'
+        ) {
+          throw new ConflictException(
+            'Only failed or unsent gateway refunds can be retried',
+          );
+        }
+
+        // A failed refund is not counted, so check it still fits
+        const payment = await this.lockPayment(current.payment_id, client);
+        const refundable = await this.getRefundable(payment, client);
+        if (
+          MoneyUtil.toNumber(current.amount) >
+          (unsent
+            ? refundable + MoneyUtil.toNumber(current.amount)
+            : refundable)
+        ) {
+          throw new ConflictException(
+            'Refund exceeds what is left on the payment',
+          );
+        }
+
+        const result = await client.query<Refund>(
+          `UPDATE refunds
+           SET status = $1, failure_reason = NULL, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2
+           RETURNING *`,
+          [RefundStatus.PENDING, refundId],
+        );
+
+        return { refund: result.rows[0], payment };
+      },
+    );
+
+    return await this.submitToGateway(refund, payment.transaction_id!);
+  }
+
+  /**
+   * Refunds of a payment
+   */
+  async getPaymentRefunds(paymentId: string): Promise<Refund[]> {
+    return await this.db.queryMany<Refund>(
+      `SELECT * FROM refunds WHERE payment_id = $1 ORDER BY created_at DESC`,
+      [paymentId],
+    );
+  }
+
+  /**
+   * Reconcile a refund with a gateway webhook
+   * Returns false when the event is not about a refund we know.
+   */
+  async applyGatewayEvent(
+    event: GatewayEvent,
+    client: PoolClient,
+  ): Promise<boolean> {
+    if (!event.refund_id) {
+      return false;
+    }
+
+    const found = await client.query<Refund>(
+      `SELECT * FROM refunds WHERE gateway_refund_id = $1 FOR UPDATE`,
+      [event.refund_id],
+    );
+
+    if (!found.rows[0]) {
+      return false;
+    }
+
+    await this.settle(
+      found.rows[0].id,
+      {
+        refund_id: event.refund_id,
+        status: event.type === 'refund.processed' ? 'processed' : 'failed',
+        failure_reason: event.failure_reason,
+      },
+      client,
+    );
+
+    return true;
+  }
+
+  private async submitToGateway(
+    refund: Refund,
+    gatewayPaymentId: string,
+  ): Promise<Refund> {
+    let result: GatewayRefund;
+
+    try {
+      result = await this.paymentGatewayService.refund(
+        gatewayPaymentId,
+        MoneyUtil.toNumber(refund.amount),
+        // Lets the gateway drop a resubmission of the same refund
+        refund.id,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Gateway refund ${refund.id} failed: ${(error as Error).message}`,
+      );
+      result = {
+        refund_id: refund.gateway_refund_id ?? '',
+        status: 'failed',
+        failure_reason: 'Gateway did not accept the refund',
+      };
+    }
+
+    return await this.db.transaction(
+      async (client: PoolClient) =>
+        await this.settle(refund.id, result, client),
+    );
+  }
+
+  /**
+   * Record the gateway's answer for a refund
+   * A processed refund is final and is booked to the ledger once; when the
+   * payment's processed refunds reach its amount, the payment becomes
+   * refunded.
+   */
+  private async settle(
+    refundId: string,
+    result: GatewayRefund,
+    client: PoolClient,
+  ): Promise<Refund> {
+    const status =
+      result.status === 'processed'
+        ? RefundStatus.PROCESSED
+        : result.status === 'failed'
+          ? RefundStatus.FAILED
+          : RefundStatus.PENDING;
+
+    const updated = await client.query<Refund>(
+      `UPDATE refunds
+       SET status = $1,
+           gateway_refund_id = COALESCE(NULLIF($2, ''), gateway_refund_id),
+           failure_reason = $3,
+           processed_at = CASE WHEN $4 THEN CURRENT_TIMESTAMP ELSE processed_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND status != $6
+       RETURNING *`,
+      [
+        status,
+        result.refund_id,
+        status === RefundStatus.FAILED ? result.failure_reason : null,
+        status === RefundStatus.PROCESSED,
+        refundId,
+        RefundStatus.PROCESSED,
+      ],
+    );
+
+    const refund =
+      updated.rows[0] ??
+      (
+        await client.query<Refund>(`SELECT * FROM refunds WHERE id = $1`, [
+          refundId,
+        ])
+      ).rows[0];
+
+    if (updated.rows[0]?.status === RefundStatus.PROCESSED) {
+      await this.postRefund(refund, client);
+    }
+
+    if (refund.status === RefundStatus.PROCESSED) {
+      await client.query(
+        `UPDATE payments
+         SET status = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = $3
+           AND amount <= (
+             SELECT COALESCE(SUM(amount), 0) FROM refunds
+             WHERE payment_id = $2 AND status = $4
+           )`,
+        [
+          PaymentStatus.REFUNDED,
+          refund.payment_id,
+          PaymentStatus.COMPLETED,
+          RefundStatus.PROCESSED,
+        ],
+      );
+    }
+
+    return refund;
+  }
+
+  /**
+   * Reverse the payment's split for the refunded amount and pay it out
+   * to the gateway or the customer's wallet, taking back loyalty points
+   * earned on the refunded part
+   */
+  private async postRefund(refund: Refund, client: PoolClient): Promise<void> {
+    const result = await client.query<RefundedBooking>(
+      `SELECT
+        b.id, b.booking_number, b.provider_id, b.provider_earnings,
+        b.tax_amount, pay.method,
+        c.user_id as customer_user_id,
+        COALESCE(b.final_price, b.estimated_price) as final_amount
+       FROM payments pay
+       JOIN bookings b ON pay.booking_id = b.id
+       JOIN customers c ON b.customer_id = c.id
+       WHERE pay.id = $1`,
+      [refund.payment_id],
+    );
+    const booking = result.rows[0];
+    const amount = MoneyUtil.toNumber(refund.amount);
+    const shares = splitBookingAmount(amount, booking);
+
+    await this.ledgerService.post(
+      {
+        kind: JournalKind.REFUND,
+        description: `Refund for booking ${booking.booking_number}`,
+        booking_id: booking.id,
+        payment_id: refund.payment_id,
+        refund_id: refund.id,
+        lines:
+          booking.method === PaymentMethod.CASH
+            ? cashRefundLines(shares, amount, booking)
+            : [
+                ...shareLines(shares, 'debit', booking.provider_id),
+                refund.destination === 'wallet'
+                  ? {
+                      account: LedgerAccount.CUSTOMER_WALLET,
+                      owner_id: booking.customer_user_id,
+                      credit: amount,
+                    }
+                  : { account: LedgerAccount.GATEWAY_CLEARING, credit: amount },
+              ],
+      },
+      client,
+    );
+
+    // Points were never earned on money paid beyond the price
+    if (refund.trigger === RefundTrigger.OVERPAYMENT) {
+      return;
+    }
+
+    await this.loyaltyService.reverseForRefund(
+      booking.id,
+      amount,
+      MoneyUtil.toNumber(booking.final_amount),
+      client,
+    );
+  }
+
+  /**
+   * Insert a refund of a captured payment in the caller's transaction
+   * The amount is checked against what is left under a lock on the payment,
+   * so concurrent refunds cannot exceed the captured amount. Wallet refunds
+   * are settled straight away.
+   */
+  private async recordRefund(
+    request: RefundRequest,
+    client: PoolClient,
+  ): Promise<Refund> {
+    const payment = await this.lockPayment(request.payment_id, client);
+
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw new ConflictException(
+        `Only captured payments can be refunded (payment is ${payment.status})`,
+      );
+    }
+
+    // Tips go to the provider in full and cancellation fees are owed, so
+    // neither is taken back
+    if (payment.purpose !== PaymentPurpose.BOOKING) {
+      throw new ConflictException('Only booking payments can be refunded');
+    }
+
+    const remaining = await this.getRefundable(payment, client);
+    const amount = MoneyUtil.round(request.amount ?? remaining);
+
+    if (amount <= 0 || amount > remaining) {
+      throw new BadRequestException(
+        `At most ${remaining} can be refunded on this payment`,
+      );
+    }
+
+    // Cash never passed through the gateway, so it is refunded to the
+    // wallet like wallet payments are
+    const destination =
+      payment.method === PaymentMethod.WALLET ||
+      payment.method === PaymentMethod.CASH
+        ? 'wallet'
+        : (request.destination ?? 'gateway');
+
+    const result = await client.query<Refund>(
+      `INSERT INTO refunds (
+        payment_id, amount, reason, status, trigger, destination, requested_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        payment.id,
+        amount,
+        request.reason,
+        RefundStatus.PENDING,
+        request.trigger,
+        destination,
+        request.requested_by,
+      ],
+    );
+
+    // The customer's wallet is credited when the refund is booked
+    if (destination === 'wallet') {
+      return await this.settle(
+        result.rows[0].id,
+        { refund_id: '', status: 'processed' },
+        client,
+      );
+    }
+
+    return result.rows[0];
+  }
+
+  private async lockPayment(
+    paymentId: string,
+    client: PoolClient,
+  ): Promise<RefundablePayment> {
+    const result = await client.query<RefundablePayment>(
+      `SELECT pay.*, c.user_id as customer_user_id, b.booking_number
+       FROM payments pay
+       JOIN bookings b ON pay.booking_id = b.id
+       JOIN customers c ON b.customer_id = c.id
+       WHERE pay.id = $1
+       FOR UPDATE OF pay`,
+      [paymentId],
+    );
+
+    if (!result.rows[0]) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Captured amount less refunds that have not failed
+   */
+  private async getRefundable(
+    payment: Payment,
+    client: PoolClient,
+  ): Promise<number> {
+    const result = await client.query<{ refunded: string }>(
+      `SELECT COALESCE(SUM(amount), 0) as refunded FROM refunds
+       WHERE payment_id = $1 AND status != $2`,
+      [payment.id, RefundStatus.FAILED],
+    );
+
+    return MoneyUtil.round(
+      MoneyUtil.toNumber(payment.amount) -
+        MoneyUtil.toNumber(result.rows[0].refunded),
+    );
+  }
+}
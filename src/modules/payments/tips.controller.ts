@@ -0,0 +1,33 @@
+import { Controller, Post, Body, UseGuards } from '@nestjs/common';
+import { TipsService } from './tips.service';
+import { CreateTipDto } from './dto/create-tip.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('tips')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TipsController {
+  constructor(private tipsService: TipsService) {}
+
+  /**
+   * POST /api/v1/tips
+   * Tip the provider of a completed booking by UPI, card or wallet
+   * (Customer only)
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post()
+  async createTip(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreateTipDto,
+  ) {
+    const tip = await this.tipsService.createTip(user, createDto);
+    return ResponseUtil.success(
+      tip,
+      tip.checkout ? 'Payment order created' : 'Tip added',
+    );
+  }
+}
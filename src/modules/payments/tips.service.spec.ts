@@ -0,0 +1,119 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { subHours } from 'date-fns';
+import { MockDatabase } from '../../../test/mock-database';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  PaymentMethod,
+  PaymentPurpose,
+  PaymentStatus,
+  User,
+} from '../../types/database.types';
+import { WalletsService } from '../wallets/wallets.service';
+import { PaymentsService } from './payments.service';
+import { TipsService } from './tips.service';
+
+describe('TipsService', () => {
+  let mock: MockDatabase;
+  let service: TipsService;
+  const wallets = { lockWallet: jest.fn() };
+  const payments = { openOrder: jest.fn(), applyStatus: jest.fn() };
+  const customer = { id: 'customer-user-1' } as User;
+
+  const stubBooking = (completedHoursAgo: number, hasTip = false) => {
+    mock.when(/as has_tip/, [
+      {
+        id: 'booking-1',
+        booking_number: 'BK-1',
+        status: BookingStatus.COMPLETED,
+        provider_id: 'provider-1',
+        completed_at: subHours(new Date(), completedHoursAgo),
+        customer_user_id: customer.id,
+        has_tip: hasTip,
+      },
+    ]);
+  };
+
+  const tip = (method: PaymentMethod) =>
+    service.createTip(customer, {
+      booking_id: 'booking-1',
+      amount: 100,
+      method,
+    });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mock = new MockDatabase();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TipsService,
+        { provide: DatabaseService, useValue: mock.db },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+        { provide: WalletsService, useValue: wallets },
+        { provide: PaymentsService, useValue: payments },
+      ],
+    }).compile();
+
+    service = module.get(TipsService);
+  });
+
+  it('opens a gateway order under the booking lock', async () => {
+    stubBooking(2);
+    payments.openOrder.mockResolvedValue({ payment: { id: 'payment-1' } });
+
+    await tip(PaymentMethod.UPI);
+
+    expect(mock.queries[0].sql).toMatch(/FOR UPDATE/);
+    expect(payments.openOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ purpose: PaymentPurpose.TIP, amount: 100 }),
+      mock.client,
+    );
+  });
+
+  it('replaces a checkout that was opened and never paid', async () => {
+    stubBooking(2);
+    payments.openOrder.mockResolvedValue({ payment: { id: 'payment-2' } });
+
+    await tip(PaymentMethod.CARD);
+
+    const [replaced] = mock.committed(/UPDATE payments/);
+    expect(replaced.params).toEqual([
+      PaymentStatus.FAILED,
+      'Replaced by a newer tip',
+      'booking-1',
+      PaymentPurpose.TIP,
+      PaymentStatus.PENDING,
+    ]);
+  });
+
+  it('refuses a second tip on the booking', async () => {
+    stubBooking(2, true);
+
+    await expect(tip(PaymentMethod.UPI)).rejects.toThrow(
+      'This booking has already been tipped',
+    );
+    expect(payments.openOrder).not.toHaveBeenCalled();
+  });
+
+  it('refuses tips once the window has closed', async () => {
+    stubBooking(49);
+
+    await expect(tip(PaymentMethod.UPI)).rejects.toThrow(
+      'Tips can only be added within 48 hours of completion',
+    );
+  });
+
+  it('keeps the open checkout when the wallet cannot pay', async () => {
+    stubBooking(2);
+    wallets.lockWallet.mockResolvedValue({ balance: '50.00' });
+
+    await expect(tip(PaymentMethod.WALLET)).rejects.toThrow(ConflictException);
+    expect(mock.committed(/UPDATE payments/)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  Injectable,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { addHours } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  Payment,
+  PaymentMethod,
+  PaymentPurpose,
+  PaymentStatus,
+  User,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { WalletsService } from '../wallets/wallets.service';
+import { PaymentCheckout, PaymentsService } from './payments.service';
+import { CreateTipDto } from './dto/create-tip.dto';
+
+export interface TipCheckout {
+  payment: Payment;
+  // Gateway order to complete; null when the tip was paid from the wallet
+  checkout: PaymentCheckout | null;
+}
+
+interface TippableBooking {
+  id: string;
+  booking_number: string;
+  status: BookingStatus;
+  provider_id?: string;
+  completed_at?: Date;
+  customer_user_id: string;
+  has_tip: boolean;
+}
+
+@Injectable()
+export class TipsService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private walletsService: WalletsService,
+    private paymentsService: PaymentsService,
+  ) {}
+
+  /**
+   * Tip the provider of a completed booking (Customer)
+   * Allowed once per booking, within the tip window after completion. A
+   * wallet tip is captured straight away; otherwise a gateway order is
+   * opened and the tip is credited when it is captured. Checked under the
+   * booking lock; a new tip replaces a checkout that was opened and never
+   * paid.
+   */
+  async createTip(user: User, createDto: CreateTipDto): Promise<TipCheckout> {
+    return await this.db.transaction(async (client: PoolClient) => {
+      await client.query(`SELECT id FROM bookings WHERE id = $1 FOR UPDATE`, [
+        createDto.booking_id,
+      ]);
+      const booking = await this.getTippableBooking(
+        createDto.booking_id,
+        client,
+      );
+
+      if (booking.customer_user_id !== user.id) {
+        throw new ForbiddenException('You can only tip on your own bookings');
+      }
+
+      this.assertTippable(booking);
+
+      // A late capture of a replaced order is returned to the wallet
+      await client.query(
+        `UPDATE payments
+         SET status = $1, failure_reason = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE booking_id = $3 AND purpose = $4 AND status = $5`,
+        [
+          PaymentStatus.FAILED,
+          'Replaced by a newer tip',
+          booking.id,
+          PaymentPurpose.TIP,
+          PaymentStatus.PENDING,
+        ],
+      );
+
+      if (createDto.method !== PaymentMethod.WALLET) {
+        const checkout = await this.paymentsService.openOrder(
+          {
+            purpose: PaymentPurpose.TIP,
+            booking_id: booking.id,
+            provider_id: booking.provider_id,
+            amount: createDto.amount,
+            method: createDto.method,
+            receipt: `TIP-${booking.booking_number}`,
+          },
+          client,
+        );
+
+        return { payment: checkout.payment, checkout };
+      }
+
+      const wallet = await this.walletsService.lockWallet(user.id, client);
+      if (MoneyUtil.toNumber(wallet.balance) < createDto.amount) {
+        throw new ConflictException('Insufficient wallet balance');
+      }
+
+      const inserted = await client.query<Payment>(
+        `INSERT INTO payments (
+          purpose, booking_id, provider_id, amount, currency, method, status
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          PaymentPurpose.TIP,
+          booking.id,
+          booking.provider_id,
+          createDto.amount,
+          this.configService.get<string>('payments.currency', 'INR'),
+          PaymentMethod.WALLET,
+          PaymentStatus.PENDING,
+        ],
+      );
+
+      // Capturing debits the wallet and credits the provider
+      const payment = await this.paymentsService.applyStatus(
+        inserted.rows[0].id,
+        PaymentStatus.COMPLETED,
+        {},
+        client,
+      );
+
+      return { payment, checkout: null };
+    });
+  }
+
+  private assertTippable(booking: TippableBooking): void {
+    if (booking.status !== BookingStatus.COMPLETED || !booking.provider_id) {
+      throw new ConflictException('Only completed bookings can be tipped');
+    }
+
+    if (booking.has_tip) {
+      throw new ConflictException('This booking has already been tipped');
+    }
+
+    const windowHours = this.configService.get<number>(
+      'payments.tipWindowHours',
+      48,
+    );
+    if (
+      !booking.completed_at ||
+      addHours(new Date(booking.completed_at), windowHours) < new Date()
+    ) {
+      throw new ConflictException(
+        `Tips can only be added within ${windowHours} hours of completion`,
+      );
+    }
+  }
+
+  private async getTippableBooking(
+    bookingId: string,
+    client?: PoolClient,
+  ): Promise<TippableBooking> {
+    const query = `SELECT
+        b.id, b.booking_number, b.status, b.provider_id, b.completed_at,
+        c.user_id as customer_user_id,
+        EXISTS (
+          SELECT 1 FROM payments
+          WHERE booking_id = b.id AND purpose = $2 AND status = ANY($3)
+        ) as has_tip
+       FROM bookings b
+       JOIN customers c ON b.customer_id = c.id
+       WHERE b.id = $1`;
+    // A tip being authorised counts; one still awaiting payment does not
+    const values = [
+      bookingId,
+      PaymentPurpose.TIP,
+      [PaymentStatus.PROCESSING, PaymentStatus.COMPLETED],
+    ];
+    const booking = client
+      ? (await client.query<TippableBooking>(query, values)).rows[0]
+      : await this.db.queryOne<TippableBooking>(query, values);
+
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    return booking;
+  }
+}
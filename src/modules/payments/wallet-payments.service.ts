@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import {
+  JournalKind,
+  LedgerAccount,
+  PaymentPurpose,
+  User,
+  Wallet,
+} from '../../types/database.types';
+import { UsersService } from '../users/users.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { PaymentCheckout, PaymentsService } from './payments.service';
+import { CreateTopUpDto } from './dto/create-top-up.dto';
+
+@Injectable()
+export class WalletPaymentsService {
+  constructor(
+    private db: DatabaseService,
+    private usersService: UsersService,
+    private walletsService: WalletsService,
+    private ledgerService: LedgerService,
+    private paymentsService: PaymentsService,
+  ) {}
+
+  /**
+   * Add money to the wallet through the gateway (Customer)
+   * The wallet is credited once the payment is captured.
+   */
+  async createTopUp(
+    user: User,
+    createDto: CreateTopUpDto,
+  ): Promise<PaymentCheckout> {
+    return await this.paymentsService.openOrder({
+      purpose: PaymentPurpose.WALLET_TOP_UP,
+      user_id: user.id,
+      amount: createDto.amount,
+      method: createDto.method,
+      receipt: `TOPUP-${user.id.slice(0, 8)}`,
+    });
+  }
+
+  /**
+   * Credit cashback to a customer's wallet, at the platform's expense
+   * Runs in the caller's transaction when one is given.
+   */
+  async grantCashback(
+    userId: string,
+    amount: number,
+    reason: string,
+    client?: PoolClient,
+  ): Promise<Wallet> {
+    if (!client) {
+      await this.usersService.findById(userId);
+      return await this.db.transaction(
+        async (tx: PoolClient) =>
+          await this.grantCashback(userId, amount, reason, tx),
+      );
+    }
+
+    await this.ledgerService.post(
+      {
+        kind: JournalKind.CASHBACK,
+        description: reason,
+        lines: [
+          { account: LedgerAccount.PLATFORM_REVENUE, debit: amount },
+          {
+            account: LedgerAccount.CUSTOMER_WALLET,
+            owner_id: userId,
+            credit: amount,
+          },
+        ],
+      },
+      client,
+    );
+
+    return await this.walletsService.lockWallet(userId, client);
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { WalletPaymentsService } from './wallet-payments.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { CreateTopUpDto } from './dto/create-top-up.dto';
+import { GrantCashbackDto } from './dto/grant-cashback.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('wallet')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class WalletController {
+  constructor(
+    private walletsService: WalletsService,
+    private walletPaymentsService: WalletPaymentsService,
+  ) {}
+
+  /**
+   * GET /api/v1/wallet
+   * Get wallet balance (Customer only)
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Get()
+  async getWallet(@CurrentUser() user: databaseTypes.User) {
+    const wallet = await this.walletsService.getWallet(user.id);
+    return ResponseUtil.success(wallet);
+  }
+
+  /**
+   * GET /api/v1/wallet/transactions
+   * Get wallet statement (Customer only)
+   * Query params: page, limit (optional)
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Get('transactions')
+  async getStatement(
+    @CurrentUser() user: databaseTypes.User,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    const statement = await this.walletsService.getStatement(
+      user.id,
+      page,
+      limit,
+    );
+    return ResponseUtil.success(statement);
+  }
+
+  /**
+   * POST /api/v1/wallet/top-ups
+   * Add money to the wallet by UPI or card (Customer only)
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER)
+  @Post('top-ups')
+  async createTopUp(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreateTopUpDto,
+  ) {
+    const checkout = await this.walletPaymentsService.createTopUp(
+      user,
+      createDto,
+    );
+    return ResponseUtil.success(checkout, 'Payment order created');
+  }
+
+  /**
+   * POST /api/v1/wallet/users/:userId/cashback
+   * Credit cashback to a customer's wallet (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post('users/:userId/cashback')
+  async grantCashback(
+    @Param('userId') userId: string,
+    @Body() grantDto: GrantCashbackDto,
+  ) {
+    const wallet = await this.walletPaymentsService.grantCashback(
+      userId,
+      grantDto.amount,
+      grantDto.reason,
+    );
+    return ResponseUtil.success(wallet, 'Cashback credited');
+  }
+}
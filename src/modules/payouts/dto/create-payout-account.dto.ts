@@ -0,0 +1,33 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+export class CreatePayoutAccountDto {
+  @IsIn(['bank', 'upi'])
+  type: 'bank' | 'upi';
+
+  @ValidateIf((dto: CreatePayoutAccountDto) => dto.type === 'bank')
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  account_holder_name?: string;
+
+  @ValidateIf((dto: CreatePayoutAccountDto) => dto.type === 'bank')
+  @Matches(/^\d{9,18}$/, { message: 'account_number must be 9 to 18 digits' })
+  account_number?: string;
+
+  @ValidateIf((dto: CreatePayoutAccountDto) => dto.type === 'bank')
+  @Matches(/^[A-Z]{4}0[A-Z0-9]{6}$/, { message: 'ifsc is invalid' })
+  ifsc?: string;
+
+  @ValidateIf((dto: CreatePayoutAccountDto) => dto.type === 'upi')
+  @Matches(/^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z]{2,64}$/, {
+    message: 'vpa is invalid',
+  })
+  vpa?: string;
+}
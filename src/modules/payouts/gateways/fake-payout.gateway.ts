@@ -0,0 +1,62 @@
+import { randomUUID } from 'crypto';
+import {
+  AccountVerification,
+  GatewayTransfer,
+  PayoutDestination,
+  PayoutGateway,
+} from '../payout-gateway.interface';
+
+/**
+ * In-process payout gateway for development and tests
+ * Bank accounts ending in 0000 and VPAs starting with "fail" do not
+ * exist; everything else verifies and is paid at once.
+ */
+export class FakePayoutGateway implements PayoutGateway {
+  readonly name = 'fake';
+  // Transfers by idempotency key, so a resent attempt gets the same answer
+  private readonly transfers = new Map<string, GatewayTransfer>();
+
+  async verifyAccount(
+    destination: PayoutDestination,
+  ): Promise<AccountVerification> {
+    const exists = this.exists(destination);
+
+    return Promise.resolve({
+      verified: exists,
+      name_at_bank: exists
+        ? (destination.account_holder_name ?? 'UPI Account Holder')
+        : undefined,
+      reference: `pd_fake_${randomUUID()}`,
+      failure_reason: exists ? undefined : 'Account does not exist',
+    });
+  }
+
+  async transfer(
+    destination: PayoutDestination,
+    amount: number,
+    idempotencyKey: string,
+  ): Promise<GatewayTransfer> {
+    const exists = this.exists(destination);
+    const transfer = this.transfers.get(idempotencyKey) ?? {
+      transfer_id: `trf_fake_${randomUUID()}`,
+      status: exists ? ('processed' as const) : ('failed' as const),
+      failure_reason: exists ? undefined : 'Beneficiary account is closed',
+    };
+
+    this.transfers.set(idempotencyKey, transfer);
+    return Promise.resolve(transfer);
+  }
+
+  async getTransfer(transferId: string): Promise<GatewayTransfer> {
+    return Promise.resolve({
+      transfer_id: transferId,
+      status: 'processed' as const,
+    });
+  }
+
+  private exists(destination: PayoutDestination): boolean {
+    return destination.type === 'upi'
+      ? !destination.vpa?.startsWith('fail')
+      : !destination.account_number?.endsWith('0000');
+  }
+}
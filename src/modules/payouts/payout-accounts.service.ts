@@ -0,0 +1,114 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import { PayoutAccount } from '../../types/database.types';
+import { ProvidersService } from '../providers/providers.service';
+import { PayoutGatewayService } from './payout-gateway.service';
+import { CreatePayoutAccountDto } from './dto/create-payout-account.dto';
+
+@Injectable()
+export class PayoutAccountsService {
+  constructor(
+    private db: DatabaseService,
+    private providersService: ProvidersService,
+    private payoutGatewayService: PayoutGatewayService,
+  ) {}
+
+  /**
+   * Account the provider is paid to (Provider)
+   */
+  async getAccount(userId: string): Promise<PayoutAccount> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    const account = await this.db.queryOne<PayoutAccount>(
+      `SELECT * FROM payout_accounts
+       WHERE provider_id = $1 AND is_active = true`,
+      [provider.id],
+    );
+
+    if (!account) {
+      throw new NotFoundException('No payout account added yet');
+    }
+
+    return this.mask(account);
+  }
+
+  /**
+   * Add a bank account or UPI VPA and verify it with a penny drop
+   * (Provider)
+   * A verified account replaces the current one; a failed one is kept
+   * for reference and the current account stays active.
+   */
+  async addAccount(
+    userId: string,
+    createDto: CreatePayoutAccountDto,
+  ): Promise<PayoutAccount> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    const destination =
+      createDto.type === 'bank'
+        ? {
+            type: createDto.type,
+            account_holder_name: createDto.account_holder_name,
+            account_number: createDto.account_number,
+            ifsc: createDto.ifsc,
+          }
+        : { type: createDto.type, vpa: createDto.vpa };
+
+    const verification =
+      await this.payoutGatewayService.verifyAccount(destination);
+
+    const account = await this.db.transaction(async (client: PoolClient) => {
+      if (verification.verified) {
+        await client.query(
+          `UPDATE payout_accounts
+           SET is_active = false, updated_at = CURRENT_TIMESTAMP
+           WHERE provider_id = $1 AND is_active = true`,
+          [provider.id],
+        );
+      }
+
+      const result = await client.query<PayoutAccount>(
+        `INSERT INTO payout_accounts (
+          provider_id, type, account_holder_name, account_number, ifsc, vpa,
+          status, name_at_bank, verification_reference, failure_reason,
+          is_active, verified_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11,
+           CASE WHEN $11 THEN CURRENT_TIMESTAMP END)
+         RETURNING *`,
+        [
+          provider.id,
+          destination.type,
+          destination.account_holder_name,
+          destination.account_number,
+          destination.ifsc,
+          destination.vpa,
+          verification.verified ? 'verified' : 'failed',
+          verification.name_at_bank,
+          verification.reference,
+          verification.failure_reason,
+          verification.verified,
+        ],
+      );
+
+      return result.rows[0];
+    });
+
+    return this.mask(account);
+  }
+
+  /**
+   * Hide all but the last four digits of a bank account
+   */
+  private mask(account: PayoutAccount): PayoutAccount {
+    if (!account.account_number) {
+      return account;
+    }
+
+    return {
+      ...account,
+      account_number: account.account_number
+        .slice(-4)
+        .padStart(account.account_number.length, 'X'),
+    };
+  }
+}
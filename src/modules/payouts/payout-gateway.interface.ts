@@ -0,0 +1,36 @@
+export interface PayoutDestination {
+  type: 'bank' | 'upi';
+  account_holder_name?: string;
+  account_number?: string;
+  ifsc?: string;
+  vpa?: string;
+}
+
+export interface AccountVerification {
+  verified: boolean;
+  // Name the bank or UPI app holds for the account
+  name_at_bank?: string;
+  reference: string;
+  failure_reason?: string;
+}
+
+export interface GatewayTransfer {
+  transfer_id: string;
+  status: 'processing' | 'processed' | 'failed';
+  failure_reason?: string;
+}
+
+/**
+ * Payout provider sending provider earnings to bank accounts and UPI
+ */
+export interface PayoutGateway {
+  readonly name: string;
+  // Penny drop: send ₹1 and read back the account holder's name
+  verifyAccount(destination: PayoutDestination): Promise<AccountVerification>;
+  transfer(
+    destination: PayoutDestination,
+    amount: number,
+    idempotencyKey: string,
+  ): Promise<GatewayTransfer>;
+  getTransfer(transferId: string): Promise<GatewayTransfer>;
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AccountVerification,
+  GatewayTransfer,
+  PayoutDestination,
+  PayoutGateway,
+} from './payout-gateway.interface';
+import { FakePayoutGateway } from './gateways/fake-payout.gateway';
+
+@Injectable()
+export class PayoutGatewayService implements PayoutGateway {
+  private gateway: PayoutGateway;
+
+  constructor(private configService: ConfigService) {
+    const name = this.configService.get<string>('payouts.gateway', 'fake');
+
+    if (name !== 'fake') {
+      throw new Error(`Unknown payout gateway "${name}"`);
+    }
+
+    this.gateway = new FakePayoutGateway();
+  }
+
+  get name(): string {
+    return this.gateway.name;
+  }
+
+  async verifyAccount(
+    destination: PayoutDestination,
+  ): Promise<AccountVerification> {
+    return await this.gateway.verifyAccount(destination);
+  }
+
+  async transfer(
+    destination: PayoutDestination,
+    amount: number,
+    idempotencyKey: string,
+  ): Promise<GatewayTransfer> {
+    return await this.gateway.transfer(destination, amount, idempotencyKey);
+  }
+
+  async getTransfer(transferId: string): Promise<GatewayTransfer> {
+    return await this.gateway.getTransfer(transferId);
+  }
+}
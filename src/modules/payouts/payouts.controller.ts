@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { PayoutsService } from './payouts.service';
+import { HoldPayoutsDto } from './dto/hold-payouts.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('payouts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PayoutsController {
+  constructor(private payoutsService: PayoutsService) {}
+
+  /**
+   * GET /api/v1/payouts
+   * Get payouts (Admin only)
+   * Query params: provider_id, status, page, limit (optional)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get()
+  async getPayouts(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('provider_id') providerId?: string,
+    @Query('status') status?: databaseTypes.PayoutStatus,
+  ) {
+    const result = await this.payoutsService.getPayouts(page, limit, {
+      provider_id: providerId,
+      status,
+    });
+    return ResponseUtil.success(result);
+  }
+
+  /**
+   * GET /api/v1/payouts/batches
+   * Get settlement batches (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get('batches')
+  async getBatches(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    const result = await this.payoutsService.getBatches(page, limit);
+    return ResponseUtil.success(result);
+  }
+
+  /**
+   * POST /api/v1/payouts/run
+   * Run a settlement now instead of waiting for the schedule (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post('run')
+  async runSettlement() {
+    const batch = await this.payoutsService.runSettlement();
+    return ResponseUtil.success(
+      batch,
+      batch ? 'Payout batch created' : 'No provider is due a payout',
+    );
+  }
+
+  /**
+   * POST /api/v1/payouts/providers/:providerId/hold
+   * Hold a provider's payouts (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post('providers/:providerId/hold')
+  async holdPayouts(
+    @Param('providerId') providerId: string,
+    @Body() holdDto: HoldPayoutsDto,
+  ) {
+    const provider = await this.payoutsService.holdPayouts(
+      providerId,
+      holdDto.reason,
+    );
+    return ResponseUtil.success(provider, 'Payouts held');
+  }
+
+  /**
+   * DELETE /api/v1/payouts/providers/:providerId/hold
+   * Release a provider's payouts (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Delete('providers/:providerId/hold')
+  async releasePayouts(@Param('providerId') providerId: string) {
+    const provider = await this.payoutsService.releasePayouts(providerId);
+    return ResponseUtil.success(provider, 'Payouts released');
+  }
+}
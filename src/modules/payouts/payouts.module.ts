@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { PayoutsController } from './payouts.controller';
+import { ProviderPayoutsController } from './provider-payouts.controller';
+import { PayoutsService, PAYOUTS_QUEUE } from './payouts.service';
+import { PayoutAccountsService } from './payout-accounts.service';
+import { PayoutGatewayService } from './payout-gateway.service';
+import { PayoutsProcessor } from './payouts.processor';
+import { ProvidersModule } from '../providers/providers.module';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({ name: PAYOUTS_QUEUE }),
+    ProvidersModule,
+    LedgerModule,
+  ],
+  controllers: [PayoutsController, ProviderPayoutsController],
+  providers: [
+    PayoutsService,
+    PayoutAccountsService,
+    PayoutGatewayService,
+    PayoutsProcessor,
+  ],
+})
+export class PayoutsModule {}
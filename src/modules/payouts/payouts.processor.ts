@@ -0,0 +1,28 @@
+import { Process, Processor } from '@nestjs/bull';
+import {
+  PayoutsService,
+  PAYOUTS_QUEUE,
+  SETTLE_PAYOUTS_JOB,
+  RETRY_PAYOUTS_JOB,
+} from './payouts.service';
+
+@Processor(PAYOUTS_QUEUE)
+export class PayoutsProcessor {
+  constructor(private payoutsService: PayoutsService) {}
+
+  /**
+   * Scheduled settlement run
+   */
+  @Process(SETTLE_PAYOUTS_JOB)
+  async handleSettle() {
+    await this.payoutsService.runSettlement();
+  }
+
+  /**
+   * Retry failed transfers and poll ones still processing
+   */
+  @Process(RETRY_PAYOUTS_JOB)
+  async handleRetry() {
+    await this.payoutsService.processPending();
+  }
+}
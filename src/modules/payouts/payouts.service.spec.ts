@@ -0,0 +1,162 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { getQueueToken } from '@nestjs/bull';
+import { MockDatabase } from '../../../test/mock-database';
+import { DatabaseService } from '../../database/database.service';
+import { LedgerAccount, PayoutStatus } from '../../types/database.types';
+import { LedgerService } from '../ledger/ledger.service';
+import { ProvidersService } from '../providers/providers.service';
+import { PayoutGatewayService } from './payout-gateway.service';
+import { PAYOUTS_QUEUE, PayoutsService } from './payouts.service';
+
+describe('PayoutsService', () => {
+  let mock: MockDatabase;
+  let service: PayoutsService;
+  const gateway = { transfer: jest.fn(), getTransfer: jest.fn() };
+  const ledger = { post: jest.fn() };
+  const providers = { getProviderById: jest.fn() };
+
+  const payout = {
+    id: 'payout-1',
+    provider_id: 'provider-1',
+    payout_account_id: 'account-1',
+    amount: '2500.00',
+    status: PayoutStatus.PROCESSING,
+  };
+
+  // A payout mid-attempt, as found when the gateway's answer is recorded
+  const stubProcessing = (attempts: number) => {
+    mock.when(/WHERE id = \$1 AND status = \$2 FOR UPDATE/, [
+      { ...payout, attempts },
+    ]);
+  };
+
+  const recorded = () => mock.committed(/gateway_transfer_id = COALESCE/);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mock = new MockDatabase();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PayoutsService,
+        { provide: DatabaseService, useValue: mock.db },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+        { provide: ProvidersService, useValue: providers },
+        { provide: LedgerService, useValue: ledger },
+        { provide: PayoutGatewayService, useValue: gateway },
+        { provide: getQueueToken(PAYOUTS_QUEUE), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(PayoutsService);
+  });
+
+  describe('processing pending payouts', () => {
+    it('resends a payout left without a transfer under the same key', async () => {
+      mock.when(/gateway_transfer_id IS NULL/, [{ ...payout, attempts: 2 }]);
+      stubProcessing(2);
+      gateway.transfer.mockResolvedValue({
+        transfer_id: 'trf_1',
+        status: 'processed',
+      });
+
+      await service.processPending();
+
+      expect(gateway.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payout-1' }),
+        2500,
+        'payout-1:2',
+      );
+      expect(recorded()[0].params).toEqual([
+        PayoutStatus.PROCESSED,
+        'trf_1',
+        null,
+        true,
+        'payout-1',
+      ]);
+    });
+
+    it('leaves payouts of held providers waiting', async () => {
+      await service.processPending();
+
+      const [pending] = mock.queries.filter(({ params }) =>
+        params.includes(PayoutStatus.PENDING),
+      );
+      expect(pending.sql).toMatch(/p\.payout_held_at IS NULL/);
+      expect(gateway.transfer).not.toHaveBeenCalled();
+    });
+
+    it('queues a failed attempt for a retry while attempts are left', async () => {
+      mock.when(/p\.payout_held_at IS NULL/, [{ id: 'payout-1' }]);
+      mock.when(/WITH claimed AS/, [{ ...payout, attempts: 1 }]);
+      stubProcessing(1);
+      gateway.transfer.mockRejectedValue(new Error('timeout'));
+
+      await service.processPending();
+
+      expect(gateway.transfer).toHaveBeenCalledWith(
+        expect.anything(),
+        2500,
+        'payout-1:1',
+      );
+      expect(recorded()[0].params[0]).toBe(PayoutStatus.PENDING);
+      expect(ledger.post).not.toHaveBeenCalled();
+    });
+
+    it('returns the money to the wallet once attempts run out', async () => {
+      mock.when(/p\.payout_held_at IS NULL/, [{ id: 'payout-1' }]);
+      mock.when(/WITH claimed AS/, [{ ...payout, attempts: 3 }]);
+      stubProcessing(3);
+      gateway.transfer.mockResolvedValue({
+        transfer_id: 'trf_2',
+        status: 'failed',
+        failure_reason: 'Account closed',
+      });
+
+      await service.processPending();
+
+      expect(recorded()[0].params[0]).toBe(PayoutStatus.FAILED);
+      expect(ledger.post).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lines: [
+            { account: LedgerAccount.GATEWAY_CLEARING, debit: 2500 },
+            {
+              account: LedgerAccount.PROVIDER_WALLET,
+              owner_id: 'provider-1',
+              credit: 2500,
+            },
+          ],
+        }),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('holds', () => {
+    it('puts a provider on hold with the reason given', async () => {
+      providers.getProviderById.mockResolvedValue({ id: 'provider-1' });
+      mock.when(/payout_hold_reason = \$1/, [{ id: 'provider-1' }]);
+
+      await service.holdPayouts('provider-1', 'Chargeback under review');
+
+      expect(mock.queries[0].params).toEqual([
+        'Chargeback under review',
+        'provider-1',
+      ]);
+    });
+
+    it('refuses to release a provider that is not on hold', async () => {
+      providers.getProviderById.mockResolvedValue({ id: 'provider-1' });
+
+      await expect(service.releasePayouts('provider-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mock.queries).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,552 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { PoolClient } from 'pg';
+import { subDays, subMinutes } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import {
+  JournalKind,
+  LedgerAccount,
+  Payout,
+  PayoutBatch,
+  PayoutStatus,
+  Provider,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { ProvidersService } from '../providers/providers.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { PayoutGatewayService } from './payout-gateway.service';
+import { GatewayTransfer, PayoutDestination } from './payout-gateway.interface';
+
+export const PAYOUTS_QUEUE = 'payouts';
+export const SETTLE_PAYOUTS_JOB = 'settle-payouts';
+export const RETRY_PAYOUTS_JOB = 'retry-payouts';
+
+/**
+ * Idempotency key of a payout's current attempt
+ * A retry is a new transfer as far as the gateway is concerned, while the
+ * same attempt sent twice gets back the transfer made the first time.
+ */
+function transferKey(payout: Payout): string {
+  return `${payout.id}:${payout.attempts}`;
+}
+
+interface SettlementCandidate {
+  provider_id: string;
+  payout_account_id: string;
+  balance: string;
+  // Credited within the hold period
+  held_back: string;
+  // Tips credited since the last payout, up to the cutoff
+  tips: string;
+}
+
+@Injectable()
+export class PayoutsService implements OnModuleInit {
+  private readonly logger = new Logger(PayoutsService.name);
+
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private providersService: ProvidersService,
+    private ledgerService: LedgerService,
+    private payoutGatewayService: PayoutGatewayService,
+    @InjectQueue(PAYOUTS_QUEUE) private payoutsQueue: Queue,
+  ) {}
+
+  /**
+   * Settle weekly; retry failed transfers and poll pending ones hourly
+   */
+  async onModuleInit() {
+    await this.payoutsQueue.add(
+      SETTLE_PAYOUTS_JOB,
+      {},
+      {
+        jobId: SETTLE_PAYOUTS_JOB,
+        repeat: {
+          cron: this.configService.get<string>('payouts.cron', '0 6 * * 1'),
+        },
+        removeOnComplete: true,
+      },
+    );
+    await this.payoutsQueue.add(
+      RETRY_PAYOUTS_JOB,
+      {},
+      {
+        jobId: RETRY_PAYOUTS_JOB,
+        repeat: { cron: '30 * * * *' },
+        removeOnComplete: true,
+      },
+    );
+  }
+
+  /**
+   * Sweep what providers can be paid into a batch and send it
+   * Returns null when nobody is due a payout.
+   */
+  async runSettlement(): Promise<PayoutBatch | null> {
+    const batch = await this.createBatch();
+    await this.processPending();
+
+    return batch;
+  }
+
+  /**
+   * Check transfers the gateway is still working on, then submit payouts
+   * waiting for a (first or retried) attempt
+   * Payouts of held providers wait until the hold is released. A payout
+   * left processing with no transfer id, by a run that stopped before
+   * recording the gateway's answer, is sent again under the same key.
+   */
+  async processPending(): Promise<void> {
+    const processing = await this.db.queryMany<Payout>(
+      `SELECT * FROM payouts
+       WHERE status = $1 AND gateway_transfer_id IS NOT NULL`,
+      [PayoutStatus.PROCESSING],
+    );
+
+    for (const payout of processing) {
+      try {
+        await this.applyTransfer(
+          payout.id,
+          await this.payoutGatewayService.getTransfer(
+            payout.gateway_transfer_id!,
+          ),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Could not check payout ${payout.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    const stale = await this.db.queryMany<Payout & PayoutDestination>(
+      `SELECT po.*, pa.type, pa.account_holder_name, pa.account_number,
+         pa.ifsc, pa.vpa
+       FROM payouts po
+       JOIN payout_accounts pa ON po.payout_account_id = pa.id
+       WHERE po.status = $1 AND po.gateway_transfer_id IS NULL
+         AND po.updated_at < $2`,
+      [
+        PayoutStatus.PROCESSING,
+        subMinutes(
+          new Date(),
+          this.configService.get<number>('payouts.staleMinutes', 30),
+        ),
+      ],
+    );
+
+    for (const payout of stale) {
+      try {
+        await this.applyTransfer(
+          payout.id,
+          await this.payoutGatewayService.transfer(
+            payout,
+            MoneyUtil.toNumber(payout.amount),
+            transferKey(payout),
+          ),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Could not resend payout ${payout.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    const pending = await this.db.queryMany<Payout>(
+      `SELECT po.* FROM payouts po
+       JOIN providers p ON po.provider_id = p.id
+       WHERE po.status = $1 AND p.payout_held_at IS NULL
+       ORDER BY po.created_at`,
+      [PayoutStatus.PENDING],
+    );
+
+    for (const payout of pending) {
+      await this.submit(payout.id);
+    }
+  }
+
+  /**
+   * Payout history of the provider (Provider)
+   */
+  async getProviderPayouts(
+    userId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    payouts: Payout[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const provider = await this.providersService.getProviderByUserId(userId);
+    return await this.getPayouts(page, limit, { provider_id: provider.id });
+  }
+
+  /**
+   * Payouts, newest first (Admin only)
+   */
+  async getPayouts(
+    page = 1,
+    limit = 20,
+    filters: { provider_id?: string; status?: PayoutStatus } = {},
+  ): Promise<{
+    payouts: Payout[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.provider_id) {
+      params.push(filters.provider_id);
+      conditions.push(`provider_id = $${params.length}`);
+    }
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    const whereClause =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM payouts ${whereClause}`,
+      params,
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const payouts = await this.db.queryMany<Payout>(
+      `SELECT * FROM payouts
+       ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset],
+    );
+
+    return { payouts, total, page, limit };
+  }
+
+  /**
+   * Settlement batches, newest first (Admin only)
+   */
+  async getBatches(
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    batches: PayoutBatch[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM payout_batches`,
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const batches = await this.db.queryMany<PayoutBatch>(
+      `SELECT * FROM payout_batches
+       ORDER BY created_at DESC
+       LIMIT $1 OFFSET $2`,
+      [limit, offset],
+    );
+
+    return { batches, total, page, limit };
+  }
+
+  /**
+   * Stop paying a provider until released (Admin only)
+   */
+  async holdPayouts(providerId: string, reason: string): Promise<Provider> {
+    await this.providersService.getProviderById(providerId);
+
+    const provider = await this.db.queryOne<Provider>(
+      `UPDATE providers
+       SET payout_held_at = COALESCE(payout_held_at, CURRENT_TIMESTAMP),
+           payout_hold_reason = $1,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING *`,
+      [reason, providerId],
+    );
+
+    return provider!;
+  }
+
+  /**
+   * Resume a provider's payouts (Admin only)
+   */
+  async releasePayouts(providerId: string): Promise<Provider> {
+    const current = await this.providersService.getProviderById(providerId);
+
+    if (!current.payout_held_at) {
+      throw new ConflictException('Payouts are not on hold');
+    }
+
+    const provider = await this.db.queryOne<Provider>(
+      `UPDATE providers
+       SET payout_held_at = NULL, payout_hold_reason = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [providerId],
+    );
+
+    return provider!;
+  }
+
+  /**
+   * Move each eligible wallet balance into a payout
+   * Earnings credited within the hold period stay in the wallet, and a
+   * provider with a payout still in flight is skipped. The wallet is
+   * debited as the payout is created, under a lock on the wallet. The
+   * tips it includes are recorded separately on each payout.
+   */
+  private async createBatch(): Promise<PayoutBatch | null> {
+    const cutoff = subDays(
+      new Date(),
+      this.configService.get<number>('payouts.holdDays', 7),
+    );
+    const minAmount = this.configService.get<number>('payouts.minAmount', 100);
+
+    return await this.db.transaction(async (client: PoolClient) => {
+      const candidates = await client.query<SettlementCandidate>(
+        `SELECT pw.provider_id, pw.balance, pa.id as payout_account_id,
+          COALESCE((
+            SELECT SUM(l.credit) FROM ledger_lines l
+            WHERE l.account = $1 AND l.owner_id = pw.provider_id
+              AND l.created_at > $2
+          ), 0) as held_back,
+          COALESCE((
+            SELECT SUM(l.credit) FROM ledger_lines l
+            JOIN journal_entries je ON l.journal_entry_id = je.id
+            WHERE l.account = $1 AND l.owner_id = pw.provider_id
+              AND je.kind = $4 AND l.created_at <= $2
+              AND l.created_at > COALESCE((
+                SELECT MAX(pb.cutoff_at) FROM payouts po
+                JOIN payout_batches pb ON po.batch_id = pb.id
+                WHERE po.provider_id = pw.provider_id AND po.status != $5
+              ), '-infinity')
+          ), 0) as tips
+         FROM provider_wallets pw
+         JOIN providers p ON pw.provider_id = p.id
+         JOIN payout_accounts pa ON pa.provider_id = pw.provider_id
+           AND pa.is_active = true AND pa.status = 'verified'
+         WHERE pw.balance > 0 AND p.payout_held_at IS NULL
+           AND NOT EXISTS (
+             SELECT 1 FROM payouts po
+             WHERE po.provider_id = pw.provider_id AND po.status = ANY($3)
+           )
+         FOR UPDATE OF pw`,
+        [
+          LedgerAccount.PROVIDER_WALLET,
+          cutoff,
+          [PayoutStatus.PENDING, PayoutStatus.PROCESSING],
+          JournalKind.TIP,
+          PayoutStatus.FAILED,
+        ],
+      );
+
+      const due = candidates.rows
+        .map((candidate) => ({
+          ...candidate,
+          amount: MoneyUtil.round(
+            MoneyUtil.toNumber(candidate.balance) -
+              MoneyUtil.toNumber(candidate.held_back),
+          ),
+        }))
+        .filter((candidate) => candidate.amount >= minAmount)
+        // Dues taken from the wallet can leave less than the tips
+        .map((candidate) => ({
+          ...candidate,
+          tips_amount: Math.min(
+            MoneyUtil.toNumber(candidate.tips),
+            candidate.amount,
+          ),
+        }));
+
+      if (due.length === 0) {
+        return null;
+      }
+
+      const batchResult = await client.query<PayoutBatch>(
+        `INSERT INTO payout_batches (cutoff_at, payout_count, total_amount)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [
+          cutoff,
+          due.length,
+          MoneyUtil.round(due.reduce((sum, item) => sum + item.amount, 0)),
+        ],
+      );
+      const batch = batchResult.rows[0];
+
+      for (const item of due) {
+        const payoutResult = await client.query<Payout>(
+          `INSERT INTO payouts (
+            batch_id, provider_id, payout_account_id, amount, tips_amount,
+            status
+           )
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING *`,
+          [
+            batch.id,
+            item.provider_id,
+            item.payout_account_id,
+            item.amount,
+            item.tips_amount,
+            PayoutStatus.PENDING,
+          ],
+        );
+
+        await this.ledgerService.post(
+          {
+            kind: JournalKind.PAYOUT,
+            description: 'Payout sent',
+            payout_id: payoutResult.rows[0].id,
+            lines: [
+              {
+                account: LedgerAccount.PROVIDER_WALLET,
+                owner_id: item.provider_id,
+                debit: item.amount,
+              },
+              { account: LedgerAccount.GATEWAY_CLEARING, credit: item.amount },
+            ],
+          },
+          client,
+        );
+      }
+
+      return batch;
+    });
+  }
+
+  /**
+   * Send one payout attempt to the gateway
+   * The payout is claimed first, so overlapping runs cannot send it twice.
+   */
+  private async submit(payoutId: string): Promise<void> {
+    const claimed = await this.db.queryOne<Payout & PayoutDestination>(
+      `WITH claimed AS (
+         UPDATE payouts
+         SET status = $1, attempts = attempts + 1,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = $3
+         RETURNING *
+       )
+       SELECT claimed.*, pa.type, pa.account_holder_name, pa.account_number,
+         pa.ifsc, pa.vpa
+       FROM claimed
+       JOIN payout_accounts pa ON claimed.payout_account_id = pa.id`,
+      [PayoutStatus.PROCESSING, payoutId, PayoutStatus.PENDING],
+    );
+
+    if (!claimed) {
+      return;
+    }
+
+    let result: GatewayTransfer;
+
+    try {
+      result = await this.payoutGatewayService.transfer(
+        claimed,
+        MoneyUtil.toNumber(claimed.amount),
+        transferKey(claimed),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Payout ${claimed.id} was not sent: ${(error as Error).message}`,
+      );
+      result = {
+        transfer_id: '',
+        status: 'failed',
+        failure_reason: 'Gateway did not accept the transfer',
+      };
+    }
+
+    await this.applyTransfer(claimed.id, result);
+  }
+
+  /**
+   * Record the gateway's answer for a payout being processed
+   * A failure is retried on a later run until attempts run out; then the
+   * payout fails for good and the money goes back to the wallet.
+   */
+  private async applyTransfer(
+    payoutId: string,
+    result: GatewayTransfer,
+  ): Promise<void> {
+    await this.db.transaction(async (client: PoolClient) => {
+      const found = await client.query<Payout>(
+        `SELECT * FROM payouts WHERE id = $1 AND status = $2 FOR UPDATE`,
+        [payoutId, PayoutStatus.PROCESSING],
+      );
+      const payout = found.rows[0];
+
+      if (!payout) {
+        return;
+      }
+
+      const exhausted =
+        payout.attempts >=
+        this.configService.get<number>('payouts.maxAttempts', 3);
+      const status =
+        result.status === 'processed'
+          ? PayoutStatus.PROCESSED
+          : result.status === 'processing'
+            ? PayoutStatus.PROCESSING
+            : exhausted
+              ? PayoutStatus.FAILED
+              : PayoutStatus.PENDING;
+
+      await client.query(
+        `UPDATE payouts
+         SET status = $1,
+             gateway_transfer_id = COALESCE(NULLIF($2, ''), gateway_transfer_id),
+             failure_reason = $3,
+             processed_at = CASE WHEN $4 THEN CURRENT_TIMESTAMP ELSE processed_at END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $5`,
+        [
+          status,
+          result.transfer_id,
+          result.status === 'failed' ? result.failure_reason : null,
+          status === PayoutStatus.PROCESSED,
+          payoutId,
+        ],
+      );
+
+      if (status === PayoutStatus.FAILED) {
+        const amount = MoneyUtil.toNumber(payout.amount);
+
+        await this.ledgerService.post(
+          {
+            kind: JournalKind.PAYOUT,
+            description: 'Payout failed, returned to wallet',
+            payout_id: payout.id,
+            lines: [
+              { account: LedgerAccount.GATEWAY_CLEARING, debit: amount },
+              {
+                account: LedgerAccount.PROVIDER_WALLET,
+                owner_id: payout.provider_id,
+                credit: amount,
+              },
+            ],
+          },
+          client,
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { PayoutsService } from './payouts.service';
+import { PayoutAccountsService } from './payout-accounts.service';
+import { CreatePayoutAccountDto } from './dto/create-payout-account.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('providers/me')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ProviderPayoutsController {
+  constructor(
+    private payoutsService: PayoutsService,
+    private payoutAccountsService: PayoutAccountsService,
+  ) {}
+
+  /**
+   * GET /api/v1/providers/me/payout-account
+   * Get the account payouts are sent to (Provider only)
+   */
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Get('payout-account')
+  async getPayoutAccount(@CurrentUser() user: databaseTypes.User) {
+    const account = await this.payoutAccountsService.getAccount(user.id);
+    return ResponseUtil.success(account);
+  }
+
+  /**
+   * PUT /api/v1/providers/me/payout-account
+   * Set a bank account or UPI VPA for payouts (Provider only)
+   * The account is verified with a penny drop before it is used.
+   */
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Put('payout-account')
+  async setPayoutAccount(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreatePayoutAccountDto,
+  ) {
+    const account = await this.payoutAccountsService.addAccount(
+      user.id,
+      createDto,
+    );
+    return ResponseUtil.success(
+      account,
+      account.status === 'verified'
+        ? 'Payout account verified'
+        : 'Payout account could not be verified',
+    );
+  }
+
+  /**
+   * GET /api/v1/providers/me/payouts
+   * Get payout history (Provider only)
+   */
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Get('payouts')
+  async getPayouts(
+    @CurrentUser() user: databaseTypes.User,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    const result = await this.payoutsService.getProviderPayouts(
+      user.id,
+      page,
+      limit,
+    );
+    return ResponseUtil.success(result);
+  }
+}
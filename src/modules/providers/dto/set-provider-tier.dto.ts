@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { ProviderTier } from '../../../types/database.types';
+
+export class SetProviderTierDto {
+  @IsEnum(ProviderTier)
+  tier: ProviderTier;
+}
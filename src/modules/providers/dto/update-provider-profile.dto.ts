@@ -1,4 +1,11 @@
-import { IsString, IsNumber, IsOptional, Min, Max } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
 
 export class UpdateProviderProfileDto {
   @IsOptional()
@@ -21,4 +28,11 @@ export class UpdateProviderProfileDto {
   @Min(100)
   @Max(50000)
   work_radius_meters?: number;
+
+  // Printed on invoices when the provider is GST registered
+  @IsOptional()
+  @Matches(/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, {
+    message: 'gstin must be a valid 15 character GSTIN',
+  })
+  gstin?: string;
 }
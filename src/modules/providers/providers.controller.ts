@@ -10,12 +10,15 @@ import {
   UseGuards,
   ParseIntPipe,
   ParseBoolPipe,
+  DefaultValuePipe,
 } from '@nestjs/common';
 import { ProvidersService } from './providers.service';
+import { ReviewsService } from '../reviews/reviews.service';
 import { UpdateProviderProfileDto } from './dto/update-provider-profile.dto';
 import { UpdateLocationDto } from './dto/update-location.dto';
 import { AddServiceDto } from './dto/add-service.dto';
 import { FindNearbyProvidersDto } from './dto/find-nearby-providers.dto';
+import { SetProviderTierDto } from './dto/set-provider-tier.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
@@ -25,7 +28,10 @@ import { ResponseUtil } from '../../common/interfaces/response.interface';
 
 @Controller('providers')
 export class ProvidersController {
-  constructor(private providersService: ProvidersService) {}
+  constructor(
+    private providersService: ProvidersService,
+    private reviewsService: ReviewsService,
+  ) {}
 
   // ==================== PROVIDER ENDPOINTS ====================
 
@@ -164,13 +170,24 @@ export class ProvidersController {
 
   /**
    * GET /api/v1/providers/:id
-   * Get provider profile by ID (public)
+   * Get provider profile by ID, with customer reviews and the rating
+   * histogram (public)
+   * Query params: page, limit (optional, for reviews)
    */
   @Get(':id')
-  async getProviderById(@Param('id') id: string) {
+  async getProviderById(
+    @Param('id') id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+  ) {
     const provider = await this.providersService.getProviderById(id);
     const services = await this.providersService.getProviderServices(id);
-    return ResponseUtil.success({ ...provider, services });
+    const reviews = await this.reviewsService.getProviderReviews(
+      id,
+      page,
+      limit,
+    );
+    return ResponseUtil.success({ ...provider, services, reviews });
   }
 
   // ==================== ADMIN ENDPOINTS ====================
@@ -214,4 +231,19 @@ export class ProvidersController {
       isVerified ? 'Provider verified' : 'Provider rejected',
     );
   }
+
+  /**
+   * PUT /api/v1/providers/:id/tier
+   * Set provider tier (Admin only)
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Put(':id/tier')
+  async setTier(
+    @Param('id') id: string,
+    @Body() setTierDto: SetProviderTierDto,
+  ) {
+    const provider = await this.providersService.setTier(id, setTierDto.tier);
+    return ResponseUtil.success(provider, 'Provider tier updated');
+  }
 }
\ No newline at end of file
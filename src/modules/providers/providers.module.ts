@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ProvidersController } from './providers.controller';
 import { ProvidersService } from './providers.service';
+import { ReviewsModule } from '../reviews/reviews.module';
 
 @Module({
+  imports: [ReviewsModule],
   controllers: [ProvidersController],
   providers: [ProvidersService],
   exports: [ProvidersService],
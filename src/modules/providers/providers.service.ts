@@ -1,5 +1,7 @@
 import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { DatabaseService } from '../../database/database.service';
+import { ProviderTier } from '../../types/database.types';
 import { UpdateProviderProfileDto } from './dto/update-provider-profile.dto';
 import { UpdateLocationDto } from './dto/update-location.dto';
 import { AddServiceDto } from './dto/add-service.dto';
@@ -18,6 +20,9 @@ export interface Provider {
   completed_jobs: number;
   average_rating: number;
   total_earnings: number;
+  tier: ProviderTier;
+  payout_held_at?: Date;
+  payout_hold_reason?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -53,7 +58,10 @@ export interface NearbyProvider {
 
 @Injectable()
 export class ProvidersService {
-  constructor(private db: DatabaseService) {}
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+  ) {}
 
   /**
    * Get provider by user ID
@@ -148,6 +156,24 @@ export class ProvidersService {
       throw new ForbiddenException('Provider must be verified before going online');
     }
 
+    // Cash jobs leave commission owed; too much of it blocks new work
+    if (isOnline) {
+      const wallet = await this.db.queryOne<{ balance: string }>(
+        `SELECT balance FROM provider_wallets WHERE provider_id = $1`,
+        [provider.id],
+      );
+      const dueLimit = this.configService.get<number>(
+        'payments.cashDueLimit',
+        1000,
+      );
+
+      if (wallet && parseFloat(wallet.balance) < -dueLimit) {
+        throw new ForbiddenException(
+          `Settle your outstanding dues of ${-parseFloat(wallet.balance)} before going online`,
+        );
+      }
+    }
+
     const result = await this.db.queryOne(
       `UPDATE providers 
        SET is_online = $1, updated_at = CURRENT_TIMESTAMP 
@@ -338,11 +364,13 @@ export class ProvidersService {
         COUNT(*) FILTER (WHERE status = 'completed') as completed_bookings,
         COUNT(*) FILTER (WHERE status = 'cancelled') as cancelled_bookings,
         COUNT(*) FILTER (WHERE status IN ('pending', 'accepted', 'ongoing')) as active_bookings,
-        COALESCE(AVG(customer_rating), 0) as average_rating,
-        COALESCE(SUM(provider_earnings), 0) as total_earnings
+        (SELECT COALESCE(AVG(rating), 0) FROM reviews
+         WHERE reviewee_id = $2 AND status = 'visible') as average_rating,
+        COALESCE(SUM(provider_earnings) FILTER (WHERE status = 'completed'), 0) as total_earnings,
+        COALESCE(SUM(tip_amount), 0) as total_tips
        FROM bookings
        WHERE provider_id = $1`,
-      [provider.id]
+      [provider.id, provider.user_id],
     );
 
     // Get wallet balance
@@ -388,9 +416,10 @@ export class ProvidersService {
       values.push(isOnline);
     }
 
-    const whereClause = whereConditions.length > 0 
-      ? `WHERE ${whereConditions.join(' AND ')}`
-      : '';
+    const whereClause =
+      whereConditions.length > 0
+        ? `WHERE ${whereConditions.join(' AND ')}`
+        : '';
 
     // Get total count
     const countResult = await this.db.queryOne(
@@ -447,4 +476,23 @@ export class ProvidersService {
 
     return result;
   }
+
+  /**
+   * Set provider tier (Admin only)
+   */
+  async setTier(providerId: string, tier: ProviderTier): Promise<Provider> {
+    const result = await this.db.queryOne<Provider>(
+      `UPDATE providers
+       SET tier = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING *`,
+      [tier, providerId],
+    );
+
+    if (!result) {
+      throw new NotFoundException('Provider not found');
+    }
+
+    return result;
+  }
 }
\ No newline at end of file
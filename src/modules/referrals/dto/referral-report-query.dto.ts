@@ -0,0 +1,12 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class ReferralReportQueryDto {
+  // Referrals signed up in [from, to)
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
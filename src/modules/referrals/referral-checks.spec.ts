@@ -0,0 +1,69 @@
+import {
+  normalizeEmail,
+  referralRejection,
+  similarPhones,
+} from './referral-checks';
+
+const referrer = {
+  phone: '+919876543210',
+  email: 'Asha.Rao+deals@gmail.com',
+  device_id: 'device-a',
+};
+const history = { referees: [], device_accounts: 0 };
+
+describe('normalizeEmail', () => {
+  it('ignores case, tags and Gmail dots', () => {
+    expect(normalizeEmail('Asha.Rao+deals@gmail.com')).toBe(
+      'asharao@gmail.com',
+    );
+    expect(normalizeEmail('a.b+x@example.com')).toBe('a.b@example.com');
+  });
+});
+
+describe('similarPhones', () => {
+  it('matches numbers from the same series', () => {
+    expect(similarPhones('+919876543210', '9876543299')).toBe(true);
+    expect(similarPhones('+919876543210', '+919876549210')).toBe(false);
+  });
+});
+
+describe('referralRejection', () => {
+  it('passes an unrelated referee', () => {
+    expect(
+      referralRejection({ phone: '+919123456789' }, referrer, history, 5),
+    ).toBeNull();
+  });
+
+  it('rejects second numbers, shared devices and aliases', () => {
+    expect(
+      referralRejection({ phone: '+919876543211' }, referrer, history, 5),
+    ).toBe('similar_phone');
+    expect(
+      referralRejection(
+        { phone: '+919123456789', device_id: 'device-a' },
+        referrer,
+        { ...history, device_accounts: 1 },
+        5,
+      ),
+    ).toBe('same_device');
+    expect(
+      referralRejection(
+        { phone: '+919123456789', email: 'asharao@gmail.com' },
+        referrer,
+        history,
+        5,
+      ),
+    ).toBe('same_email');
+  });
+
+  it('caps referrals per referrer', () => {
+    expect(
+      referralRejection(
+        { phone: '+919123456789' },
+        referrer,
+        { ...history, referees: [{ phone: '+918000000000' }] },
+        1,
+      ),
+    ).toBe('referrer_cap');
+  });
+});
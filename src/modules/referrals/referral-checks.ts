@@ -0,0 +1,81 @@
+export interface ReferralParty {
+  phone: string;
+  email?: string | null;
+  device_id?: string | null;
+}
+
+export interface ReferrerHistory {
+  // Earlier referees of the same referrer
+  referees: ReferralParty[];
+  // Other accounts registered from the referee's device
+  device_accounts: number;
+}
+
+export type ReferralRejection =
+  | 'referrer_cap'
+  | 'same_device'
+  | 'similar_phone'
+  | 'same_email';
+
+/**
+ * Lower-case an email and drop what mail providers ignore: "+tags" and,
+ * for Gmail, dots
+ */
+export function normalizeEmail(email: string): string {
+  const [local, domain = ''] = email.trim().toLowerCase().split('@');
+  const base = local.split('+')[0];
+
+  return domain === 'gmail.com' || domain === 'googlemail.com'
+    ? `${base.replace(/\./g, '')}@gmail.com`
+    : `${base}@${domain}`;
+}
+
+/**
+ * Numbers from the same series, differing only in the last two digits
+ */
+export function similarPhones(a: string, b: string): boolean {
+  const digitsA = a.replace(/\D/g, '').slice(-10);
+  const digitsB = b.replace(/\D/g, '').slice(-10);
+
+  return (
+    digitsA.length === 10 &&
+    digitsA.length === digitsB.length &&
+    digitsA.slice(0, -2) === digitsB.slice(0, -2)
+  );
+}
+
+/**
+ * Why a referral looks like abuse, or null when it passes
+ */
+export function referralRejection(
+  referee: ReferralParty,
+  referrer: ReferralParty,
+  history: ReferrerHistory,
+  maxPerReferrer: number,
+): ReferralRejection | null {
+  if (history.referees.length >= maxPerReferrer) {
+    return 'referrer_cap';
+  }
+
+  if (referee.device_id && history.device_accounts > 0) {
+    return 'same_device';
+  }
+
+  if (
+    [referrer, ...history.referees].some((party) =>
+      similarPhones(referee.phone, party.phone),
+    )
+  ) {
+    return 'similar_phone';
+  }
+
+  if (
+    referee.email &&
+    referrer.email &&
+    normalizeEmail(referee.email) === normalizeEmail(referrer.email)
+  ) {
+    return 'same_email';
+  }
+
+  return null;
+}
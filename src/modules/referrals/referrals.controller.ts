@@ -0,0 +1,41 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ReferralsService } from './referrals.service';
+import { ReferralReportQueryDto } from './dto/referral-report-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('referrals')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ReferralsController {
+  constructor(private referralsService: ReferralsService) {}
+
+  /**
+   * GET /api/v1/referrals/me
+   * Get my referral code and invites
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.PROVIDER)
+  @Get('me')
+  async getMyReferrals(@CurrentUser() user: databaseTypes.User) {
+    const referrals = await this.referralsService.getMyReferrals(user.id);
+    return ResponseUtil.success(referrals);
+  }
+
+  /**
+   * GET /api/v1/referrals/report
+   * Get the referral funnel (Admin only)
+   * Query params: from, to (optional)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get('report')
+  async getReport(@Query() query: ReferralReportQueryDto) {
+    const report = await this.referralsService.getReport(
+      query.from ? new Date(query.from) : undefined,
+      query.to ? new Date(query.to) : undefined,
+    );
+    return ResponseUtil.success(report);
+  }
+}
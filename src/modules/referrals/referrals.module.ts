@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ReferralsController } from './referrals.controller';
+import { ReferralsService } from './referrals.service';
+import { PaymentsModule } from '../payments/payments.module';
+import { DiscountsModule } from '../discounts/discounts.module';
+
+@Module({
+  imports: [PaymentsModule, DiscountsModule],
+  controllers: [ReferralsController],
+  providers: [ReferralsService],
+  exports: [ReferralsService],
+})
+export class ReferralsModule {}
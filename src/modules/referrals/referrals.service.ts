@@ -0,0 +1,440 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { randomInt } from 'crypto';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  Referral,
+  ReferralReward,
+  ReferralStatus,
+  User,
+} from '../../types/database.types';
+import { MoneyUtil } from '../../utils/money.util';
+import { WalletPaymentsService } from '../payments/wallet-payments.service';
+import { DiscountsService } from '../discounts/discounts.service';
+import { ReferralParty, referralRejection } from './referral-checks';
+
+export interface MyReferrals {
+  code: string;
+  invited: number;
+  pending: number;
+  rewarded: number;
+  rewards: (ReferralReward & { discount_code?: string })[];
+}
+
+export interface ReferralFunnel {
+  from?: Date;
+  to?: Date;
+  signed_up: number;
+  rejected: number;
+  // Referees with at least one booking
+  booked: number;
+  rewarded: number;
+  rejections: { reason: string; count: number }[];
+  rewards: { type: string; count: number; amount: number }[];
+  top_referrers: {
+    user_id: string;
+    name: string;
+    signed_up: number;
+    rewarded: number;
+  }[];
+}
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+@Injectable()
+export class ReferralsService {
+  private readonly logger = new Logger(ReferralsService.name);
+
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    private walletPaymentsService: WalletPaymentsService,
+    private discountsService: DiscountsService,
+  ) {}
+
+  /**
+   * My referral code and how my invites are doing
+   * The code is created on first request.
+   */
+  async getMyReferrals(userId: string): Promise<MyReferrals> {
+    const code = await this.ensureCode(userId);
+
+    const counts = await this.db.queryOne<{
+      invited: string;
+      pending: string;
+      rewarded: string;
+    }>(
+      `SELECT
+        COUNT(*) as invited,
+        COUNT(*) FILTER (WHERE status = $2) as pending,
+        COUNT(*) FILTER (WHERE status = $3) as rewarded
+       FROM referrals
+       WHERE referrer_id = $1`,
+      [userId, ReferralStatus.PENDING, ReferralStatus.REWARDED],
+    );
+
+    const rewards = await this.db.queryMany<
+      ReferralReward & { discount_code?: string }
+    >(
+      `SELECT rr.*, dc.code as discount_code
+       FROM referral_rewards rr
+       LEFT JOIN discount_codes dc ON rr.discount_code_id = dc.id
+       WHERE rr.user_id = $1
+       ORDER BY rr.created_at DESC`,
+      [userId],
+    );
+
+    return {
+      code,
+      invited: parseInt(counts?.invited ?? '0'),
+      pending: parseInt(counts?.pending ?? '0'),
+      rewarded: parseInt(counts?.rewarded ?? '0'),
+      rewards: rewards.map((reward) => ({
+        ...reward,
+        amount:
+          reward.amount == null ? undefined : MoneyUtil.toNumber(reward.amount),
+      })),
+    };
+  }
+
+  /**
+   * Record who referred a new user inside the registration transaction
+   * An unknown code fails registration; a referral that looks like abuse
+   * is kept as rejected and never rewarded.
+   */
+  async recordReferral(
+    referee: User,
+    code: string,
+    deviceId: string | undefined,
+    client: PoolClient,
+  ): Promise<Referral> {
+    // Locking the referrer serialises the per-referrer cap
+    const referrerResult = await client.query<User>(
+      `SELECT * FROM users
+       WHERE UPPER(referral_code) = UPPER($1) AND status = 'active'
+       FOR UPDATE`,
+      [code.trim()],
+    );
+    const referrer = referrerResult.rows[0];
+
+    if (!referrer || referrer.id === referee.id) {
+      throw new BadRequestException('Invalid referral code');
+    }
+
+    const referees = await client.query<ReferralParty>(
+      `SELECT u.phone, u.email, u.registration_device_id as device_id
+       FROM referrals r
+       JOIN users u ON r.referee_id = u.id
+       WHERE r.referrer_id = $1`,
+      [referrer.id],
+    );
+    const deviceAccounts = deviceId
+      ? await client.query<{ count: string }>(
+          `SELECT COUNT(*) as count FROM users
+           WHERE registration_device_id = $1 AND id != $2`,
+          [deviceId, referee.id],
+        )
+      : undefined;
+
+    const rejection = referralRejection(
+      { phone: referee.phone, email: referee.email, device_id: deviceId },
+      {
+        phone: referrer.phone,
+        email: referrer.email,
+        device_id: referrer.registration_device_id,
+      },
+      {
+        referees: referees.rows,
+        device_accounts: parseInt(deviceAccounts?.rows[0].count ?? '0'),
+      },
+      this.configService.get<number>('referrals.maxPerReferrer', 25),
+    );
+
+    if (rejection) {
+      this.logger.warn(
+        `Referral of user ${referee.id} by ${referrer.id} rejected: ${rejection}`,
+      );
+    }
+
+    const result = await client.query<Referral>(
+      `INSERT INTO referrals (
+        referrer_id, referee_id, code, status, rejection_reason
+       )
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        referrer.id,
+        referee.id,
+        referrer.referral_code,
+        rejection ? ReferralStatus.REJECTED : ReferralStatus.PENDING,
+        rejection,
+      ],
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Reward both sides when a referee completes their first booking
+   * Runs in the booking completion transaction; the status change makes
+   * the reward happen at most once.
+   */
+  async rewardForBooking(bookingId: string, client: PoolClient): Promise<void> {
+    const result = await client.query<Referral & { booking_number: string }>(
+      `UPDATE referrals r
+       SET status = $2, booking_id = b.id, rewarded_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       FROM bookings b
+       JOIN customers c ON b.customer_id = c.id
+       WHERE b.id = $1
+         AND r.referee_id = c.user_id
+         AND r.status = $3
+         AND NOT EXISTS (
+           SELECT 1 FROM bookings earlier
+           WHERE earlier.customer_id = b.customer_id
+             AND earlier.status = $4
+             AND earlier.id != b.id
+         )
+       RETURNING r.*, b.booking_number`,
+      [
+        bookingId,
+        ReferralStatus.REWARDED,
+        ReferralStatus.PENDING,
+        BookingStatus.COMPLETED,
+      ],
+    );
+    const referral = result.rows[0];
+
+    if (!referral) {
+      return;
+    }
+
+    await this.grantReward(
+      referral,
+      referral.referrer_id,
+      this.configService.get<number>('referrals.referrerReward', 100),
+      'Referral reward for inviting a friend',
+      client,
+    );
+    await this.grantReward(
+      referral,
+      referral.referee_id,
+      this.configService.get<number>('referrals.refereeReward', 100),
+      'Referral reward for your first booking',
+      client,
+    );
+  }
+
+  /**
+   * Referral funnel from sign-up to reward (Admin only)
+   */
+  async getReport(from?: Date, to?: Date): Promise<ReferralFunnel> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (from) {
+      params.push(from);
+      conditions.push(`r.created_at >= $${params.length}`);
+    }
+
+    if (to) {
+      params.push(to);
+      conditions.push(`r.created_at < $${params.length}`);
+    }
+
+    const whereClause =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const funnel = await this.db.queryOne<{
+      signed_up: string;
+      rejected: string;
+      booked: string;
+      rewarded: string;
+    }>(
+      `SELECT
+        COUNT(*) as signed_up,
+        COUNT(*) FILTER (WHERE r.status = '${ReferralStatus.REJECTED}') as rejected,
+        COUNT(*) FILTER (WHERE EXISTS (
+          SELECT 1 FROM bookings b
+          JOIN customers c ON b.customer_id = c.id
+          WHERE c.user_id = r.referee_id
+        )) as booked,
+        COUNT(*) FILTER (WHERE r.status = '${ReferralStatus.REWARDED}') as rewarded
+       FROM referrals r
+       ${whereClause}`,
+      params,
+    );
+
+    const rejections = await this.db.queryMany<{
+      reason: string;
+      count: string;
+    }>(
+      `SELECT r.rejection_reason as reason, COUNT(*) as count
+       FROM referrals r
+       ${whereClause ? `${whereClause} AND` : 'WHERE'} r.rejection_reason IS NOT NULL
+       GROUP BY r.rejection_reason
+       ORDER BY count DESC`,
+      params,
+    );
+
+    const rewards = await this.db.queryMany<{
+      type: string;
+      count: string;
+      amount: string;
+    }>(
+      `SELECT rr.type, COUNT(*) as count, COALESCE(SUM(rr.amount), 0) as amount
+       FROM referral_rewards rr
+       JOIN referrals r ON rr.referral_id = r.id
+       ${whereClause}
+       GROUP BY rr.type`,
+      params,
+    );
+
+    const topReferrers = await this.db.queryMany<{
+      user_id: string;
+      name: string;
+      signed_up: string;
+      rewarded: string;
+    }>(
+      `SELECT u.id as user_id, u.name,
+        COUNT(*) as signed_up,
+        COUNT(*) FILTER (WHERE r.status = '${ReferralStatus.REWARDED}') as rewarded
+       FROM referrals r
+       JOIN users u ON r.referrer_id = u.id
+       ${whereClause}
+       GROUP BY u.id, u.name
+       ORDER BY signed_up DESC
+       LIMIT 10`,
+      params,
+    );
+
+    return {
+      from,
+      to,
+      signed_up: parseInt(funnel?.signed_up ?? '0'),
+      rejected: parseInt(funnel?.rejected ?? '0'),
+      booked: parseInt(funnel?.booked ?? '0'),
+      rewarded: parseInt(funnel?.rewarded ?? '0'),
+      rejections: rejections.map((row) => ({
+        reason: row.reason,
+        count: parseInt(row.count),
+      })),
+      rewards: rewards.map((row) => ({
+        type: row.type,
+        count: parseInt(row.count),
+        amount: MoneyUtil.toNumber(row.amount),
+      })),
+      top_referrers: topReferrers.map((row) => ({
+        ...row,
+        signed_up: parseInt(row.signed_up),
+        rewarded: parseInt(row.rewarded),
+      })),
+    };
+  }
+
+  /**
+   * The user's referral code, created on first use
+   */
+  private async ensureCode(userId: string): Promise<string> {
+    const user = await this.db.queryOne<{ referral_code?: string }>(
+      `SELECT referral_code FROM users WHERE id = $1`,
+      [userId],
+    );
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.referral_code) {
+      return user.referral_code;
+    }
+
+    // Retry on the rare clash with another user's code
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = Array.from(
+        { length: 8 },
+        () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)],
+      ).join('');
+
+      const updated = await this.db.queryOne<{ referral_code: string }>(
+        `UPDATE users
+         SET referral_code = COALESCE(referral_code, $1),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+           AND NOT EXISTS (SELECT 1 FROM users WHERE referral_code = $1)
+         RETURNING referral_code`,
+        [code, userId],
+      );
+
+      if (updated) {
+        return updated.referral_code;
+      }
+    }
+
+    throw new ConflictException('Could not create a referral code, try again');
+  }
+
+  private async grantReward(
+    referral: Referral & { booking_number: string },
+    userId: string,
+    amount: number,
+    reason: string,
+    client: PoolClient,
+  ): Promise<void> {
+    const type =
+      this.configService.get<string>('referrals.rewardType', 'wallet') ===
+      'discount_code'
+        ? 'discount_code'
+        : 'wallet';
+
+    if (type === 'wallet') {
+      if (amount <= 0) {
+        return;
+      }
+
+      await this.walletPaymentsService.grantCashback(
+        userId,
+        amount,
+        `${reason} (booking ${referral.booking_number})`,
+        client,
+      );
+      await client.query(
+        `INSERT INTO referral_rewards (referral_id, user_id, type, amount)
+         VALUES ($1, $2, $3, $4)`,
+        [referral.id, userId, type, amount],
+      );
+      return;
+    }
+
+    const code = await this.discountsService.issueCode(
+      {
+        prefix: 'REF',
+        description: reason,
+        discount_percentage: this.configService.get<number>(
+          'referrals.discountPercent',
+          10,
+        ),
+        valid_days: this.configService.get<number>(
+          'referrals.discountValidDays',
+          30,
+        ),
+      },
+      client,
+    );
+    await client.query(
+      `INSERT INTO referral_rewards (
+        referral_id, user_id, type, discount_code_id
+       )
+       VALUES ($1, $2, $3, $4)`,
+      [referral.id, userId, type, code.id],
+    );
+  }
+}
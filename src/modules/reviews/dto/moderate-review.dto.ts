@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ModerateReviewDto {
+  // Kept on the review for the audit trail
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,39 @@
+import { ratingHistogram, reviewWindowOpen } from './ratings';
+
+describe('ratingHistogram', () => {
+  it('fills in ratings nobody gave', () => {
+    expect(
+      ratingHistogram([
+        { rating: 5, count: '3' },
+        { rating: '2', count: 1 },
+      ]),
+    ).toEqual({ 1: 0, 2: 1, 3: 0, 4: 0, 5: 3 });
+  });
+
+  it('ignores ratings outside one to five', () => {
+    expect(ratingHistogram([{ rating: 0, count: 2 }])).toEqual({
+      1: 0,
+      2: 0,
+      3: 0,
+      4: 0,
+      5: 0,
+    });
+  });
+});
+
+describe('reviewWindowOpen', () => {
+  const completedAt = new Date('2026-03-01T10:00:00Z');
+
+  it('is open until the window ends', () => {
+    expect(
+      reviewWindowOpen(completedAt, 14, new Date('2026-03-15T10:00:00Z')),
+    ).toBe(true);
+    expect(
+      reviewWindowOpen(completedAt, 14, new Date('2026-03-15T10:00:01Z')),
+    ).toBe(false);
+  });
+
+  it('is closed for bookings that never completed', () => {
+    expect(reviewWindowOpen(undefined, 14)).toBe(false);
+  });
+});
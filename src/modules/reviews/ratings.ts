@@ -0,0 +1,37 @@
+import { addDays } from 'date-fns';
+
+export const RATINGS = [1, 2, 3, 4, 5] as const;
+
+export type Rating = (typeof RATINGS)[number];
+
+// Number of reviews at each star rating
+export type RatingHistogram = Record<Rating, number>;
+
+/**
+ * Histogram from per-rating counts; ratings nobody gave count as zero
+ */
+export function ratingHistogram(
+  counts: { rating: number | string; count: number | string }[],
+): RatingHistogram {
+  const histogram = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+
+  counts.forEach(({ rating, count }) => {
+    const star = Number(rating) as Rating;
+    if (RATINGS.includes(star)) {
+      histogram[star] += Number(count);
+    }
+  });
+
+  return histogram;
+}
+
+/**
+ * Whether a booking completed at completedAt can still be reviewed
+ */
+export function reviewWindowOpen(
+  completedAt: Date | undefined,
+  windowDays: number,
+  now = new Date(),
+): boolean {
+  return !!completedAt && addDays(new Date(completedAt), windowDays) >= now;
+}
@@ -0,0 +1,52 @@
+import {
+  hasBlockedWords,
+  hasContactDetails,
+  screenReview,
+} from './review-screen';
+
+const options = {
+  blocked_words: ['idiot'],
+  outlier_gap: 3,
+  outlier_min_reviews: 5,
+};
+const established = { average: 4.8, count: 20 };
+
+describe('hasContactDetails', () => {
+  it('finds phone numbers, emails and links', () => {
+    expect(hasContactDetails('Call me on 98765 43210 next time')).toBe(true);
+    expect(hasContactDetails('mail ravi.k@example.com')).toBe(true);
+    expect(hasContactDetails('see www.example.com')).toBe(true);
+  });
+
+  it('ignores short numbers', () => {
+    expect(hasContactDetails('Fixed 2 taps in 45 minutes')).toBe(false);
+  });
+});
+
+describe('hasBlockedWords', () => {
+  it('matches whole words regardless of case', () => {
+    expect(hasBlockedWords('What an IDIOT!', ['idiot'])).toBe(true);
+    expect(hasBlockedWords('Idiotproof fitting', ['idiot'])).toBe(false);
+  });
+});
+
+describe('screenReview', () => {
+  it('publishes an ordinary review', () => {
+    expect(screenReview(5, 'Quick and tidy', established, options)).toEqual([]);
+  });
+
+  it('holds contact details and blocked words', () => {
+    expect(
+      screenReview(4, 'idiot, call 9876543210', established, options),
+    ).toEqual(['contact_details', 'blocked_words']);
+  });
+
+  it('holds ratings far from an established average', () => {
+    expect(screenReview(1, undefined, established, options)).toEqual([
+      'outlier',
+    ]);
+    expect(
+      screenReview(1, undefined, { average: 4.8, count: 2 }, options),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+export type ReviewFlag = 'contact_details' | 'blocked_words' | 'outlier';
+
+export interface ScreenOptions {
+  blocked_words: string[];
+  outlier_gap: number;
+  outlier_min_reviews: number;
+}
+
+// Visible reviews the reviewee already has
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+// Ten or more digits, allowing spaces, dots and dashes between them
+const PHONE_PATTERN = /(?:\d[\s.-]?){9}\d/;
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[a-z]{2,}/i;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/i;
+
+/**
+ * Phone numbers, email addresses or links, used to take jobs off-platform
+ */
+export function hasContactDetails(text: string): boolean {
+  return (
+    PHONE_PATTERN.test(text) ||
+    EMAIL_PATTERN.test(text) ||
+    LINK_PATTERN.test(text)
+  );
+}
+
+/**
+ * Whether any blocked word appears as a whole word, ignoring case
+ */
+export function hasBlockedWords(text: string, blockedWords: string[]): boolean {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+
+  return blockedWords.some((blocked) => words.includes(blocked.toLowerCase()));
+}
+
+/**
+ * Why a new review should be held for moderation; empty when it can be
+ * published straight away
+ */
+export function screenReview(
+  rating: number,
+  comment: string | undefined,
+  reviewee: RatingSummary,
+  options: ScreenOptions,
+): ReviewFlag[] {
+  const flags: ReviewFlag[] = [];
+
+  if (comment && hasContactDetails(comment)) {
+    flags.push('contact_details');
+  }
+
+  if (comment && hasBlockedWords(comment, options.blocked_words)) {
+    flags.push('blocked_words');
+  }
+
+  if (
+    reviewee.count >= options.outlier_min_reviews &&
+    Math.abs(rating - reviewee.average) >= options.outlier_gap
+  ) {
+    flags.push('outlier');
+  }
+
+  return flags;
+}
@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ReviewsService } from './reviews.service';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { ReportReviewDto } from './dto/report-review.dto';
+import { ReplyReviewDto } from './dto/reply-review.dto';
+import { ModerateReviewDto } from './dto/moderate-review.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('reviews')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ReviewsController {
+  constructor(private reviewsService: ReviewsService) {}
+
+  /**
+   * POST /api/v1/reviews
+   * Rate and review the other side of a completed booking
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.PROVIDER)
+  @Post()
+  async createReview(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreateReviewDto,
+  ) {
+    const review = await this.reviewsService.createReview(user, createDto);
+    return ResponseUtil.success(review, 'Review submitted');
+  }
+
+  /**
+   * GET /api/v1/reviews/moderation
+   * Get held and reported reviews (Admin only)
+   * Query params: page, limit (optional)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get('moderation')
+  async getModerationQueue(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    const queue = await this.reviewsService.getModerationQueue(page, limit);
+    return ResponseUtil.success(queue);
+  }
+
+  /**
+   * POST /api/v1/reviews/:id/report
+   * Report a review as abusive
+   */
+  @Roles(databaseTypes.UserRole.CUSTOMER, databaseTypes.UserRole.PROVIDER)
+  @Post(':id/report')
+  async reportReview(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() reportDto: ReportReviewDto,
+  ) {
+    const report = await this.reviewsService.reportReview(
+      user,
+      id,
+      reportDto.reason,
+    );
+    return ResponseUtil.success(report, 'Review reported');
+  }
+
+  /**
+   * POST /api/v1/reviews/:id/reply
+   * Reply publicly to a review of you (Provider only)
+   */
+  @Roles(databaseTypes.UserRole.PROVIDER)
+  @Post(':id/reply')
+  async replyToReview(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() replyDto: ReplyReviewDto,
+  ) {
+    const review = await this.reviewsService.replyToReview(
+      user,
+      id,
+      replyDto.reply,
+    );
+    return ResponseUtil.success(review, 'Reply posted');
+  }
+
+  /**
+   * PUT /api/v1/reviews/:id/hide
+   * Hide a review (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Put(':id/hide')
+  async hideReview(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() moderateDto: ModerateReviewDto,
+  ) {
+    const review = await this.reviewsService.hideReview(
+      user,
+      id,
+      moderateDto.reason,
+    );
+    return ResponseUtil.success(review, 'Review hidden');
+  }
+
+  /**
+   * PUT /api/v1/reviews/:id/restore
+   * Restore a held or hidden review (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Put(':id/restore')
+  async restoreReview(
+    @CurrentUser() user: databaseTypes.User,
+    @Param('id') id: string,
+    @Body() moderateDto: ModerateReviewDto,
+  ) {
+    const review = await this.reviewsService.restoreReview(
+      user,
+      id,
+      moderateDto.reason,
+    );
+    return ResponseUtil.success(review, 'Review restored');
+  }
+}
@@ -0,0 +1,502 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import {
+  BookingStatus,
+  Review,
+  ReviewReport,
+  ReviewStatus,
+  User,
+  UserRole,
+} from '../../types/database.types';
+import { RatingHistogram, ratingHistogram, reviewWindowOpen } from './ratings';
+import {
+  RatingSummary,
+  hasBlockedWords,
+  hasContactDetails,
+  screenReview,
+} from './review-screen';
+import { CreateReviewDto } from './dto/create-review.dto';
+
+export interface PublicReview {
+  id: string;
+  rating: number;
+  comment?: string;
+  reviewer_name: string;
+  reply?: string;
+  replied_at?: Date;
+  created_at: Date;
+}
+
+export interface ModerationItem extends Review {
+  reviewer_name: string;
+  reviewee_name: string;
+  open_reports: number;
+  report_reasons: string[];
+}
+
+export interface ProviderReviews {
+  average_rating: number;
+  total: number;
+  histogram: RatingHistogram;
+  reviews: PublicReview[];
+  page: number;
+  limit: number;
+}
+
+interface ReviewableBooking {
+  id: string;
+  status: BookingStatus;
+  completed_at?: Date;
+  customer_user_id: string;
+  provider_user_id?: string;
+}
+
+@Injectable()
+export class ReviewsService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Rate and review the other side of a completed booking (Customer or
+   * Provider)
+   * Each side reviews a booking once, within the review window. Reviews
+   * the automatic screen flags are held for moderation; the reviewee's
+   * average rating is recomputed in the same transaction.
+   */
+  async createReview(user: User, createDto: CreateReviewDto): Promise<Review> {
+    return await this.db.transaction(async (client: PoolClient) => {
+      const result = await client.query<ReviewableBooking>(
+        `SELECT
+          b.id, b.status, b.completed_at,
+          c.user_id as customer_user_id,
+          p.user_id as provider_user_id
+         FROM bookings b
+         JOIN customers c ON b.customer_id = c.id
+         LEFT JOIN providers p ON b.provider_id = p.id
+         WHERE b.id = $1
+         FOR UPDATE OF b`,
+        [createDto.booking_id],
+      );
+      const booking = result.rows[0];
+
+      if (!booking) {
+        throw new NotFoundException('Booking not found');
+      }
+
+      let reviewerRole: UserRole;
+      let revieweeId: string | undefined;
+      if (booking.customer_user_id === user.id) {
+        reviewerRole = UserRole.CUSTOMER;
+        revieweeId = booking.provider_user_id;
+      } else if (booking.provider_user_id === user.id) {
+        reviewerRole = UserRole.PROVIDER;
+        revieweeId = booking.customer_user_id;
+      } else {
+        throw new ForbiddenException('You can only review your own bookings');
+      }
+
+      if (booking.status !== BookingStatus.COMPLETED || !revieweeId) {
+        throw new ConflictException('Only completed bookings can be reviewed');
+      }
+
+      const windowDays = this.configService.get<number>(
+        'reviews.windowDays',
+        14,
+      );
+      if (!reviewWindowOpen(booking.completed_at, windowDays)) {
+        throw new ConflictException(
+          `Reviews can only be left within ${windowDays} days of completion`,
+        );
+      }
+
+      const existing = await client.query(
+        `SELECT id FROM reviews WHERE booking_id = $1 AND reviewer_id = $2`,
+        [booking.id, user.id],
+      );
+      if (existing.rows[0]) {
+        throw new ConflictException('You have already reviewed this booking');
+      }
+
+      const summary = await client.query<{ average: string; count: string }>(
+        `SELECT COALESCE(AVG(rating), 0) as average, COUNT(*) as count
+         FROM reviews
+         WHERE reviewee_id = $1 AND status = $2`,
+        [revieweeId, ReviewStatus.VISIBLE],
+      );
+      const flags = screenReview(
+        createDto.rating,
+        createDto.comment,
+        this.toSummary(summary.rows[0]),
+        {
+          blocked_words: this.configService.get<string[]>(
+            'reviews.blockedWords',
+            [],
+          ),
+          outlier_gap: this.configService.get<number>('reviews.outlierGap', 3),
+          outlier_min_reviews: this.configService.get<number>(
+            'reviews.outlierMinReviews',
+            5,
+          ),
+        },
+      );
+
+      const inserted = await client.query<Review>(
+        `INSERT INTO reviews (
+          booking_id, reviewer_id, reviewee_id, reviewer_role, rating, comment,
+          status, flag_reasons
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          booking.id,
+          user.id,
+          revieweeId,
+          reviewerRole,
+          createDto.rating,
+          createDto.comment,
+          flags.length > 0 ? ReviewStatus.FLAGGED : ReviewStatus.VISIBLE,
+          flags,
+        ],
+      );
+
+      // The booking keeps each side's rating of the other
+      await client.query(
+        reviewerRole === UserRole.CUSTOMER
+          ? `UPDATE bookings
+             SET customer_rating = $1, customer_review = $2,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $3`
+          : `UPDATE bookings
+             SET provider_rating = $1, provider_review = $2,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $3`,
+        [createDto.rating, createDto.comment, booking.id],
+      );
+
+      await this.refreshRating(
+        revieweeId,
+        reviewerRole === UserRole.CUSTOMER
+          ? UserRole.PROVIDER
+          : UserRole.CUSTOMER,
+        client,
+      );
+
+      return inserted.rows[0];
+    });
+  }
+
+  /**
+   * Reviews of a provider by their customers, newest first, with the
+   * rating histogram (public)
+   */
+  async getProviderReviews(
+    providerId: string,
+    page = 1,
+    limit = 10,
+  ): Promise<ProviderReviews> {
+    const offset = (page - 1) * limit;
+
+    const provider = await this.db.queryOne<{
+      user_id: string;
+      average_rating: string;
+    }>(`SELECT user_id, average_rating FROM providers WHERE id = $1`, [
+      providerId,
+    ]);
+
+    if (!provider) {
+      throw new NotFoundException('Provider not found');
+    }
+
+    const counts = await this.db.queryMany<{ rating: number; count: string }>(
+      `SELECT rating, COUNT(*) as count FROM reviews
+       WHERE reviewee_id = $1 AND reviewer_role = $2 AND status = $3
+       GROUP BY rating`,
+      [provider.user_id, UserRole.CUSTOMER, ReviewStatus.VISIBLE],
+    );
+    const histogram = ratingHistogram(counts);
+
+    const reviews = await this.db.queryMany<PublicReview>(
+      `SELECT
+        r.id, r.rating, r.comment, r.reply, r.replied_at, r.created_at,
+        u.name as reviewer_name
+       FROM reviews r
+       JOIN users u ON r.reviewer_id = u.id
+       WHERE r.reviewee_id = $1 AND r.reviewer_role = $2 AND r.status = $3
+       ORDER BY r.created_at DESC
+       LIMIT $4 OFFSET $5`,
+      [
+        provider.user_id,
+        UserRole.CUSTOMER,
+        ReviewStatus.VISIBLE,
+        limit,
+        offset,
+      ],
+    );
+
+    return {
+      average_rating: parseFloat(provider.average_rating),
+      total: Object.values(histogram).reduce((sum, count) => sum + count, 0),
+      histogram,
+      reviews,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Report a public review as abusive (Customer or Provider)
+   * The review stays up until an admin looks at it.
+   */
+  async reportReview(
+    user: User,
+    reviewId: string,
+    reason: string,
+  ): Promise<ReviewReport> {
+    const review = await this.getReviewById(reviewId);
+
+    if (review.status !== ReviewStatus.VISIBLE) {
+      throw new NotFoundException('Review not found');
+    }
+
+    if (review.reviewer_id === user.id) {
+      throw new BadRequestException('You cannot report your own review');
+    }
+
+    const report = await this.db.queryOne<ReviewReport>(
+      `INSERT INTO review_reports (review_id, reporter_id, reason)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (review_id, reporter_id) DO NOTHING
+       RETURNING *`,
+      [reviewId, user.id, reason],
+    );
+
+    if (!report) {
+      throw new ConflictException('You have already reported this review');
+    }
+
+    return report;
+  }
+
+  /**
+   * Publicly reply to a review of you, once (Provider)
+   * Replies are published straight away, so ones the screen would flag are
+   * refused rather than held.
+   */
+  async replyToReview(
+    user: User,
+    reviewId: string,
+    reply: string,
+  ): Promise<Review> {
+    const review = await this.getReviewById(reviewId);
+
+    if (
+      review.reviewee_id !== user.id ||
+      review.reviewer_role !== UserRole.CUSTOMER
+    ) {
+      throw new ForbiddenException('You can only reply to reviews of you');
+    }
+
+    if (hasContactDetails(reply)) {
+      throw new BadRequestException(
+        'Replies cannot contain phone numbers, emails or links',
+      );
+    }
+
+    if (
+      hasBlockedWords(
+        reply,
+        this.configService.get<string[]>('reviews.blockedWords', []),
+      )
+    ) {
+      throw new BadRequestException(
+        'Reply contains words that are not allowed',
+      );
+    }
+
+    const updated = await this.db.queryOne<Review>(
+      `UPDATE reviews
+       SET reply = $1, replied_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND reply IS NULL
+       RETURNING *`,
+      [reply, reviewId],
+    );
+
+    if (!updated) {
+      throw new ConflictException('You have already replied to this review');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Reviews held by the screen or reported by users, oldest first (Admin
+   * only)
+   */
+  async getModerationQueue(
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    reviews: ModerationItem[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const offset = (page - 1) * limit;
+    const condition = `r.status = $1 OR EXISTS (
+        SELECT 1 FROM review_reports rr
+        WHERE rr.review_id = r.id AND rr.resolved_at IS NULL
+      )`;
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM reviews r WHERE ${condition}`,
+      [ReviewStatus.FLAGGED],
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const reviews = await this.db.queryMany<ModerationItem>(
+      `SELECT
+        r.*,
+        ru.name as reviewer_name,
+        eu.name as reviewee_name,
+        COALESCE(reports.open_reports, 0)::int as open_reports,
+        COALESCE(reports.reasons, '{}') as report_reasons
+       FROM reviews r
+       JOIN users ru ON r.reviewer_id = ru.id
+       JOIN users eu ON r.reviewee_id = eu.id
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*) as open_reports, array_agg(rr.reason) as reasons
+         FROM review_reports rr
+         WHERE rr.review_id = r.id AND rr.resolved_at IS NULL
+       ) reports ON true
+       WHERE ${condition}
+       ORDER BY r.created_at ASC
+       LIMIT $2 OFFSET $3`,
+      [ReviewStatus.FLAGGED, limit, offset],
+    );
+
+    return { reviews, total, page, limit };
+  }
+
+  /**
+   * Hide a review from the public and from ratings (Admin only)
+   */
+  async hideReview(
+    admin: User,
+    reviewId: string,
+    reason: string,
+  ): Promise<Review> {
+    return await this.moderate(admin, reviewId, ReviewStatus.HIDDEN, reason);
+  }
+
+  /**
+   * Publish a held or hidden review again, dismissing its reports (Admin
+   * only)
+   */
+  async restoreReview(
+    admin: User,
+    reviewId: string,
+    reason: string,
+  ): Promise<Review> {
+    return await this.moderate(admin, reviewId, ReviewStatus.VISIBLE, reason);
+  }
+
+  /**
+   * Recompute a provider's or customer's average rating from their
+   * visible reviews
+   * The profile row is locked first, so concurrent reviews of the same
+   * user are averaged one after the other.
+   */
+  async refreshRating(
+    userId: string,
+    role: UserRole,
+    client: PoolClient,
+  ): Promise<void> {
+    const table = role === UserRole.PROVIDER ? 'providers' : 'customers';
+
+    await client.query(
+      `SELECT id FROM ${table} WHERE user_id = $1 FOR UPDATE`,
+      [userId],
+    );
+    await client.query(
+      `UPDATE ${table}
+       SET average_rating = COALESCE((
+             SELECT ROUND(AVG(rating), 2) FROM reviews
+             WHERE reviewee_id = $1 AND status = $2
+           ), 0),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1`,
+      [userId, ReviewStatus.VISIBLE],
+    );
+  }
+
+  /**
+   * Set a review's status with the admin's reason, resolve its open
+   * reports and recompute the reviewee's rating
+   */
+  private async moderate(
+    admin: User,
+    reviewId: string,
+    status: ReviewStatus,
+    reason: string,
+  ): Promise<Review> {
+    return await this.db.transaction(async (client: PoolClient) => {
+      const result = await client.query<Review>(
+        `UPDATE reviews
+         SET status = $1, moderation_reason = $2, moderated_by = $3,
+             moderated_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $4
+         RETURNING *`,
+        [status, reason, admin.id, reviewId],
+      );
+      const review = result.rows[0];
+
+      if (!review) {
+        throw new NotFoundException('Review not found');
+      }
+
+      await client.query(
+        `UPDATE review_reports SET resolved_at = CURRENT_TIMESTAMP
+         WHERE review_id = $1 AND resolved_at IS NULL`,
+        [reviewId],
+      );
+
+      await this.refreshRating(
+        review.reviewee_id,
+        review.reviewer_role === UserRole.CUSTOMER
+          ? UserRole.PROVIDER
+          : UserRole.CUSTOMER,
+        client,
+      );
+
+      return review;
+    });
+  }
+
+  private async getReviewById(reviewId: string): Promise<Review> {
+    const review = await this.db.queryOne<Review>(
+      `SELECT * FROM reviews WHERE id = $1`,
+      [reviewId],
+    );
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    return review;
+  }
+
+  private toSummary(row: { average: string; count: string }): RatingSummary {
+    return { average: parseFloat(row.average), count: parseInt(row.count) };
+  }
+}
@@ -1,4 +1,12 @@
-import { IsString, IsUUID, IsNumber, IsOptional, IsBoolean, Min } from 'class-validator';
+import {
+  IsString,
+  IsUUID,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  Min,
+  Matches,
+} from 'class-validator';
 
 export class CreateServiceDto {
   @IsUUID()
@@ -26,4 +34,9 @@ export class CreateServiceDto {
   @IsOptional()
   @IsBoolean()
   is_active?: boolean;
+
+  // SAC code printed on GST invoices
+  @IsOptional()
+  @Matches(/^\d{4,8}$/, { message: 'hsn_sac_code must be 4 to 8 digits' })
+  hsn_sac_code?: string;
 }
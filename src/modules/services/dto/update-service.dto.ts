@@ -1,4 +1,11 @@
-import { IsString, IsNumber, IsOptional, IsBoolean, Min } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  Min,
+  Matches,
+} from 'class-validator';
 
 export class UpdateServiceDto {
   @IsOptional()
@@ -22,4 +29,8 @@ export class UpdateServiceDto {
   @IsOptional()
   @IsBoolean()
   is_active?: boolean;
+
+  @IsOptional()
+  @Matches(/^\d{4,8}$/, { message: 'hsn_sac_code must be 4 to 8 digits' })
+  hsn_sac_code?: string;
 }
\ No newline at end of file
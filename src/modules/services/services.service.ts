@@ -277,7 +277,8 @@ export class ServicesService {
       description,
       base_price,
       estimated_duration_minutes,
-      is_active
+      is_active,
+      hsn_sac_code
     } = createServiceDto;
 
     // Verify category exists
@@ -296,9 +297,9 @@ export class ServicesService {
     const result = await this.db.queryOne(
       `INSERT INTO services (
         category_id, name, slug, description, base_price, 
-        estimated_duration_minutes, is_active
+        estimated_duration_minutes, is_active, hsn_sac_code
        )
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        RETURNING *`,
       [
         category_id,
@@ -307,7 +308,8 @@ export class ServicesService {
         description,
         base_price,
         estimated_duration_minutes,
-        is_active ?? true
+        is_active ?? true,
+        hsn_sac_code
       ]
     );
 
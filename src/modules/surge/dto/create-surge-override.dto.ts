@@ -0,0 +1,37 @@
+import {
+  IsUUID,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Matches,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateSurgeOverrideDto {
+  // Omit both geohash and category_id for a platform-wide override
+  @IsOptional()
+  @Matches(/^[0-9b-hjkmnp-z]{1,12}$/, { message: 'geohash is invalid' })
+  geohash?: string;
+
+  @IsOptional()
+  @IsUUID()
+  category_id?: string;
+
+  // 1 turns surge off for the matching cell/category
+  @IsNumber()
+  @Min(1)
+  @Max(5)
+  multiplier: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expires_at?: string;
+}
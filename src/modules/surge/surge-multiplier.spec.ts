@@ -0,0 +1,38 @@
+import { nextMultiplier, SurgeSettings } from './surge-multiplier';
+
+const settings: SurgeSettings = {
+  enterRatio: 1.5,
+  exitRatio: 1,
+  sensitivity: 0.5,
+  maxMultiplier: 2,
+  step: 0.1,
+};
+
+describe('nextMultiplier', () => {
+  it('stays calm below the enter ratio', () => {
+    expect(nextMultiplier(1, 1.4, settings)).toBe(1);
+  });
+
+  it('starts surging at the enter ratio', () => {
+    expect(nextMultiplier(1, 1.6, settings)).toBe(1.3);
+  });
+
+  it('caps the multiplier', () => {
+    expect(nextMultiplier(1.5, 10, settings)).toBe(2);
+  });
+
+  it('holds within a step of the current multiplier', () => {
+    expect(nextMultiplier(1.3, 1.5, settings)).toBe(1.3);
+    expect(nextMultiplier(1.3, 1.75, settings)).toBe(1.3);
+  });
+
+  it('moves a full step away', () => {
+    expect(nextMultiplier(1.3, 1.8, settings)).toBe(1.4);
+    expect(nextMultiplier(1.5, 1.2, settings)).toBe(1.1);
+  });
+
+  it('keeps surging until the exit ratio', () => {
+    expect(nextMultiplier(1.1, 1.1, settings)).toBe(1.1);
+    expect(nextMultiplier(1.1, 1, settings)).toBe(1);
+  });
+});
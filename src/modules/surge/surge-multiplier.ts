@@ -0,0 +1,48 @@
+export interface SurgeSettings {
+  // Demand/supply ratio at which a calm cell starts surging
+  enterRatio: number;
+  // A surging cell returns to 1.0 once the ratio drops to this
+  exitRatio: number;
+  // Multiplier added per unit of ratio above 1
+  sensitivity: number;
+  maxMultiplier: number;
+  step: number;
+}
+
+/**
+ * Next multiplier for a cell given its current one and the latest ratio
+ * Enter and exit thresholds differ, and within a surge the multiplier only
+ * moves once the target is a full step away, so cells near a boundary do
+ * not flap between runs.
+ */
+export function nextMultiplier(
+  current: number,
+  ratio: number,
+  settings: SurgeSettings,
+): number {
+  const surging = current > 1;
+
+  if (!surging && ratio < settings.enterRatio) {
+    return 1;
+  }
+
+  if (surging && ratio <= settings.exitRatio) {
+    return 1;
+  }
+
+  const target = Math.min(
+    1 + Math.max(ratio - 1, 0) * settings.sensitivity,
+    settings.maxMultiplier,
+  );
+  const steps = target / settings.step;
+  const epsilon = 1e-9;
+  let next = current;
+
+  if (!surging || target >= current + settings.step - epsilon) {
+    next = Math.floor(steps + epsilon) * settings.step;
+  } else if (target <= current - settings.step + epsilon) {
+    next = Math.ceil(steps - epsilon) * settings.step;
+  }
+
+  return Math.max(1, Math.round(next * 100) / 100);
+}
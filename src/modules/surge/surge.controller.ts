@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { SurgeService } from './surge.service';
+import { CreateSurgeOverrideDto } from './dto/create-surge-override.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import * as databaseTypes from '../../types/database.types';
+import { ResponseUtil } from '../../common/interfaces/response.interface';
+
+@Controller('surge')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class SurgeController {
+  constructor(private surgeService: SurgeService) {}
+
+  // ==================== ADMIN ENDPOINTS ====================
+
+  /**
+   * GET /api/v1/surge/cells
+   * Get cells currently surging (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get('cells')
+  async getSurgingCells() {
+    const cells = await this.surgeService.getSurgingCells();
+    return ResponseUtil.success(cells);
+  }
+
+  /**
+   * GET /api/v1/surge/overrides
+   * Get active overrides (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Get('overrides')
+  async getOverrides() {
+    const overrides = await this.surgeService.getOverrides();
+    return ResponseUtil.success(overrides);
+  }
+
+  /**
+   * POST /api/v1/surge/overrides
+   * Pin or switch off surge for a cell/category (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Post('overrides')
+  async createOverride(
+    @CurrentUser() user: databaseTypes.User,
+    @Body() createDto: CreateSurgeOverrideDto,
+  ) {
+    const override = await this.surgeService.createOverride(user.id, createDto);
+    return ResponseUtil.success(override, 'Surge override created');
+  }
+
+  /**
+   * DELETE /api/v1/surge/overrides/:id
+   * Remove an override (Admin only)
+   */
+  @Roles(databaseTypes.UserRole.ADMIN)
+  @Delete('overrides/:id')
+  async deleteOverride(@Param('id') id: string) {
+    await this.surgeService.deleteOverride(id);
+    return ResponseUtil.success(null, 'Surge override removed');
+  }
+}
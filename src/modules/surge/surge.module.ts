@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { SurgeController } from './surge.controller';
+import { SurgeService, SURGE_QUEUE } from './surge.service';
+import { SurgeProcessor } from './surge.processor';
+
+@Module({
+  imports: [BullModule.registerQueue({ name: SURGE_QUEUE })],
+  controllers: [SurgeController],
+  providers: [SurgeService, SurgeProcessor],
+  exports: [SurgeService],
+})
+export class SurgeModule {}
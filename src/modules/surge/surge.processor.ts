@@ -0,0 +1,19 @@
+import { Process, Processor } from '@nestjs/bull';
+import {
+  SurgeService,
+  SURGE_QUEUE,
+  RECOMPUTE_SURGE_JOB,
+} from './surge.service';
+
+@Processor(SURGE_QUEUE)
+export class SurgeProcessor {
+  constructor(private surgeService: SurgeService) {}
+
+  /**
+   * Periodic demand/supply snapshot
+   */
+  @Process(RECOMPUTE_SURGE_JOB)
+  async handleRecompute() {
+    await this.surgeService.recompute();
+  }
+}
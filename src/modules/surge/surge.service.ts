@@ -0,0 +1,304 @@
+import { Injectable, OnModuleInit, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { PoolClient } from 'pg';
+import { subMinutes } from 'date-fns';
+import { DatabaseService } from '../../database/database.service';
+import { BookingStatus } from '../../types/database.types';
+import { GeohashUtil } from '../../utils/geohash.util';
+import { MoneyUtil } from '../../utils/money.util';
+import { nextMultiplier, SurgeSettings } from './surge-multiplier';
+import { CreateSurgeOverrideDto } from './dto/create-surge-override.dto';
+
+export const SURGE_QUEUE = 'surge';
+export const RECOMPUTE_SURGE_JOB = 'recompute-surge';
+
+export interface SurgeCell {
+  geohash: string;
+  open_requests: number;
+  online_providers: number;
+  ratio: number;
+  multiplier: number;
+  computed_at: Date;
+}
+
+export interface SurgeOverride {
+  id: string;
+  geohash?: string;
+  category_id?: string;
+  multiplier: number;
+  reason?: string;
+  expires_at?: Date;
+  created_by: string;
+  created_at: Date;
+}
+
+export interface SurgeQuote {
+  geohash: string;
+  multiplier: number;
+  source: 'demand' | 'override' | 'disabled';
+  override_id?: string;
+}
+
+interface CellCounts {
+  open: number;
+  online: number;
+}
+
+@Injectable()
+export class SurgeService implements OnModuleInit {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+    @InjectQueue(SURGE_QUEUE) private surgeQueue: Queue,
+  ) {}
+
+  /**
+   * Recompute cell multipliers every few minutes
+   */
+  async onModuleInit() {
+    await this.surgeQueue.add(
+      RECOMPUTE_SURGE_JOB,
+      {},
+      {
+        jobId: RECOMPUTE_SURGE_JOB,
+        repeat: { cron: '*/5 * * * *' },
+        removeOnComplete: true,
+      },
+    );
+  }
+
+  /**
+   * Multiplier for a job at a location
+   * Admin overrides win over the computed demand multiplier.
+   */
+  async getMultiplier(
+    latitude: number,
+    longitude: number,
+    categoryId: string,
+  ): Promise<SurgeQuote> {
+    const geohash = GeohashUtil.encode(latitude, longitude, this.precision());
+
+    if (!this.configService.get<boolean>('surge.enabled', true)) {
+      return { geohash, multiplier: 1, source: 'disabled' };
+    }
+
+    // Most specific override first: cell + category, cell, category, global
+    const override = await this.db.queryOne<SurgeOverride>(
+      `SELECT * FROM surge_overrides
+       WHERE (geohash = $1 OR geohash IS NULL)
+         AND (category_id = $2 OR category_id IS NULL)
+         AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+       ORDER BY geohash NULLS LAST, category_id NULLS LAST, created_at DESC
+       LIMIT 1`,
+      [geohash, categoryId],
+    );
+
+    if (override) {
+      return {
+        geohash,
+        multiplier: MoneyUtil.toNumber(override.multiplier),
+        source: 'override',
+        override_id: override.id,
+      };
+    }
+
+    // Ignore cells the job has stopped updating
+    const cell = await this.db.queryOne<SurgeCell>(
+      `SELECT * FROM surge_cells WHERE geohash = $1 AND computed_at > $2`,
+      [geohash, subMinutes(new Date(), this.staleAfterMinutes())],
+    );
+
+    return {
+      geohash,
+      multiplier: cell ? MoneyUtil.toNumber(cell.multiplier) : 1,
+      source: 'demand',
+    };
+  }
+
+  /**
+   * Bin open requests and online providers into cells and update
+   * each cell's multiplier
+   */
+  async recompute(): Promise<number> {
+    const precision = this.precision();
+    const counts = new Map<string, CellCounts>();
+    const cell = (geohash: string) => {
+      if (!counts.has(geohash)) {
+        counts.set(geohash, { open: 0, online: 0 });
+      }
+      return counts.get(geohash)!;
+    };
+
+    // Open requests are instant bookings still looking for a provider
+    const requests = await this.db.queryMany<{
+      latitude: number;
+      longitude: number;
+    }>(
+      `SELECT
+        ST_Y(service_location::geometry) as latitude,
+        ST_X(service_location::geometry) as longitude
+       FROM bookings
+       WHERE status = $1 AND provider_id IS NULL`,
+      [BookingStatus.PENDING],
+    );
+
+    requests.forEach((request) => {
+      cell(GeohashUtil.encode(request.latitude, request.longitude, precision))
+        .open++;
+    });
+
+    const providers = await this.db.queryMany<{
+      latitude: number;
+      longitude: number;
+    }>(
+      `SELECT
+        ST_Y(current_location::geometry) as latitude,
+        ST_X(current_location::geometry) as longitude
+       FROM providers
+       WHERE is_online = true
+         AND is_verified = true
+         AND current_location IS NOT NULL`,
+    );
+
+    // Supply only matters where there is, or recently was, demand
+    providers.forEach((provider) => {
+      const geohash = GeohashUtil.encode(
+        provider.latitude,
+        provider.longitude,
+        precision,
+      );
+      if (counts.has(geohash)) {
+        counts.get(geohash)!.online++;
+      }
+    });
+
+    return await this.db.transaction(async (client: PoolClient) => {
+      const surging = await client.query<{
+        geohash: string;
+        multiplier: string;
+      }>(
+        `SELECT geohash, multiplier FROM surge_cells
+         WHERE multiplier > 1
+         FOR UPDATE`,
+      );
+      const current = new Map(
+        surging.rows.map((row) => [
+          row.geohash,
+          MoneyUtil.toNumber(row.multiplier),
+        ]),
+      );
+
+      // Surging cells with no demand left still need to cool down
+      current.forEach((_, geohash) => cell(geohash));
+
+      for (const [geohash, { open, online }] of counts) {
+        const ratio = open / Math.max(online, 1);
+        const multiplier = nextMultiplier(
+          current.get(geohash) ?? 1,
+          ratio,
+          this.settings(),
+        );
+
+        await client.query(
+          `INSERT INTO surge_cells (
+            geohash, open_requests, online_providers, ratio, multiplier, computed_at
+           )
+           VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)
+           ON CONFLICT (geohash) DO UPDATE
+           SET open_requests = EXCLUDED.open_requests,
+               online_providers = EXCLUDED.online_providers,
+               ratio = EXCLUDED.ratio,
+               multiplier = EXCLUDED.multiplier,
+               computed_at = EXCLUDED.computed_at`,
+          [geohash, open, online, MoneyUtil.round(ratio), multiplier],
+        );
+      }
+
+      return counts.size;
+    });
+  }
+
+  /**
+   * Cells currently above 1.0x (Admin only)
+   */
+  async getSurgingCells(): Promise<SurgeCell[]> {
+    return await this.db.queryMany<SurgeCell>(
+      `SELECT * FROM surge_cells
+       WHERE multiplier > 1 AND computed_at > $1
+       ORDER BY multiplier DESC, geohash`,
+      [subMinutes(new Date(), this.staleAfterMinutes())],
+    );
+  }
+
+  /**
+   * Active overrides (Admin only)
+   */
+  async getOverrides(): Promise<SurgeOverride[]> {
+    return await this.db.queryMany<SurgeOverride>(
+      `SELECT * FROM surge_overrides
+       WHERE expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP
+       ORDER BY created_at DESC`,
+    );
+  }
+
+  /**
+   * Pin the multiplier of a cell and/or category (Admin only)
+   * A multiplier of 1 acts as a kill switch.
+   */
+  async createOverride(
+    userId: string,
+    createDto: CreateSurgeOverrideDto,
+  ): Promise<SurgeOverride> {
+    const override = await this.db.queryOne<SurgeOverride>(
+      `INSERT INTO surge_overrides (
+        geohash, category_id, multiplier, reason, expires_at, created_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        createDto.geohash,
+        createDto.category_id,
+        createDto.multiplier,
+        createDto.reason,
+        createDto.expires_at,
+        userId,
+      ],
+    );
+
+    return override!;
+  }
+
+  /**
+   * Remove an override (Admin only)
+   */
+  async deleteOverride(id: string): Promise<void> {
+    const result = await this.db.query(
+      `DELETE FROM surge_overrides WHERE id = $1`,
+      [id],
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new NotFoundException('Surge override not found');
+    }
+  }
+
+  private settings(): SurgeSettings {
+    return {
+      enterRatio: this.configService.get<number>('surge.enterRatio', 1.5),
+      exitRatio: this.configService.get<number>('surge.exitRatio', 1),
+      sensitivity: this.configService.get<number>('surge.sensitivity', 0.5),
+      maxMultiplier: this.configService.get<number>('surge.maxMultiplier', 2),
+      step: this.configService.get<number>('surge.step', 0.1),
+    };
+  }
+
+  private precision(): number {
+    return this.configService.get<number>('surge.geohashPrecision', 6);
+  }
+
+  private staleAfterMinutes(): number {
+    return this.configService.get<number>('surge.staleAfterMinutes', 15);
+  }
+}
@@ -0,0 +1,122 @@
+import { Injectable } from '@nestjs/common';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+
+export interface ProviderWallet {
+  id: string;
+  provider_id: string;
+  balance: number;
+  pending_amount: number;
+  updated_at: Date;
+}
+
+export interface ProviderWalletEntryRefs {
+  booking_id?: string;
+  payment_id?: string;
+}
+
+/**
+ * Cached provider wallet balances
+ * Balances only move with ledger entries: post a journal through the
+ * ledger instead of calling credit or debit directly.
+ */
+@Injectable()
+export class ProviderWalletsService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Wallet of a provider
+   * A negative balance is money the provider owes the platform.
+   */
+  async getWallet(providerId: string): Promise<ProviderWallet> {
+    const wallet = await this.db.queryOne<ProviderWallet>(
+      `SELECT * FROM provider_wallets WHERE provider_id = $1`,
+      [providerId],
+    );
+
+    return (
+      wallet ?? {
+        id: '',
+        provider_id: providerId,
+        balance: 0,
+        pending_amount: 0,
+        updated_at: new Date(),
+      }
+    );
+  }
+
+  /**
+   * Add to a provider's balance inside the caller's transaction
+   */
+  async credit(
+    providerId: string,
+    amount: number,
+    description: string,
+    client: PoolClient,
+    refs: ProviderWalletEntryRefs = {},
+  ): Promise<ProviderWallet> {
+    return await this.post(
+      providerId,
+      amount,
+      'credit',
+      description,
+      client,
+      refs,
+    );
+  }
+
+  /**
+   * Take from a provider's balance inside the caller's transaction
+   * The balance may go negative.
+   */
+  async debit(
+    providerId: string,
+    amount: number,
+    description: string,
+    client: PoolClient,
+    refs: ProviderWalletEntryRefs = {},
+  ): Promise<ProviderWallet> {
+    return await this.post(
+      providerId,
+      amount,
+      'debit',
+      description,
+      client,
+      refs,
+    );
+  }
+
+  private async post(
+    providerId: string,
+    amount: number,
+    type: 'credit' | 'debit',
+    description: string,
+    client: PoolClient,
+    refs: ProviderWalletEntryRefs,
+  ): Promise<ProviderWallet> {
+    await client.query(
+      `INSERT INTO provider_wallets (provider_id)
+       VALUES ($1)
+       ON CONFLICT (provider_id) DO NOTHING`,
+      [providerId],
+    );
+
+    const result = await client.query<ProviderWallet>(
+      `UPDATE provider_wallets
+       SET balance = balance + $1, updated_at = CURRENT_TIMESTAMP
+       WHERE provider_id = $2
+       RETURNING *`,
+      [type === 'credit' ? amount : -amount, providerId],
+    );
+
+    await client.query(
+      `INSERT INTO provider_wallet_transactions (
+        provider_id, amount, type, description, booking_id, payment_id
+       )
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [providerId, amount, type, description, refs.booking_id, refs.payment_id],
+    );
+
+    return result.rows[0];
+  }
+}
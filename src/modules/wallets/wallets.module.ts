@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { WalletsService } from './wallets.service';
+import { ProviderWalletsService } from './provider-wallets.service';
+
+@Module({
+  providers: [WalletsService, ProviderWalletsService],
+  exports: [WalletsService, ProviderWalletsService],
+})
+export class WalletsModule {}
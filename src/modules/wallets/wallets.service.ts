@@ -0,0 +1,167 @@
+import { Injectable, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PoolClient } from 'pg';
+import { DatabaseService } from '../../database/database.service';
+import { Transaction, Wallet } from '../../types/database.types';
+
+/**
+ * Cached customer wallet balances
+ * Balances only move with ledger entries: post a journal through the
+ * ledger instead of calling credit or debit directly.
+ */
+@Injectable()
+export class WalletsService {
+  constructor(
+    private db: DatabaseService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Wallet of a user; an empty one if they never had money in it
+   */
+  async getWallet(userId: string): Promise<Wallet> {
+    const wallet = await this.db.queryOne<Wallet>(
+      `SELECT * FROM wallets WHERE user_id = $1`,
+      [userId],
+    );
+
+    return wallet ?? this.emptyWallet(userId);
+  }
+
+  /**
+   * Lock a user's wallet for the rest of the caller's transaction
+   * Checkouts lock before reading the balance, so two of them cannot
+   * spend the same money.
+   */
+  async lockWallet(userId: string, client: PoolClient): Promise<Wallet> {
+    await this.ensureWallet(userId, client);
+
+    const result = await client.query<Wallet>(
+      `SELECT * FROM wallets WHERE user_id = $1 FOR UPDATE`,
+      [userId],
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Wallet movements, newest first
+   */
+  async getStatement(
+    userId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    wallet: Wallet;
+    transactions: Transaction[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const wallet = await this.getWallet(userId);
+    const offset = (page - 1) * limit;
+
+    if (!wallet.id) {
+      return { wallet, transactions: [], total: 0, page, limit };
+    }
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM transactions WHERE wallet_id = $1`,
+      [wallet.id],
+    );
+    const total = parseInt(countResult?.count ?? '0');
+
+    const transactions = await this.db.queryMany<Transaction>(
+      `SELECT * FROM transactions
+       WHERE wallet_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2 OFFSET $3`,
+      [wallet.id, limit, offset],
+    );
+
+    return { wallet, transactions, total, page, limit };
+  }
+
+  /**
+   * Add money to a user's wallet inside the caller's transaction
+   * The wallet is created on first use.
+   */
+  async credit(
+    userId: string,
+    amount: number,
+    description: string,
+    client: PoolClient,
+  ): Promise<Wallet> {
+    return await this.post(userId, amount, 'credit', description, client);
+  }
+
+  /**
+   * Take money from a user's wallet inside the caller's transaction
+   * The balance never goes below zero.
+   */
+  async debit(
+    userId: string,
+    amount: number,
+    description: string,
+    client: PoolClient,
+  ): Promise<Wallet> {
+    return await this.post(userId, amount, 'debit', description, client);
+  }
+
+  private async post(
+    userId: string,
+    amount: number,
+    type: 'credit' | 'debit',
+    description: string,
+    client: PoolClient,
+  ): Promise<Wallet> {
+    await this.ensureWallet(userId, client);
+
+    const result = await client.query<Wallet>(
+      `UPDATE wallets
+       SET balance = balance + $1, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $2 AND balance + $1 >= 0
+       RETURNING *`,
+      [type === 'credit' ? amount : -amount, userId],
+    );
+    const wallet = result.rows[0];
+
+    if (!wallet) {
+      throw new ConflictException('Insufficient wallet balance');
+    }
+
+    await client.query(
+      `INSERT INTO transactions (
+        wallet_id, amount, type, description, balance_after
+       )
+       VALUES ($1, $2, $3, $4, $5)`,
+      [wallet.id, amount, type, description, wallet.balance],
+    );
+
+    return wallet;
+  }
+
+  private async ensureWallet(userId: string, client: PoolClient) {
+    await client.query(
+      `INSERT INTO wallets (user_id, currency)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id) DO NOTHING`,
+      [userId, this.currency()],
+    );
+  }
+
+  private emptyWallet(userId: string): Wallet {
+    return {
+      id: '',
+      user_id: userId,
+      balance: 0,
+      currency: this.currency(),
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+  }
+
+  private currency(): string {
+    return this.configService.get<string>('payments.currency', 'INR');
+  }
+}
@@ -0,0 +1,112 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  StorageDriver,
+  StoredObject,
+  SignedUrlOptions,
+} from '../storage-driver.interface';
+
+/**
+ * Files on local disk, for development and tests
+ * Signed URLs point at GET /api/v1/storage/files and carry an HMAC of
+ * the key and expiry.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private root: string;
+  private secret: string;
+  private baseUrl: string;
+
+  constructor(configService: ConfigService) {
+    this.root = path.resolve(
+      configService.get<string>('storage.localPath', './uploads'),
+    );
+    this.secret =
+      configService.get<string>('storage.signingSecret') ||
+      configService.get<string>('jwt.secret', '');
+    this.baseUrl = configService.get<string>(
+      'storage.publicBaseUrl',
+      'http://localhost:3000',
+    );
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+    await fs.writeFile(`${file}.meta.json`, JSON.stringify({ contentType }));
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const file = this.resolve(key);
+
+    try {
+      const [body, meta] = await Promise.all([
+        fs.readFile(file),
+        fs.readFile(`${file}.meta.json`, 'utf8'),
+      ]);
+      const { contentType } = JSON.parse(meta) as { contentType: string };
+      return { body, contentType };
+    } catch {
+      throw new NotFoundException('File not found');
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.resolve(key);
+    await fs.rm(file, { force: true });
+    await fs.rm(`${file}.meta.json`, { force: true });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+    const params = new URLSearchParams({
+      key,
+      expires: expires.toString(),
+      signature: this.sign(key, expires),
+    });
+
+    if (options.downloadName) {
+      params.set('name', options.downloadName);
+    }
+
+    return Promise.resolve(
+      `${this.baseUrl}/api/v1/storage/files?${params.toString()}`,
+    );
+  }
+
+  /**
+   * Check a signed URL's key, expiry and signature
+   */
+  verify(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const given = Buffer.from(signature);
+
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Map a key to a path, refusing anything outside the storage root
+   */
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new NotFoundException('File not found');
+    }
+
+    return file;
+  }
+}
@@ -0,0 +1,91 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import {
+  StorageDriver,
+  StoredObject,
+  SignedUrlOptions,
+} from '../storage-driver.interface';
+
+/**
+ * Amazon S3 or any S3-compatible store (MinIO, R2, Spaces)
+ * Set aws.s3Endpoint for non-AWS providers.
+ */
+export class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(configService: ConfigService) {
+    const endpoint = configService.get<string>('aws.s3Endpoint');
+    const accessKeyId = configService.get<string>('aws.accessKeyId');
+    const secretAccessKey = configService.get<string>('aws.secretAccessKey');
+
+    this.bucket = configService.get<string>('aws.s3Bucket', '');
+    this.client = new S3Client({
+      region: configService.get<string>('aws.region'),
+      endpoint,
+      forcePathStyle: !!endpoint,
+      credentials:
+        accessKeyId && secretAccessKey
+          ? { accessKeyId, secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      const bytes = await object.Body!.transformToByteArray();
+
+      return {
+        body: Buffer.from(bytes),
+        contentType: object.ContentType || 'application/octet-stream',
+      };
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundException('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return await getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentDisposition: options.downloadName
+          ? `attachment; filename="${options.downloadName}"`
+          : undefined,
+      }),
+      { expiresIn: options.expiresInSeconds },
+    );
+  }
+}
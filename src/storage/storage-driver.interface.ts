@@ -0,0 +1,31 @@
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  // Suggested file name for the browser download
+  downloadName?: string;
+}
+
+/**
+ * Backend that keeps uploaded files
+ * Keys are relative paths such as "bookings/<id>/<file>".
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+/**
+ * File parsed by the multipart interceptor (memory storage)
+ */
+export interface IncomingFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
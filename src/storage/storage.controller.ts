@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Get,
+  Query,
+  StreamableFile,
+  ForbiddenException,
+} from '@nestjs/common';
+import { StorageService } from './storage.service';
+
+@Controller('storage')
+export class StorageController {
+  constructor(private storageService: StorageService) {}
+
+  /**
+   * GET /api/v1/storage/files
+   * Download a file from a signed URL (local driver only)
+   * The signature is the credential, so no JWT is required.
+   */
+  @Get('files')
+  async getFile(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Query('name') name?: string,
+  ) {
+    if (
+      !key ||
+      !signature ||
+      !this.storageService.verifyLocalSignature(
+        key,
+        parseInt(expires, 10),
+        signature,
+      )
+    ) {
+      throw new ForbiddenException('Link is invalid or has expired');
+    }
+
+    const file = await this.storageService.get(key);
+
+    return new StreamableFile(file.body, {
+      type: file.contentType,
+      disposition: name
+        ? `attachment; filename="${name.replace(/[^\w.-]/g, '_')}"`
+        : undefined,
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  StorageDriver,
+  StoredObject,
+  SignedUrlOptions,
+} from './storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+
+@Injectable()
+export class StorageService implements StorageDriver {
+  private driver: StorageDriver;
+
+  constructor(private configService: ConfigService) {
+    this.driver =
+      this.configService.get<string>('storage.driver') === 's3'
+        ? new S3StorageDriver(configService)
+        : new LocalStorageDriver(configService);
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.driver.put(key, body, contentType);
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    return await this.driver.get(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.driver.delete(key);
+  }
+
+  /**
+   * Time-limited download URL, defaulting to storage.signedUrlTtlSeconds
+   */
+  async getSignedUrl(
+    key: string,
+    options: Partial<SignedUrlOptions> = {},
+  ): Promise<string> {
+    return await this.driver.getSignedUrl(key, {
+      ...options,
+      expiresInSeconds:
+        options.expiresInSeconds ??
+        this.configService.get<number>('storage.signedUrlTtlSeconds', 300),
+    });
+  }
+
+  /**
+   * Verify a local-disk signed URL; other drivers sign their own URLs
+   */
+  verifyLocalSignature(
+    key: string,
+    expires: number,
+    signature: string,
+  ): boolean {
+    return (
+      this.driver instanceof LocalStorageDriver &&
+      this.driver.verify(key, expires, signature)
+    );
+  }
+}
@@ -19,6 +19,13 @@ export enum BookingStatus {
   CANCELLED = 'cancelled',
 }
 
+export enum CancellationActor {
+  CUSTOMER = 'customer',
+  PROVIDER = 'provider',
+  ADMIN = 'admin',
+  SYSTEM = 'system',
+}
+
 export enum PaymentStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
@@ -34,6 +41,98 @@ export enum PaymentMethod {
   CASH = 'cash',
 }
 
+export enum PaymentPurpose {
+  BOOKING = 'booking',
+  // A provider paying back commission collected in cash
+  PROVIDER_DUES = 'provider_dues',
+  // A customer adding money to their wallet
+  WALLET_TOP_UP = 'wallet_top_up',
+  // A customer tipping the provider after the job
+  TIP = 'tip',
+  // A customer paying a cancellation fee their payments did not cover
+  CANCELLATION_FEE = 'cancellation_fee',
+}
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  PROCESSED = 'processed',
+  FAILED = 'failed',
+}
+
+export enum RefundTrigger {
+  CANCELLATION = 'cancellation',
+  DISPUTE = 'dispute',
+  ADMIN = 'admin',
+  OVERPAYMENT = 'overpayment',
+}
+
+export enum LoyaltyTransactionType {
+  EARN = 'earn',
+  REDEEM = 'redeem',
+  EXPIRE = 'expire',
+  // Earned points taken back when the booking is refunded
+  REVERSE = 'reverse',
+  // Redeemed points given back when the booking is cancelled
+  RESTORE = 'restore',
+}
+
+export enum ReferralStatus {
+  // Signed up, first booking not completed yet
+  PENDING = 'pending',
+  REWARDED = 'rewarded',
+  // Failed a fraud check; never rewarded
+  REJECTED = 'rejected',
+}
+
+export enum ReviewStatus {
+  VISIBLE = 'visible',
+  // Held by the automatic screen until an admin restores or hides it
+  FLAGGED = 'flagged',
+  HIDDEN = 'hidden',
+}
+
+export enum ProviderTier {
+  STANDARD = 'standard',
+  PRO = 'pro',
+  ELITE = 'elite',
+}
+
+export enum CommissionType {
+  PERCENTAGE = 'percentage',
+  FLAT = 'flat',
+  // Percentage kept between min_amount and max_amount
+  CAPPED_PERCENTAGE = 'capped_percentage',
+}
+
+export enum PayoutStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  PROCESSED = 'processed',
+  FAILED = 'failed',
+}
+
+export enum LedgerAccount {
+  // Per customer (owner is the user)
+  CUSTOMER_WALLET = 'customer_wallet',
+  // Per provider (owner is the provider)
+  PROVIDER_WALLET = 'provider_wallet',
+  PLATFORM_REVENUE = 'platform_revenue',
+  GATEWAY_CLEARING = 'gateway_clearing',
+  TAX_PAYABLE = 'tax_payable',
+}
+
+export enum JournalKind {
+  BOOKING_PAYMENT = 'booking_payment',
+  CASH_COMMISSION = 'cash_commission',
+  DUES_PAYMENT = 'dues_payment',
+  REFUND = 'refund',
+  TIP = 'tip',
+  PAYOUT = 'payout',
+  WALLET_TOP_UP = 'wallet_top_up',
+  CASHBACK = 'cashback',
+  CANCELLATION_FEE = 'cancellation_fee',
+}
+
 export interface User {
   id: string;
   phone: string;
@@ -42,6 +141,9 @@ export interface User {
   role: UserRole;
   status: UserStatus;
   profile_photo_url?: string;
+  // Given out on first request
+  referral_code?: string;
+  registration_device_id?: string;
   created_at: Date;
   updated_at: Date;
   last_login_at?: Date;
@@ -75,6 +177,11 @@ export interface Provider {
   cancelled_jobs: number;
   average_rating: number;
   total_earnings: number;
+  gstin?: string;
+  tier: ProviderTier;
+  // Set while an admin holds the provider's payouts
+  payout_held_at?: Date;
+  payout_hold_reason?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -97,30 +204,53 @@ export interface Booking {
   cancelled_at?: Date;
   status: BookingStatus;
   estimated_price: number;
+  tax_amount: number;
+  discount_amount: number;
+  quote_id?: string;
   final_price?: number;
   platform_fee?: number;
   provider_earnings?: number;
+  // Tips captured after completion; paid to the provider in full
+  tip_amount: number;
+  // Rule the platform fee was charged under, as it was at the time
+  commission_rule_id?: string;
+  commission_terms?: CommissionTerms;
   description?: string;
   special_instructions?: string;
   cancellation_reason?: string;
+  cancelled_by?: CancellationActor;
+  cancellation_fee?: number;
+  // Part of a customer's fee their payments did not cover, still to pay
+  cancellation_fee_due: number;
   customer_rating?: number;
   customer_review?: string;
   provider_rating?: number;
   provider_review?: string;
+  series_id?: string;
+  series_occurrence_at?: Date;
+  needs_reassignment: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
 export interface Payment {
-    id: string;
-    booking_id: string;
-    amount: number;
-    method: PaymentMethod;
-    status: PaymentStatus;
-    transaction_id?: string;
-    processed_at?: Date;
-    created_at: Date;
-    updated_at: Date;
+  id: string;
+  purpose: PaymentPurpose;
+  booking_id?: string;
+  provider_id?: string;
+  // Customer topping up their wallet
+  user_id?: string;
+  amount: number;
+  method: PaymentMethod;
+  status: PaymentStatus;
+  currency: string;
+  gateway?: string;
+  gateway_order_id?: string;
+  transaction_id?: string;
+  failure_reason?: string;
+  processed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
 }
 
 export interface Service {
@@ -129,6 +259,7 @@ export interface Service {
   description?: string;
   base_price: number;
   duration_minutes: number;
+  hsn_sac_code?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -136,18 +267,18 @@ export interface Service {
 export interface Address {
   id: string;
   user_id: string;
-    label?: string;
-    street: string;
-    city: string;
-    state: string;
-    postal_code: string;
-    country: string;
-    location: {
-      type: 'Point';
-      coordinates: [number, number];
-    };
-    created_at: Date;
-    updated_at: Date;
+  label?: string;
+  street: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  location: {
+    type: 'Point';
+    coordinates: [number, number];
+  };
+  created_at: Date;
+  updated_at: Date;
 }
 
 export interface Wallet {
@@ -165,6 +296,7 @@ export interface Transaction {
   amount: number;
   type: 'credit' | 'debit';
   description?: string;
+  balance_after: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -174,12 +306,34 @@ export interface Review {
   booking_id: string;
   reviewer_id: string;
   reviewee_id: string;
+  // Customers review providers and providers review customers
+  reviewer_role: UserRole;
   rating: number;
   comment?: string;
+  // Only visible reviews are public and count towards ratings
+  status: ReviewStatus;
+  // Why the automatic screen held it
+  flag_reasons: string[];
+  moderation_reason?: string;
+  moderated_by?: string;
+  moderated_at?: Date;
+  // The reviewed provider's one public reply
+  reply?: string;
+  replied_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface ReviewReport {
+  id: string;
+  review_id: string;
+  reporter_id: string;
+  reason: string;
+  // Set when an admin hides or restores the review
+  resolved_at?: Date;
+  created_at: Date;
+}
+
 export interface Notification {
   id: string;
   user_id: string;
@@ -194,6 +348,8 @@ export interface ServiceCategory {
   id: string;
   name: string;
   description?: string;
+  // Overrides the default loyalty earn rate
+  loyalty_earn_percent?: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -211,7 +367,7 @@ export interface ProviderAvailability {
   provider_id: string;
   day_of_week: number; // 0 (Sunday) to 6 (Saturday)
   start_time: string; // "HH:MM" format
-  end_time: string;   // "HH:MM" format
+  end_time: string; // "HH:MM" format
   created_at: Date;
   updated_at: Date;
 }
@@ -233,6 +389,13 @@ export interface DiscountCode {
   valid_from: Date;
   valid_until: Date;
   usage_limit?: number;
+  // Redemptions allowed per customer
+  per_user_limit?: number;
+  min_order_amount?: number;
+  // Restrict the code to one category or service
+  category_id?: string;
+  service_id?: string;
+  is_active: boolean;
   times_used: number;
   created_at: Date;
   updated_at: Date;
@@ -241,7 +404,10 @@ export interface BookingDiscount {
   id: string;
   booking_id: string;
   discount_code_id: string;
+  customer_id: string;
   discount_amount: number;
+  // Set when the booking is cancelled and the redemption given back
+  released_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
@@ -250,6 +416,13 @@ export interface Refund {
   payment_id: string;
   amount: number;
   reason?: string;
+  status: RefundStatus;
+  trigger: RefundTrigger;
+  // Wallet-paid bookings are refunded to the customer's wallet
+  destination: 'gateway' | 'wallet';
+  gateway_refund_id?: string;
+  failure_reason?: string;
+  requested_by?: string;
   processed_at?: Date;
   created_at: Date;
   updated_at: Date;
@@ -288,4 +461,132 @@ export interface LoyaltyPoint {
   points: number;
   created_at: Date;
   updated_at: Date;
-}
\ No newline at end of file
+}
+export interface LoyaltyTransaction {
+  id: string;
+  user_id: string;
+  type: LoyaltyTransactionType;
+  // Negative when points leave the balance
+  points: number;
+  // Earned and restored lots: points not yet spent or expired
+  remaining?: number;
+  expires_at?: Date;
+  booking_id?: string;
+  description: string;
+  created_at: Date;
+}
+export interface JournalEntry {
+  id: string;
+  kind: JournalKind;
+  description: string;
+  booking_id?: string;
+  payment_id?: string;
+  refund_id?: string;
+  payout_id?: string;
+  created_at: Date;
+}
+export interface LedgerLine {
+  id: string;
+  journal_entry_id: string;
+  account: LedgerAccount;
+  owner_id?: string;
+  debit: number;
+  credit: number;
+  created_at: Date;
+}
+export interface PayoutAccount {
+  id: string;
+  provider_id: string;
+  type: 'bank' | 'upi';
+  account_holder_name?: string;
+  account_number?: string;
+  ifsc?: string;
+  vpa?: string;
+  // Penny-drop result; only verified accounts are paid
+  status: 'pending' | 'verified' | 'failed';
+  name_at_bank?: string;
+  verification_reference?: string;
+  failure_reason?: string;
+  is_active: boolean;
+  verified_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+export interface PayoutBatch {
+  id: string;
+  // Earnings credited before this are paid out
+  cutoff_at: Date;
+  payout_count: number;
+  total_amount: number;
+  created_at: Date;
+}
+export interface Payout {
+  id: string;
+  batch_id?: string;
+  provider_id: string;
+  payout_account_id: string;
+  amount: number;
+  // Part of amount that came from tips
+  tips_amount: number;
+  status: PayoutStatus;
+  attempts: number;
+  gateway_transfer_id?: string;
+  failure_reason?: string;
+  processed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+/**
+ * How commission is charged; stored with each quote and booking so
+ * their earnings can be recomputed after rules change
+ */
+export interface CommissionTerms {
+  type: CommissionType;
+  // Percent, for percentage and capped_percentage
+  rate?: number;
+  // Fixed fee per job, for flat
+  amount?: number;
+  min_amount?: number;
+  max_amount?: number;
+}
+export interface CommissionRule {
+  id: string;
+  name: string;
+  // Unset scopes match everything
+  category_id?: string;
+  service_id?: string;
+  city?: string;
+  provider_tier?: ProviderTier;
+  type: CommissionType;
+  rate?: number;
+  amount?: number;
+  min_amount?: number;
+  max_amount?: number;
+  effective_from: Date;
+  effective_until?: Date;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+export interface Referral {
+  id: string;
+  referrer_id: string;
+  referee_id: string;
+  code: string;
+  status: ReferralStatus;
+  rejection_reason?: string;
+  // Booking that earned the reward
+  booking_id?: string;
+  rewarded_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+export interface ReferralReward {
+  id: string;
+  referral_id: string;
+  user_id: string;
+  type: 'wallet' | 'discount_code';
+  amount?: number;
+  discount_code_id?: string;
+  created_at: Date;
+}
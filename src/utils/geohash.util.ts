@@ -0,0 +1,51 @@
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export class GeohashUtil {
+  /**
+   * Encode coordinates as a geohash
+   * Precision 6 is a cell of roughly 1.2km x 0.6km.
+   */
+  static encode(lat: number, lng: number, precision = 6): string {
+    let latMin = -90;
+    let latMax = 90;
+    let lngMin = -180;
+    let lngMax = 180;
+    let hash = '';
+    let bits = 0;
+    let index = 0;
+    let evenBit = true;
+
+    while (hash.length < precision) {
+      // Bits alternate between longitude and latitude, longitude first
+      if (evenBit) {
+        const mid = (lngMin + lngMax) / 2;
+        if (lng >= mid) {
+          index = index * 2 + 1;
+          lngMin = mid;
+        } else {
+          index = index * 2;
+          lngMax = mid;
+        }
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (lat >= mid) {
+          index = index * 2 + 1;
+          latMin = mid;
+        } else {
+          index = index * 2;
+          latMax = mid;
+        }
+      }
+
+      evenBit = !evenBit;
+
+      if (++bits === 5) {
+        hash += BASE32[index];
+        bits = 0;
+        index = 0;
+      }
+    }
+
+    return hash;
+  }
+}
@@ -0,0 +1,25 @@
+export class MoneyUtil {
+  /**
+   * Round to paise (2 decimals)
+   */
+  static round(amount: number): number {
+    return Math.round((amount + Number.EPSILON) * 100) / 100;
+  }
+
+  /**
+   * Percentage of an amount, rounded to paise
+   */
+  static percentage(amount: number, percent: number): number {
+    return MoneyUtil.round((amount * percent) / 100);
+  }
+
+  /**
+   * Parse a NUMERIC column value (pg returns strings)
+   */
+  static toNumber(value: string | number | null | undefined): number {
+    if (value === null || value === undefined) {
+      return 0;
+    }
+    return typeof value === 'number' ? value : parseFloat(value);
+  }
+}
@@ -0,0 +1,104 @@
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+  size?: number;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+
+export class PdfUtil {
+  /**
+   * Render lines of text as a plain A4 PDF (Helvetica, top to bottom)
+   * Enough for documents like invoices without pulling in a PDF library.
+   * Text outside Latin-1 is replaced, since the standard fonts cannot show it.
+   */
+  static fromLines(lines: PdfLine[]): Buffer {
+    const pages = PdfUtil.paginate(lines);
+    // 1 catalog, 2 page tree, 3 regular font, 4 bold font, then page/content pairs
+    const objects: string[] = [];
+    const pageIds = pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    objects[3] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const content = PdfUtil.pageContent(page);
+
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] =
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  /**
+   * Split lines into pages by their height
+   */
+  private static paginate(lines: PdfLine[]): PdfLine[][] {
+    const pages: PdfLine[][] = [[]];
+    let used = 0;
+
+    lines.forEach((line) => {
+      const height = PdfUtil.lineHeight(line);
+      if (used + height > PAGE_HEIGHT - 2 * MARGIN && used > 0) {
+        pages.push([]);
+        used = 0;
+      }
+      pages[pages.length - 1].push(line);
+      used += height;
+    });
+
+    return pages;
+  }
+
+  private static pageContent(lines: PdfLine[]): string {
+    const commands: string[] = [];
+    let y = PAGE_HEIGHT - MARGIN;
+
+    lines.forEach((line) => {
+      y -= PdfUtil.lineHeight(line);
+      commands.push(
+        `BT /${line.bold ? 'F2' : 'F1'} ${line.size ?? DEFAULT_SIZE} Tf ` +
+          `${MARGIN} ${y} Td (${PdfUtil.escape(line.text)}) Tj ET`,
+      );
+    });
+
+    return commands.join('\n');
+  }
+
+  private static lineHeight(line: PdfLine): number {
+    return Math.round((line.size ?? DEFAULT_SIZE) * 1.4);
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+      .replace(/[\\()]/g, (char) => `\\${char}`);
+  }
+}
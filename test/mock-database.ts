@@ -0,0 +1,87 @@
+import { ConfigService } from '@nestjs/config';
+import { PoolClient, QueryResult } from 'pg';
+import { DatabaseService } from '../src/database/database.service';
+
+export interface RecordedQuery {
+  sql: string;
+  params: unknown[];
+  // Run inside a transaction that was rolled back
+  rolled_back: boolean;
+}
+
+type Rows = Record<string, unknown>[];
+type Answer = Rows | ((params: unknown[]) => Rows);
+
+/**
+ * In-memory stand-in for Postgres behind a real DatabaseService
+ * Queries are answered by the most recent stub whose pattern matches the
+ * SQL, and get no rows otherwise. Everything run is recorded, and queries
+ * of a rolled back transaction are marked as such.
+ */
+export class MockDatabase {
+  readonly queries: RecordedQuery[] = [];
+  readonly db: DatabaseService;
+  readonly client: PoolClient;
+  private readonly stubs: { match: RegExp; answer: Answer }[] = [];
+  private transactionStart: number | null = null;
+
+  constructor() {
+    const run = (sql: string, params: unknown[] = []) =>
+      Promise.resolve(this.run(sql, params));
+
+    this.client = {
+      query: run,
+      release: () => undefined,
+    } as unknown as PoolClient;
+
+    this.db = new DatabaseService({
+      get: () => undefined,
+    } as unknown as ConfigService);
+    Object.assign(this.db, {
+      pool: { query: run, connect: () => Promise.resolve(this.client) },
+    });
+  }
+
+  /**
+   * Answer queries matching the pattern with these rows
+   */
+  when(match: RegExp, answer: Answer): this {
+    this.stubs.unshift({ match, answer });
+    return this;
+  }
+
+  /**
+   * Queries matching the pattern that were not rolled back
+   */
+  committed(match: RegExp): RecordedQuery[] {
+    return this.queries.filter(
+      (query) => !query.rolled_back && match.test(query.sql),
+    );
+  }
+
+  private run(sql: string, params: unknown[]): QueryResult {
+    const statement = sql.trim();
+
+    if (statement === 'BEGIN') {
+      this.transactionStart = this.queries.length;
+    } else if (statement === 'COMMIT' || statement === 'ROLLBACK') {
+      if (statement === 'ROLLBACK' && this.transactionStart !== null) {
+        this.queries
+          .slice(this.transactionStart)
+          .forEach((query) => (query.rolled_back = true));
+      }
+      this.transactionStart = null;
+    } else {
+      this.queries.push({ sql, params, rolled_back: false });
+    }
+
+    const stub = this.stubs.find(({ match }) => match.test(sql));
+    const rows = !stub
+      ? []
+      : typeof stub.answer === 'function'
+        ? stub.answer(params)
+        : stub.answer;
+
+    return { rows, rowCount: rows.length } as unknown as QueryResult;
+  }
+}